@@ -1,19 +1,54 @@
-import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo, useDeferredValue } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { ChatArea } from './components/ChatArea';
-import { Model, ChatMessage, Role, MediaResolution, Attachment, ChatSession, TunedModel, TuningStatus, Project, FileSystemNode, initialFiles, LiveConversationModel } from './types';
-import { generateChatResponse, countTokens, generateImage, generateVideo } from './services/geminiService';
-import { Plus, PanelLeft, Settings, Settings2, Trash2, MoreVertical, Edit } from 'lucide-react';
+import { Model, ChatMessage, Role, MediaResolution, Attachment, ChatSession, PromptEntry, PromptKind, RunPreset, RunSettings, GenerationDetails, TunedModel, TuningStatus, Project, initialFiles, LiveConversationModel, ModelOption, ChatProviderId, ApiKeyEntry, OpenAICompatibleConfig, ResponseChunk, ResponsePart, RetryConfig, ToolCall, ToolCallStatus, ToolTurn, MessagePart, ModelPrice, TokenUsage, ContextStrategy } from './types';
+import { configureRetry, generateImage, generateVideo, setApiKey } from './services/geminiService';
+import { DEFAULT_RETRY_CONFIG } from './services/retry';
+import { toApiError } from './services/apiErrors';
+import { createApiKeyEntry, loadActiveApiKeyId, loadApiKeys, saveActiveApiKeyId, saveApiKeys } from './services/apiKeyService';
+import { createOpenAICompatibleProvider, DEFAULT_OPENAI_COMPATIBLE_CONFIG, GenerateOptions, geminiChatModelOptions, getProviderForModel, isOpenAICompatibleModel } from './services/chatProviders';
+import { loadChatHistory, saveSession, deleteSession, createAttachmentId, loadPrompts, savePrompt, deletePrompt } from './services/storageService';
+import { getActivePath, getBranchInfo, getPathTo, getSiblings, selectChild, selectPathTo } from './lib/messageTree';
+import { searchChats, SearchResult } from './lib/chatSearch';
+import { applyHistoryImport, HistoryImportMode } from './services/historyImportService';
+import { applyPresetImport, createPresetId, toPresetSettings } from './services/presetService';
+import { ChatExportFormat, exportChat } from './services/chatExportService';
+import { pollTuningJob, tuningService } from './services/tuningService';
+import { trainingFilesToExamples } from './lib/tuningData';
+import { runToolHandler, toFunctionResponse } from './lib/toolSandbox';
+import { appendResponseParts, hasRichParts } from './lib/messageParts';
+import { parseSchemaText } from './lib/responseSchema';
+import { addUsage, DEFAULT_MODEL_PRICES } from './lib/usage';
+import { compactOldAttachments, findContextStart, getPendingSummaryMessages } from './lib/contextWindow';
+import { summarizeTurns } from './services/contextSummaryService';
+import { readProjectZip } from './services/projectArchiveService';
+import { downloadBlob } from './lib/download';
+import { flattenFiles, formatProjectFiles } from './lib/fileTree';
+import { LineChange, ReviewResult, collectFileChanges, resolveChanges, reviewHunk } from './lib/projectChanges';
+import { Plus, PanelLeft, Settings, Settings2, Trash2, MoreVertical, Edit, Search, X, FileText, FileCode, Printer, Columns3, ListChecks, AlertTriangle } from 'lucide-react';
 import { HeaderModelSelector } from './components/HeaderModelSelector';
+import { CompareModelSelector, MIN_COMPARE_MODELS } from './components/CompareModelSelector';
+import { CompareView } from './components/CompareView';
+import { BatchRunner } from './components/BatchRunner';
 import { Modal } from './components/Modal';
-import { GenerateContentResponse, Type } from '@google/genai';
+import { Type } from '@google/genai';
 import { FilesSidebar } from './components/FilesSidebar';
 import { ConfirmationModal } from './components/ConfirmationModal';
-import CodeInterpreterPanel, { StreamingTarget } from './components/CodeInterpreterPanel';
+import CodeInterpreterPanel from './components/CodeInterpreterPanel';
 import { LiveConversation } from './components/LiveConversation';
 import { SettingsModal } from './components/SettingsModal';
+import { ApiKeySetup } from './components/ApiKeySetup';
+import { ChatSearchResults } from './components/ChatSearchResults';
+import { PromptLibrary } from './components/PromptLibrary';
+import { ToolHandlersModal } from './components/ToolHandlersModal';
+import { SchemaBuilderModal } from './components/SchemaBuilderModal';
 
 
+// Stops a model that keeps calling functions instead of answering.
+const MAX_TOOL_ROUNDS = 10;
+
+const RUN_SETTINGS_SAVE_DELAY_MS = 500;
+
 const useMediaQuery = (query: string) => {
     const [matches, setMatches] = React.useState(() => window.matchMedia(query).matches);
 
@@ -37,9 +72,15 @@ const NavigationSidebar: React.FC<{
   onRenameChat: (id: string, newTitle: string) => void;
   isMobile: boolean;
   onOpenSettings: () => void;
-}> = ({ isSidebarOpen, onNewChat, chatHistory, activeChatId, onSelectChat, onDeleteChat, onRenameChat, isMobile, onOpenSettings }) => {
+  onOpenSearchResult: (result: SearchResult) => void;
+  onExportChat: (chat: ChatSession, format: ChatExportFormat) => void;
+}> = ({ isSidebarOpen, onNewChat, chatHistory, activeChatId, onSelectChat, onDeleteChat, onRenameChat, isMobile, onOpenSettings, onOpenSearchResult, onExportChat }) => {
   const isActuallyOpen = isMobile ? true : isSidebarOpen;
   
+  const [searchQuery, setSearchQuery] = useState('');
+  // Searching walks every message of every chat, so let typing stay responsive while results catch up.
+  const deferredSearchQuery = useDeferredValue(searchQuery);
+  const searchResults = useMemo(() => searchChats(chatHistory, deferredSearchQuery), [chatHistory, deferredSearchQuery]);
   const [menuId, setMenuId] = useState<string | null>(null);
   const [renamingId, setRenamingId] = useState<string | null>(null);
   const [renameValue, setRenameValue] = useState('');
@@ -118,6 +159,12 @@ const NavigationSidebar: React.FC<{
       setBottomSheetChat(null);
       onDeleteChat(id);
   };
+
+  const exportOptions: { format: ChatExportFormat; label: string; Icon: React.ElementType }[] = [
+    { format: 'markdown', label: 'Export Markdown', Icon: FileText },
+    { format: 'html', label: 'Export HTML', Icon: FileCode },
+    { format: 'print', label: 'Print / Save PDF', Icon: Printer },
+  ];
   
   return (
     <>
@@ -147,7 +194,32 @@ const NavigationSidebar: React.FC<{
             <span className={`ml-2 whitespace-nowrap overflow-hidden transition-all duration-200 ${isActuallyOpen ? 'w-auto opacity-100' : 'w-0 opacity-0'}`}>New Chat</span>
           </button>
 
+          <div className={`relative mt-4 w-[85%] flex-shrink-0 transition-opacity duration-200 ${isActuallyOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Escape') setSearchQuery(''); }}
+              placeholder="Search chats"
+              aria-label="Search chats"
+              className="w-full pl-9 pr-8 py-2 text-sm text-gray-800 dark:text-gray-200 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {searchQuery && (
+              <button onClick={() => setSearchQuery('')} className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" aria-label="Clear search">
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
           <div className={`mt-6 flex-1 overflow-y-auto overflow-x-hidden transition-opacity duration-200 hover-scrollbar [scrollbar-gutter:stable] ${isActuallyOpen ? 'opacity-100' : 'opacity-0'}`}>
+            {searchQuery.trim() ? (
+              <>
+                <h2 className="text-xs font-semibold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-2 px-3">RESULTS</h2>
+                <ChatSearchResults query={deferredSearchQuery} results={searchResults} onSelect={onOpenSearchResult} />
+              </>
+            ) : (
+            <>
             <h2 className="text-xs font-semibold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-2 px-3">HISTORY</h2>
             <nav className="space-y-1">
               {chatHistory.map((chat) => (
@@ -191,13 +263,22 @@ const NavigationSidebar: React.FC<{
                       <MoreVertical className="w-4 h-4" />
                     </button>
                      {!isMobile && menuId === chat.id && (
-                      <div ref={menuRef} className="absolute right-[-0.8rem] top-[2.5rem] w-40 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-10 p-1">
+                      <div ref={menuRef} className="absolute right-[-0.8rem] top-[2.5rem] w-48 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-10 p-1">
                         <button
                           onClick={(e) => { e.stopPropagation(); handleRenameStart(chat.id, chat.title); }}
                           className="w-full text-left flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-md"
                         >
                           <Edit className="w-3.5 h-3.5" /> Rename
                         </button>
+                        {exportOptions.map(({ format, label, Icon }) => (
+                          <button
+                            key={format}
+                            onClick={(e) => { e.stopPropagation(); onExportChat(chat, format); setMenuId(null); }}
+                            className="w-full text-left flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-md"
+                          >
+                            <Icon className="w-3.5 h-3.5" /> {label}
+                          </button>
+                        ))}
                         <button
                           onClick={(e) => { e.stopPropagation(); onDeleteChat(chat.id); setMenuId(null); }}
                           className="w-full text-left flex items-center gap-2 px-3 py-1.5 text-sm text-red-600 dark:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md"
@@ -210,6 +291,8 @@ const NavigationSidebar: React.FC<{
                 </div>
               ))}
             </nav>
+            </>
+            )}
           </div>
 
           <div className={`mt-auto flex-shrink-0 whitespace-nowrap transition-opacity duration-200 ${isActuallyOpen ? 'opacity-100' : 'opacity-0'}`}>
@@ -245,6 +328,15 @@ const NavigationSidebar: React.FC<{
                         >
                             <Edit className="w-5 h-5" /> Rename
                         </button>
+                        {exportOptions.map(({ format, label, Icon }) => (
+                          <button
+                              key={format}
+                              onClick={() => { onExportChat(bottomSheetChat, format); setBottomSheetChat(null); }}
+                              className="w-full text-left flex items-center gap-3 px-4 py-3 text-base text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                          >
+                              <Icon className="w-5 h-5" /> {label}
+                          </button>
+                        ))}
                         <button
                             onClick={() => handleMobileDelete(bottomSheetChat.id)}
                             className="w-full text-left flex items-center gap-3 px-4 py-3 text-base text-red-600 dark:text-red-500 hover:bg-red-900/20 rounded-lg transition-colors"
@@ -259,36 +351,6 @@ const NavigationSidebar: React.FC<{
   );
 };
 
-const findAndUpdateFile = (nodes: { [key: string]: FileSystemNode }, path: string, content: string): boolean => {
-    const parts = path.split('/');
-    let currentLevel = nodes;
-
-    for (let i = 0; i < parts.length; i++) {
-        const part = parts[i];
-        const isLastPart = i === parts.length - 1;
-
-        if (!currentLevel[part]) {
-            if (isLastPart) {
-                currentLevel[part] = { name: part, content };
-            } else {
-                currentLevel[part] = { name: part, children: {} };
-            }
-        }
-        
-        if (isLastPart) {
-            if(currentLevel[part].children) return false; 
-            currentLevel[part].content = content;
-        } else {
-            if (!currentLevel[part].children) {
-                 return false;
-            }
-            currentLevel = currentLevel[part].children!;
-        }
-    }
-    return true;
-};
-
-
 const modelMaxTokens: Partial<Record<Model, number>> = {
     [Model.GEMINI_2_5_PRO]: 1048576,
     [Model.GEMINI_2_5_FLASH]: 1048576,
@@ -319,20 +381,53 @@ const createNewProject = (name = 'New Project', description = 'A new coding proj
     files: JSON.parse(JSON.stringify(initialFiles)),
 });
 
+interface SendMessageOptions {
+  // Start the turn under this message instead of the end of the active path; null starts a new root branch.
+  parentId?: string | null;
+  // Generate another reply to an existing user message instead of adding a new one.
+  userMessage?: ChatMessage;
+  // Drop this message (e.g. a failed reply) from the tree before generating.
+  replaceMessageId?: string;
+}
+
 const App: React.FC = () => {
   const isMobile = useMediaQuery('(max-width: 767px)');
   const prefersDarkMode = useMediaQuery('(prefers-color-scheme: dark)');
   const [selectedModel, setSelectedModel] = useState<Model | string>(Model.GEMINI_2_5_FLASH);
-  
-  const [chatHistory, setChatHistory] = useState<ChatSession[]>(() => {
+
+  const [apiKeys, setApiKeys] = useState<ApiKeyEntry[]>(() => loadApiKeys());
+  const [activeApiKeyId, setActiveApiKeyId] = useState<string | null>(() => loadActiveApiKeyId());
+  const activeApiKey = useMemo(() => apiKeys.find(k => k.id === activeApiKeyId) ?? apiKeys[0] ?? null, [apiKeys, activeApiKeyId]);
+
+  // Declared before any effect that may call the API so the client is ready when they run.
+  useEffect(() => {
+    setApiKey(activeApiKey?.key ?? null);
+  }, [activeApiKey]);
+
+  useEffect(() => {
+    saveApiKeys(apiKeys);
+    saveActiveApiKeyId(activeApiKey?.id ?? null);
+  }, [apiKeys, activeApiKey]);
+
+  const [retryConfig, setRetryConfig] = useState<RetryConfig>(() => {
     try {
-      const savedHistory = localStorage.getItem('chatHistory');
-      return savedHistory ? JSON.parse(savedHistory) : [];
+      const savedConfig = localStorage.getItem('retryConfig');
+      return savedConfig ? { ...DEFAULT_RETRY_CONFIG, ...JSON.parse(savedConfig) } : DEFAULT_RETRY_CONFIG;
     } catch (error) {
-      console.error("Failed to load chat history from localStorage", error);
-      return [];
+      console.error("Failed to load retry config from localStorage", error);
+      return DEFAULT_RETRY_CONFIG;
     }
   });
+
+  useEffect(() => {
+    configureRetry(retryConfig);
+    localStorage.setItem('retryConfig', JSON.stringify(retryConfig));
+  }, [retryConfig]);
+  
+  const [chatHistory, setChatHistory] = useState<ChatSession[]>([]);
+  const [isHistoryLoaded, setIsHistoryLoaded] = useState<boolean>(false);
+  const persistedSessionsRef = useRef<Map<string, ChatSession>>(new Map());
+  const [storageError, setStorageError] = useState<string | null>(null);
   const [activeChatId, setActiveChatId] = useState<string | null>(() => {
     try {
       const savedActiveId = localStorage.getItem('activeChatId');
@@ -370,8 +465,6 @@ const App: React.FC = () => {
   const [isVideoToolActive, setIsVideoToolActive] = useState<boolean>(false);
   const [isCodePanelVisible, setIsCodePanelVisible] = useState<boolean>(false);
   const [activeInterpreterFile, setActiveInterpreterFile] = useState<string>('index.html');
-  const [streamingTarget, setStreamingTarget] = useState<StreamingTarget | null>(null);
-  const [pendingProjectUpdate, setPendingProjectUpdate] = useState<Project | null>(null);
   const [isWidePreview, setIsWidePreview] = useState<boolean>(false);
   const [isLiveConversationOpen, setIsLiveConversationOpen] = useState(false);
   const [liveConversationModel, setLiveConversationModel] = useState<LiveConversationModel>(LiveConversationModel.GEMINI_2_5_FLASH_NATIVE_AUDIO);
@@ -385,6 +478,8 @@ const App: React.FC = () => {
   const [stopSequence, setStopSequence] = useState<string>('');
   const [useGoogleSearch, setUseGoogleSearch] = useState<boolean>(false);
   const [mediaResolution, setMediaResolution] = useState<MediaResolution>(MediaResolution.DEFAULT);
+  const [contextStrategy, setContextStrategy] = useState<ContextStrategy>(ContextStrategy.FULL);
+  const [contextTurns, setContextTurns] = useState<number>(10);
   const [tokenCount, setTokenCount] = useState<number>(0);
   const [useThinking, setUseThinking] = useState<boolean>(false);
   const [useThinkingBudget, setUseThinkingBudget] = useState<boolean>(false);
@@ -401,25 +496,90 @@ const App: React.FC = () => {
   const [useStructuredOutput, setUseStructuredOutput] = useState<boolean>(false);
   const [structuredOutputSchema, setStructuredOutputSchema] = useState<string>('');
   const [isSchemaModalOpen, setIsSchemaModalOpen] = useState<boolean>(false);
-  const [tempSchema, setTempSchema] = useState<string>('');
 
   const [useCodeExecution, setUseCodeExecution] = useState<boolean>(false);
 
   const [useFunctionCalling, setUseFunctionCalling] = useState<boolean>(false);
   const [functionDeclarations, setFunctionDeclarations] = useState<string>('');
   const [isFunctionModalOpen, setIsFunctionModalOpen] = useState<boolean>(false);
+  const [isToolHandlersModalOpen, setIsToolHandlersModalOpen] = useState<boolean>(false);
+  const [toolHandlers, setToolHandlers] = useState<Record<string, string>>(() => {
+    try {
+      const savedHandlers = localStorage.getItem('toolHandlers');
+      return savedHandlers ? JSON.parse(savedHandlers) : {};
+    } catch (error) {
+      console.error("Failed to load function handlers from localStorage", error);
+      return {};
+    }
+  });
+  // Resolvers for function calls that are waiting on a response typed into their tool card.
+  const toolResponseResolversRef = useRef(new Map<string, (response: unknown) => void>());
   const [tempDeclarations, setTempDeclarations] = useState<string>('');
 
   const [useUrlContext, setUseUrlContext] = useState<boolean>(false);
   const [urlContext, setUrlContext] = useState<string>('');
+
+  // Prompt library state
+  const [prompts, setPrompts] = useState<PromptEntry[]>([]);
+  const [promptLibraryKind, setPromptLibraryKind] = useState<PromptKind | null>(null);
+  const promptTemplates = useMemo(() => prompts.filter(prompt => prompt.kind === PromptKind.TEMPLATE), [prompts]);
   
   // Tuning state
   const [tunedModels, setTunedModels] = useState<TunedModel[]>([]);
+  const tuningPollsRef = useRef(new Map<string, AbortController>());
+
+  // Additional chat providers
+  const [openAICompatibleConfig, setOpenAICompatibleConfig] = useState<OpenAICompatibleConfig>(() => {
+    try {
+      const savedConfig = localStorage.getItem('openAICompatibleConfig');
+      return savedConfig ? JSON.parse(savedConfig) : DEFAULT_OPENAI_COMPATIBLE_CONFIG;
+    } catch (error) {
+      console.error("Failed to load OpenAI-compatible config from localStorage", error);
+      return DEFAULT_OPENAI_COMPATIBLE_CONFIG;
+    }
+  });
+  const [isOpenAICompatibleEnabled, setIsOpenAICompatibleEnabled] = useState<boolean>(() => localStorage.getItem('openAICompatibleEnabled') === 'true');
+  const [openAICompatibleModels, setOpenAICompatibleModels] = useState<ModelOption[]>([]);
+  const [openAICompatibleError, setOpenAICompatibleError] = useState<string | null>(null);
   
+  const [runPresets, setRunPresets] = useState<RunPreset[]>(() => {
+    try {
+      const savedPresets = localStorage.getItem('runPresets');
+      return savedPresets ? JSON.parse(savedPresets) : [];
+    } catch (error) {
+      console.error("Failed to load run presets from localStorage", error);
+      return [];
+    }
+  });
+  const [modelPrices, setModelPrices] = useState<Record<string, ModelPrice>>(() => {
+    try {
+      const savedPrices = localStorage.getItem('modelPrices');
+      return savedPrices ? { ...DEFAULT_MODEL_PRICES, ...JSON.parse(savedPrices) } : DEFAULT_MODEL_PRICES;
+    } catch (error) {
+      console.error("Failed to load model prices from localStorage", error);
+      return DEFAULT_MODEL_PRICES;
+    }
+  });
+  const [isCompareMode, setIsCompareMode] = useState<boolean>(false);
+  const [isBatchRunnerOpen, setIsBatchRunnerOpen] = useState<boolean>(false);
+  const [compareModels, setCompareModels] = useState<string[]>(() => {
+    try {
+      const savedModels = localStorage.getItem('compareModels');
+      return savedModels ? JSON.parse(savedModels) : [Model.GEMINI_2_5_FLASH_LITE, Model.GEMINI_2_5_PRO];
+    } catch (error) {
+      console.error("Failed to load compare models from localStorage", error);
+      return [Model.GEMINI_2_5_FLASH_LITE, Model.GEMINI_2_5_PRO];
+    }
+  });
+
   // Deletion confirmation state
   const [chatToDelete, setChatToDelete] = useState<string | null>(null);
+  const [presetToDelete, setPresetToDelete] = useState<RunPreset | null>(null);
+  // An imported project waiting for confirmation before it replaces the chat's current one.
+  const [projectToImport, setProjectToImport] = useState<Project | null>(null);
 
   const abortControllerRef = useRef<AbortController | null>(null);
+  const [scrollTargetMessageId, setScrollTargetMessageId] = useState<string | null>(null);
 
   const activeChat = useMemo(() => chatHistory.find(c => c.id === activeChatId), [chatHistory, activeChatId]);
   const activeProject = useMemo(() => activeChat?.project, [activeChat]);
@@ -436,6 +596,82 @@ const App: React.FC = () => {
   }, [numberOfImages]);
 
 
+  const runSettings = useMemo<RunSettings>(() => ({
+    model: selectedModel, systemInstruction, temperature, topP, maxOutputTokens, stopSequence, mediaResolution,
+    useThinking, useThinkingBudget, thinkingBudget, useGoogleSearch, useUrlContext, urlContext,
+    useStructuredOutput, structuredOutputSchema, useCodeExecution, useFunctionCalling, functionDeclarations,
+    numberOfImages, negativePrompt, seed, aspectRatio, personGeneration, contextStrategy, contextTurns,
+  }), [selectedModel, systemInstruction, temperature, topP, maxOutputTokens, stopSequence, mediaResolution, useThinking, useThinkingBudget, thinkingBudget, useGoogleSearch, useUrlContext, urlContext, useStructuredOutput, structuredOutputSchema, useCodeExecution, useFunctionCalling, functionDeclarations, numberOfImages, negativePrompt, seed, aspectRatio, personGeneration, contextStrategy, contextTurns]);
+
+  const applyRunSettings = useCallback((settings: RunSettings) => {
+    // A tuned model that has since been deleted can't be restored; keep the current model instead.
+    const isMissingTunedModel = typeof settings.model === 'string' && settings.model.startsWith('tunedModels/') && !tunedModels.some(m => m.id === settings.model);
+    if (!isMissingTunedModel) setSelectedModel(settings.model);
+    setSystemInstruction(settings.systemInstruction);
+    setTemperature(settings.temperature);
+    setTopP(settings.topP);
+    setMaxOutputTokens(settings.maxOutputTokens);
+    setStopSequence(settings.stopSequence);
+    setMediaResolution(settings.mediaResolution);
+    setUseThinking(settings.useThinking);
+    setUseThinkingBudget(settings.useThinkingBudget);
+    setThinkingBudget(settings.thinkingBudget);
+    setUseGoogleSearch(settings.useGoogleSearch);
+    setUseUrlContext(settings.useUrlContext);
+    setUrlContext(settings.urlContext);
+    setUseStructuredOutput(settings.useStructuredOutput);
+    setStructuredOutputSchema(settings.structuredOutputSchema);
+    setUseCodeExecution(settings.useCodeExecution);
+    setUseFunctionCalling(settings.useFunctionCalling);
+    setFunctionDeclarations(settings.functionDeclarations);
+    setNumberOfImages(settings.numberOfImages);
+    setNegativePrompt(settings.negativePrompt);
+    setSeed(settings.seed);
+    setAspectRatio(settings.aspectRatio);
+    setPersonGeneration(settings.personGeneration);
+    setContextStrategy(settings.contextStrategy);
+    setContextTurns(settings.contextTurns);
+  }, [tunedModels]);
+
+  // The chat whose run settings are currently loaded into the Sidebar state.
+  const runSettingsChatIdRef = useRef<string | null>(null);
+  // Settings changes waiting to be written to their chat. Sliders change them on every tick, and each write saves the whole session.
+  const pendingRunSettingsRef = useRef<{ chatId: string; settings: RunSettings } | null>(null);
+
+  const flushRunSettings = useCallback(() => {
+    const pending = pendingRunSettingsRef.current;
+    if (!pending) return;
+    pendingRunSettingsRef.current = null;
+    const serialized = JSON.stringify(pending.settings);
+    setChatHistory(prev => prev.map(c => c.id === pending.chatId && JSON.stringify(c.runSettings) !== serialized ? { ...c, runSettings: pending.settings } : c));
+  }, []);
+
+  useEffect(() => {
+    if (!isHistoryLoaded || !activeChatId || runSettingsChatIdRef.current === activeChatId) return;
+    const chat = chatHistory.find(c => c.id === activeChatId);
+    if (!chat) return;
+    // The previous chat keeps the changes made just before switching away from it.
+    flushRunSettings();
+    runSettingsChatIdRef.current = activeChatId;
+    if (chat.runSettings) {
+      // Settings added after the chat was saved (or missing from an import) keep their current values.
+      applyRunSettings({ ...runSettings, ...chat.runSettings });
+    } else {
+      // New and older chats start from the settings that are currently shown.
+      setChatHistory(prev => prev.map(c => c.id === activeChatId ? { ...c, runSettings } : c));
+    }
+  }, [activeChatId, chatHistory, isHistoryLoaded, applyRunSettings, runSettings, flushRunSettings]);
+
+  // The change is tied to the chat whose settings were showing when it was made, so a switch during the delay
+  // can't send it to the next chat; the restore effect above flushes it before loading that chat's settings.
+  useEffect(() => {
+    const chatId = runSettingsChatIdRef.current;
+    if (!chatId) return;
+    pendingRunSettingsRef.current = { chatId, settings: runSettings };
+    const timer = setTimeout(flushRunSettings, RUN_SETTINGS_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [runSettings, flushRunSettings]);
+
   const handleNewChat = useCallback(() => {
     const currentActiveChat = chatHistory.find(chat => chat.id === activeChatId);
     if (currentActiveChat && currentActiveChat.messages.length === 0) return;
@@ -483,9 +719,57 @@ const App: React.FC = () => {
   }, []);
 
   useEffect(() => {
+    let isCancelled = false;
+    loadChatHistory()
+      .then(history => {
+        if (isCancelled) return;
+        persistedSessionsRef.current = new Map(history.map(chat => [chat.id, chat]));
+        setChatHistory(history);
+      })
+      .catch(error => {
+        console.error("Failed to load chat history from IndexedDB", error);
+        alert(`Failed to load your chat history: ${error instanceof Error ? error.message : String(error)}`);
+      })
+      .finally(() => { if (!isCancelled) setIsHistoryLoaded(true); });
+    return () => { isCancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!isHistoryLoaded) return;
+    // Sessions are updated immutably, so a changed reference means the session needs to be written.
+    const previous = persistedSessionsRef.current;
+    const next = new Map<string, ChatSession>();
+    // A failed write leaves the session out of date in the map, so the next change to the history tries it again.
+    const reportFailure = (action: string, error: unknown) => {
+        setStorageError(`Couldn't ${action} a chat in this browser's storage: ${error instanceof Error ? error.message : String(error)}. It will be tried again on the next change.`);
+    };
+    chatHistory.filter(chat => chat.messages.length > 0).forEach(chat => {
+        next.set(chat.id, chat);
+        if (previous.get(chat.id) !== chat) {
+            saveSession(chat)
+                .then(() => setStorageError(null))
+                .catch(error => {
+                    console.error(`Failed to save chat ${chat.id}`, error);
+                    if (persistedSessionsRef.current.get(chat.id) === chat) persistedSessionsRef.current.delete(chat.id);
+                    reportFailure('save', error);
+                });
+        }
+    });
+    previous.forEach((chat, id) => {
+        if (next.has(id)) return;
+        deleteSession(id).catch(error => {
+            console.error(`Failed to delete chat ${id}`, error);
+            if (!persistedSessionsRef.current.has(id)) persistedSessionsRef.current.set(id, chat);
+            reportFailure('delete', error);
+        });
+    });
+    persistedSessionsRef.current = next;
+  }, [chatHistory, isHistoryLoaded]);
+
+  useEffect(() => {
+    if (!isHistoryLoaded) return;
     try {
         const historyToSave = chatHistory.filter(chat => chat.messages.length > 0);
-        localStorage.setItem('chatHistory', JSON.stringify(historyToSave));
         if (activeChatId) {
             const activeChatIsInSavedHistory = historyToSave.some(chat => chat.id === activeChatId);
             if (activeChatIsInSavedHistory) localStorage.setItem('activeChatId', JSON.stringify(activeChatId));
@@ -493,20 +777,27 @@ const App: React.FC = () => {
         } else {
             localStorage.removeItem('activeChatId');
         }
-    } catch (error) { console.error("Failed to save chat state to localStorage", error); }
-  }, [chatHistory, activeChatId]);
+    } catch (error) { console.error("Failed to save active chat ID to localStorage", error); }
+  }, [chatHistory, activeChatId, isHistoryLoaded]);
   
 
   useEffect(() => {
+    if (!isHistoryLoaded) return;
     const activeChatExists = chatHistory.some(chat => chat.id === activeChatId);
     if (chatHistory.length > 0 && !activeChatExists) setActiveChatId(chatHistory[0].id);
     else if (chatHistory.length === 0) handleNewChat();
-  }, [chatHistory, activeChatId, handleNewChat]); 
+  }, [chatHistory, activeChatId, handleNewChat, isHistoryLoaded]); 
 
   useEffect(() => {
     try {
         const savedModels = localStorage.getItem('tunedModels');
-        if (savedModels) setTunedModels(JSON.parse(savedModels));
+        if (savedModels) {
+            // A job that was still being submitted when the page closed has no name to poll, so it can't be resumed.
+            const models: TunedModel[] = JSON.parse(savedModels);
+            setTunedModels(models.map(m => m.status === TuningStatus.TRAINING && !m.tunedModelName
+                ? { ...m, status: TuningStatus.FAILED, error: "Training was interrupted before the job was submitted. Retrain the model to try again." }
+                : m));
+        }
     } catch (error) { console.error("Failed to load tuned models from localStorage", error); }
   }, []);
 
@@ -514,6 +805,48 @@ const App: React.FC = () => {
     localStorage.setItem('tunedModels', JSON.stringify(tunedModels));
   }, [tunedModels]);
 
+  useEffect(() => {
+    localStorage.setItem('runPresets', JSON.stringify(runPresets));
+  }, [runPresets]);
+
+  useEffect(() => {
+    localStorage.setItem('modelPrices', JSON.stringify(modelPrices));
+  }, [modelPrices]);
+
+  useEffect(() => {
+    localStorage.setItem('compareModels', JSON.stringify(compareModels));
+  }, [compareModels]);
+
+  useEffect(() => {
+    localStorage.setItem('toolHandlers', JSON.stringify(toolHandlers));
+  }, [toolHandlers]);
+
+  useEffect(() => {
+    localStorage.setItem('openAICompatibleConfig', JSON.stringify(openAICompatibleConfig));
+    localStorage.setItem('openAICompatibleEnabled', String(isOpenAICompatibleEnabled));
+    if (!isOpenAICompatibleEnabled || !openAICompatibleConfig.baseUrl.trim()) {
+        setOpenAICompatibleModels([]);
+        setOpenAICompatibleError(null);
+        return;
+    }
+    let isCancelled = false;
+    createOpenAICompatibleProvider(openAICompatibleConfig).listModels()
+      .then(models => {
+        if (isCancelled) return;
+        setOpenAICompatibleModels(models);
+        setOpenAICompatibleError(null);
+      })
+      .catch(error => {
+        if (isCancelled) return;
+        console.error("Failed to list OpenAI-compatible models", error);
+        setOpenAICompatibleModels([]);
+        setOpenAICompatibleError(error instanceof Error ? error.message : String(error));
+      });
+    return () => { isCancelled = true; };
+  }, [openAICompatibleConfig, isOpenAICompatibleEnabled]);
+
+  const activeProvider = useMemo(() => getProviderForModel(selectedModel, openAICompatibleConfig), [selectedModel, openAICompatibleConfig]);
+
   const activeBaseModel = useMemo<Model | undefined>(() => {
     if (typeof selectedModel === 'string' && selectedModel.startsWith('tunedModels/')) {
         return tunedModels.find(m => m.id === selectedModel)?.baseModel;
@@ -537,12 +870,6 @@ const App: React.FC = () => {
   const placeholderSchema = JSON.stringify({ type: Type.OBJECT, properties: { recipeName: { type: Type.STRING, description: "The name of the recipe." } } }, null, 2);
   const placeholderDeclarations = JSON.stringify([{ name: "find_recipes", description: "Find recipes for a given dish and list ingredients.", parameters: { type: Type.OBJECT, properties: { dish: { type: Type.STRING, description: "The dish to search recipes for." }, ingredients: { type: Type.ARRAY, items: { type: Type.STRING } } }, required: ["dish"] } }], null, 2);
 
-  const chatModelNameMap: Partial<Record<Model, string>> = {
-    [Model.GEMINI_2_5_PRO]: 'Gemini 2.5 Pro', [Model.GEMINI_2_5_FLASH]: 'Gemini 2.5 Flash', [Model.GEMINI_2_5_FLASH_LITE]: 'Gemini 2.5 Flash-Lite',
-    [Model.GEMINI_2_0_FLASH]: 'Gemini 2.0 Flash', [Model.GEMINI_2_0_FLASH_LITE]: 'Gemini 2.0 Flash-Lite',
-    [Model.GEMMA_3N_E2B]: 'Gemma 3n E2B', [Model.GEMMA_3N_E4B]: 'Gemma 3n E4B', [Model.GEMMA_3_1B]: 'Gemma 3 1B', [Model.GEMMA_3_4B]: 'Gemma 3 4B', [Model.GEMMA_3_12B]: 'Gemma 3 12B', [Model.GEMMA_3_27B]: 'Gemma 3 27B',
-  };
-
   const imageGenerationModelNameMap: Partial<Record<Model, string>> = {
     [Model.IMAGEN_4_0_ULTRA_GENERATE_001]: 'Imagen 4 Ultra',
     [Model.IMAGEN_4_0_GENERATE_001]: 'Imagen 4',
@@ -561,7 +888,7 @@ const App: React.FC = () => {
     [Model.VEO_2_0_GENERATE_001]: 'Veo 2',
   };
   
-  const modelOptions = useMemo(() => (Object.keys(chatModelNameMap) as Model[]).map(modelKey => ({ value: modelKey, label: chatModelNameMap[modelKey]! })), [chatModelNameMap]);
+  const modelOptions = geminiChatModelOptions;
   const deepResearchCompatibleModels: (Model | string)[] = [Model.GEMINI_2_5_PRO, Model.GEMINI_2_5_FLASH];
   const codeInterpreterCompatibleModels: (Model | string)[] = [
     Model.GEMINI_2_5_PRO,
@@ -572,7 +899,11 @@ const App: React.FC = () => {
     Model.GEMINI_2_0_FLASH_LITE,
   ];
 
-  const combinedModelOptions = useMemo(() => {
+  const customModelOptions = useMemo<ModelOption[]>(() => tunedModels.filter(m => m.status === TuningStatus.COMPLETED).map(m => ({ value: m.id, label: `[Custom] ${m.displayName}`, provider: ChatProviderId.GEMINI })), [tunedModels]);
+  // Every model that can answer a chat request; compare mode picks from these regardless of the active tool.
+  const chatModelOptions = useMemo<ModelOption[]>(() => [...modelOptions, ...customModelOptions, ...openAICompatibleModels], [modelOptions, customModelOptions, openAICompatibleModels]);
+
+  const combinedModelOptions = useMemo<ModelOption[]>(() => {
     if (isVideoToolActive) {
       return (Object.keys(videoGenerationModelNameMap) as Model[]).map(modelKey => ({ value: modelKey, label: videoGenerationModelNameMap[modelKey]! }));
     }
@@ -583,8 +914,7 @@ const App: React.FC = () => {
       return [...genOptions, ...editOptions];
     }
 
-    const customModels = tunedModels.filter(m => m.status === TuningStatus.COMPLETED).map(m => ({ value: m.id, label: `[Custom] ${m.displayName}` }));
-    const baseOptions = customModels.length > 0 ? [...modelOptions, ...customModels] : modelOptions;
+    const baseOptions = chatModelOptions;
     
     if (isDeepResearchToggled) {
         return baseOptions.filter(opt => deepResearchCompatibleModels.includes(opt.value as Model));
@@ -595,7 +925,7 @@ const App: React.FC = () => {
     }
     
     return baseOptions;
-  }, [tunedModels, modelOptions, isDeepResearchToggled, isCodeInterpreterToggled, isImageToolActive, isVideoToolActive]);
+  }, [chatModelOptions, modelOptions, isDeepResearchToggled, isCodeInterpreterToggled, isImageToolActive, isVideoToolActive]);
 
   useEffect(() => {
       if (isDeepResearchToggled && !deepResearchCompatibleModels.includes(selectedModel)) {
@@ -630,7 +960,35 @@ const App: React.FC = () => {
     }
   }, [isImageToolActive, isVideoToolActive, selectedModel]);
   
-  const messages = useMemo(() => activeChat ? activeChat.messages : [], [activeChat]);
+  const messages = useMemo(() => activeChat ? getActivePath(activeChat) : [], [activeChat]);
+  const branchInfo = useMemo(() => activeChat ? getBranchInfo(activeChat, messages) : {}, [activeChat, messages]);
+  // Where the next request's context starts; the prompt about to be sent takes up one of the kept turns.
+  const contextCutoffIndex = useMemo(() => {
+    if (contextStrategy === ContextStrategy.FULL) return null;
+    const start = findContextStart(messages, contextTurns - 1);
+    return start > 0 ? start : null;
+  }, [messages, contextStrategy, contextTurns]);
+  // A summary built on another branch is rebuilt on the next send, so it isn't shown for this one.
+  const activeContextSummary = useMemo(() => {
+    const summary = activeChat?.contextSummary;
+    return summary && messages.some(msg => msg.id === summary.throughMessageId) ? summary : undefined;
+  }, [activeChat, messages]);
+
+  // The replies of the latest comparison, when the active path ends on one of them.
+  const compareRound = useMemo(() => {
+    const lastMessage = messages[messages.length - 1];
+    if (!activeChat || !lastMessage?.comparison) return null;
+    return {
+      prompt: messages[messages.length - 2],
+      replies: getSiblings(activeChat.messages, lastMessage).filter(msg => msg.comparison),
+    };
+  }, [activeChat, messages]);
+  const modelLabels = useMemo(() => Object.fromEntries(chatModelOptions.map(option => [option.value, option.label])), [chatModelOptions]);
+
+  useEffect(() => {
+    // The tools send a single specialised request, which compare mode can't fan out.
+    if (isCodeInterpreterToggled || isDeepResearchToggled || isImageToolActive || isVideoToolActive) setIsCompareMode(false);
+  }, [isCodeInterpreterToggled, isDeepResearchToggled, isImageToolActive, isVideoToolActive]);
 
   const isGemmaModel = useMemo(() => activeBaseModel ? activeBaseModel.startsWith('gemma') : false, [activeBaseModel]);
   const isTextToImageModel = useMemo(() => activeBaseModel ? [
@@ -654,12 +1012,19 @@ const App: React.FC = () => {
   }, [activeBaseModel]);
     
   useEffect(() => {
+    // `messages` changes with every streamed chunk; the reply's own usage is used once it finishes.
+    if (isLoading) return;
     const calculateTokens = async () => {
-      if (messages.length > 0 && !isTextToImageModel && !isImageEditModel && !isVideoModel) {
-        const modelForCount = activeBaseModel || Model.GEMINI_2_5_FLASH;
+      const lastMessage = messages[messages.length - 1];
+      if (lastMessage?.role === Role.MODEL && lastMessage.usage) {
+        // The next request resends the whole conversation, which is this reply's prompt plus the reply itself.
+        // `usage` is summed over function-calling rounds, so it can't be used when the last round's size was recorded.
+        setTokenCount(lastMessage.contextTokens ?? lastMessage.usage.promptTokens + lastMessage.usage.candidatesTokens);
+      } else if (messages.length > 0 && !isTextToImageModel && !isImageEditModel && !isVideoModel) {
+        const modelForCount = isOpenAICompatibleModel(selectedModel) ? selectedModel : (activeBaseModel || Model.GEMINI_2_5_FLASH);
         try {
-          const count = await countTokens(messages, modelForCount);
-          setTokenCount(count);
+          const count = await activeProvider.countTokens(messages, modelForCount);
+          setTokenCount(count ?? 0);
         } catch (e) {
           console.error("Error counting tokens:", e);
           setTokenCount(0);
@@ -667,7 +1032,7 @@ const App: React.FC = () => {
       } else { setTokenCount(0); }
     };
     calculateTokens();
-  }, [messages, activeBaseModel, isTextToImageModel, isImageEditModel, isVideoModel]);
+  }, [messages, isLoading, activeBaseModel, activeProvider, selectedModel, isTextToImageModel, isImageEditModel, isVideoModel]);
 
   const interpreterResponseSchema = {
       type: Type.OBJECT,
@@ -713,7 +1078,8 @@ const App: React.FC = () => {
             if (chat.id === activeChatId) {
                 const updatedMessages = [...chat.messages];
                 const lastMessage = updatedMessages[updatedMessages.length - 1];
-                if (lastMessage && lastMessage.role === Role.MODEL && isLoading) {
+                // Compare-mode replies keep whatever streamed in before the stop; see handleCompareSend.
+                if (lastMessage && lastMessage.role === Role.MODEL && isLoading && !lastMessage.comparison) {
                     updatedMessages[updatedMessages.length - 1] = {
                         ...lastMessage,
                         content: 'You stopped this response.',
@@ -727,7 +1093,7 @@ const App: React.FC = () => {
     );
   }, [activeChatId, isLoading]);
 
-  const handleSendMessage = useCallback(async (prompt: string, attachments: Attachment[]) => {
+  const handleSendMessage = useCallback(async (prompt: string, attachments: Attachment[], sendOptions: SendMessageOptions = {}) => {
     if ((!prompt.trim() && attachments.length === 0) || isLoading) return;
     if (!activeChatId) return;
     
@@ -743,12 +1109,27 @@ const App: React.FC = () => {
         alert("Image editing models require a file attachment. Please attach an image to edit.");
         return;
     }
+    // A reply's changes are computed against the project as it is now, so they can't be layered on a review that is still open.
+    if (isInterpreterRequest && chatHistory.find(c => c.id === activeChatId)?.projectReview) {
+        alert("Accept or reject the pending code changes before sending another request.");
+        return;
+    }
+    if (useStructuredOutput && structuredOutputSchema && !isDeepResearchToggled && !isInterpreterRequest && !isImageRequest && !isVideoRequest) {
+        const parsedSchema = parseSchemaText(structuredOutputSchema);
+        if ('error' in parsedSchema) {
+            alert(`${parsedSchema.error} Fix it in the structured output settings before sending.`);
+            return;
+        }
+    }
 
     setIsLoading(true);
     abortControllerRef.current = new AbortController();
     const signal = abortControllerRef.current.signal;
 
-    const modelForApi = activeBaseModel || Model.GEMINI_2_5_FLASH;
+    const selectedTunedModel = tunedModels.find(m => m.id === selectedModel);
+    const modelForApi = isOpenAICompatibleModel(selectedModel)
+        ? selectedModel
+        : (selectedTunedModel?.tunedModelName && tuningService.canGenerate ? selectedTunedModel.tunedModelName : (activeBaseModel || Model.GEMINI_2_5_FLASH));
     let systemInstructionForApi = systemInstruction;
     
     let currentChat = chatHistory.find(c => c.id === activeChatId)!;
@@ -787,123 +1168,281 @@ You **MUST** respond with a single JSON object that conforms to this schema:
 }
 \`\`\`
 
+Each entry in \`files\` has a \`path\` and exactly one of these fields:
+- \`"content"\`: the complete content of a new file, or of a file you rewrite entirely.
+- \`"edits"\`: a list of \`{ "search": "...", "replace": "..." }\` blocks. Each \`search\` must be copied exactly from the current file and match only one place in it.
+- \`"diff"\`: a unified diff of the file, with \`@@\` hunk headers and a few lines of unchanged context around each change.
+- \`"delete": true\`: removes the file.
+
 **IMPORTANT RULES:**
 1.  **JSON ONLY:** Your entire response must be a single, valid JSON object. Do not include any text or markdown outside of this JSON.
 2.  **PROJECT NAME:** The \`projectName\` field should be a concise and relevant title for the code you are generating (e.g., "Login Form", "Interactive Chart").
-3.  **ALWAYS GENERATE SELF-CONTAINED HTML:** For any web-based output (including vanilla JS, React, Vue, etc.), you **MUST** generate a single, self-contained \`index.html\` file.
-    - **CSS:** Always use Tailwind CSS via its CDN script included in the \`<head>\`.
-    - **React:** If React is requested, all JSX/React code must be inside a \`<script type="text/babel">\` tag within the \`index.html\`. You must also include CDN script tags in the \`<head>\` for React, ReactDOM, and Babel Standalone. Do **not** create separate \`.tsx\` or \`.jsx\` files.
-    - The HTML file should be complete and ready to be rendered in a browser.
-4.  **COMPLETE FILES:** Always provide the *complete* content for any file you create or modify.
-5.  **EXPLANATION:** The \`explanation\` field should be a clear, user-friendly description of what you did.`;
+3.  **WEB PROJECTS:** The preview renders \`index.html\` from the project files, so web projects can use a normal multi-file layout (e.g. \`index.html\`, \`src/main.tsx\`, \`src/App.tsx\`, \`src/styles.css\`).
+    - **Scripts and styles:** Relative \`<script src>\` and \`<link rel="stylesheet" href>\` references, ES module imports between project files, and \`.ts\`, \`.tsx\` and \`.jsx\` files all work. Load module entry points with \`<script type="module" src="...">\`.
+    - **Packages:** Import npm packages by name (e.g. \`import { createRoot } from 'react-dom/client'\`). They are loaded from esm.sh; list them in the \`dependencies\` of a \`package.json\` to pin their versions. Don't use Node-only APIs or build tools.
+    - **CSS:** Use Tailwind CSS via its CDN script included in the \`<head>\`, or plain CSS files.
+4.  **SMALL EDITS:** When you change only part of an existing file, use \`edits\` or \`diff\` instead of repeating the whole file. Only list files you change.
+5.  **EXPLANATION:** The \`explanation\` field should be a clear, user-friendly description of what you did.
+
+**CURRENT PROJECT FILES:**
+${formatProjectFiles(currentChat.project.files)}`;
     }
 
-    const currentMessages = currentChat.messages || [];
+    // Only the branch being extended is sent; sibling branches stay out of the model's context.
+    const { userMessage: existingUserMessage, replaceMessageId } = sendOptions;
+    const parentId = existingUserMessage
+        ? existingUserMessage.parentId ?? null
+        : sendOptions.parentId !== undefined ? sendOptions.parentId : (getActivePath(currentChat).pop()?.id ?? null);
+    const currentMessages = getPathTo(currentChat.messages, parentId);
     const newMessagesForApi: ChatMessage[] = [...currentMessages, apiUserMessage];
     
     const isThinkingActive = isThinkingModel && (isProModel || useThinking);
-    const uiUserMessage: ChatMessage = { id: `msg-user-${Date.now()}`, role: Role.USER, content: prompt, attachments };
+    const uiUserMessage: ChatMessage = existingUserMessage ?? { id: `msg-user-${Date.now()}`, parentId, role: Role.USER, content: prompt, attachments };
+
+    // The request is assembled up front so the reply can record exactly what it was generated with.
+    const imageConfig = { numberOfImages, negativePrompt, seed, aspectRatio, personGeneration };
+    const tools = [];
+    if (isDeepResearchToggled) {
+        tools.push({ googleSearch: {} });
+    } else if (!isGemmaModel) {
+        if (useCodeExecution && !isInterpreterRequest) tools.push({ codeExecution: {} });
+        if (useFunctionCalling && functionDeclarations) try { tools.push({ functionDeclarations: JSON.parse(functionDeclarations) }); } catch (e) { console.error("Invalid function declarations JSON:", e); }
+    }
+
+    const config: any = { temperature, topP, maxOutputTokens, stopSequences: stopSequence ? [stopSequence] : undefined };
+    if (isThinkingModel) {
+        const thinkingModeActive = isProModel || useThinking;
+        if (thinkingModeActive) { if (useThinkingBudget) config.thinkingConfig = { thinkingBudget }; } 
+        else { config.thinkingConfig = { thinkingBudget: 0 }; }
+    }
+    
+    if (isInterpreterRequest) {
+        config.responseMimeType = "application/json";
+        config.responseSchema = interpreterResponseSchema;
+    } else {
+        if (tools.length > 0) config.tools = tools;
+        if (useStructuredOutput && structuredOutputSchema && !isDeepResearchToggled) try { config.responseMimeType = "application/json"; config.responseSchema = JSON.parse(structuredOutputSchema); } catch (e) { console.error("Invalid structured output schema JSON:", e); }
+    }
+
+    let finalSystemInstruction = systemInstructionForApi;
+    if (isThinkingActive && !isInterpreterRequest && !isImageEditModel && !isTextToImageModel && !isVideoModel) {
+        finalSystemInstruction = `${systemInstructionForApi}\n\nWhen providing an answer, first output your reasoning steps inside <thinking> tags...`.trim();
+    }
+
+    const generation: GenerationDetails = {
+        model: modelForApi,
+        provider: activeProvider.id,
+        config: isImageRequest && isTextToImageModel ? imageConfig : isVideoRequest ? {} : JSON.parse(JSON.stringify(config)),
+        systemInstruction: isImageRequest || isVideoRequest ? undefined : finalSystemInstruction || undefined,
+        createdAt: Date.now(),
+    };
 
     let placeholderContent = '';
     if (isVideoRequest) {
       placeholderContent = '🎬 **Generating your video...**\n\nThis process can take several minutes. Please wait while the model creates your content.';
     }
 
-    const placeholderModelMessage: ChatMessage = { id: `msg-model-${Date.now()}`, role: Role.MODEL, content: placeholderContent, reasoning: '', isThinking: isThinkingActive || isImageRequest || isVideoRequest, projectFilesUpdate: isInterpreterRequest };
+    const placeholderModelMessage: ChatMessage = { id: `msg-model-${Date.now()}`, parentId: uiUserMessage.id, role: Role.MODEL, content: placeholderContent, reasoning: '', isThinking: isThinkingActive || isImageRequest || isVideoRequest, projectFilesUpdate: isInterpreterRequest, generation };
 
-    const isFirstUserMessage = currentMessages.length === 0;
+    const isFirstUserMessage = currentChat.messages.length === 0;
     const newTitle = isFirstUserMessage ? prompt.substring(0, 40) + (prompt.length > 40 ? '...' : '') : currentChat.title;
-    setChatHistory(prev => prev.map(chat => chat.id === activeChatId ? { ...chat, title: newTitle, messages: [...chat.messages, uiUserMessage, placeholderModelMessage] } : chat));
+    // The placeholder must stay last in `messages`: the streaming updaters below target the last message.
+    const branchUpdater = (chat: ChatSession): ChatSession => {
+        const keptMessages = chat.messages.filter(msg => msg.id !== replaceMessageId);
+        const newMessages = existingUserMessage ? [placeholderModelMessage] : [uiUserMessage, placeholderModelMessage];
+        const updatedChat = { ...chat, title: newTitle, messages: [...keptMessages, ...newMessages] };
+        return selectChild(selectChild(updatedChat, parentId, uiUserMessage.id), uiUserMessage.id, placeholderModelMessage.id);
+    };
+    setChatHistory(prev => prev.map(chat => chat.id === activeChatId ? branchUpdater(chat) : chat));
 
     let fullResponseText = '';
     let groundingChunks: any[] = [];
-    let finalParts: any[] = [];
-    let fullResponse: GenerateContentResponse | null = null;
+    let finalParts: ResponsePart[] = [];
+    let fullResponse: ResponseChunk | null = null;
+    let didFail = false;
+    const toolTurns: ToolTurn[] = [];
+    // Ordered text, code execution and image parts of the current round.
+    let messageParts: MessagePart[] = [];
+    const partAttachments: Attachment[] = [];
+    let usage: TokenUsage | undefined;
+    let lastRoundUsage: TokenUsage | undefined;
+
+    const addPartImage = (mimeType: string, data: string): string => {
+        const attachment: Attachment = { id: createAttachmentId(), name: `generated-image-${Date.now()}-${partAttachments.length + 1}`, mimeType, dataUrl: `data:${mimeType};base64,${data}` };
+        partAttachments.push(attachment);
+        return attachment.id;
+    };
+
+    const syncToolTurns = () => {
+        const snapshot = toolTurns.map(turn => ({ ...turn, calls: turn.calls.map(call => ({ ...call })) }));
+        setChatHistory(prev => prev.map(c => c.id === activeChatId
+            ? { ...c, messages: c.messages.map(m => m.id === placeholderModelMessage.id ? { ...m, content: fullResponseText, parts: undefined, toolTurns: snapshot, attachments: partAttachments.length > 0 ? [...partAttachments] : m.attachments } : m) }
+            : c));
+    };
+
+    const waitForToolResponse = (callId: string) => new Promise<unknown>((resolve, reject) => {
+        const onAbort = () => {
+            toolResponseResolversRef.current.delete(callId);
+            reject(new DOMException('Aborted by user', 'AbortError'));
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        toolResponseResolversRef.current.set(callId, response => {
+            signal.removeEventListener('abort', onAbort);
+            toolResponseResolversRef.current.delete(callId);
+            resolve(response);
+        });
+    });
 
+    const resolveToolCall = async (call: ToolCall) => {
+        const handlerCode = toolHandlers[call.name]?.trim();
+        try {
+            const result = handlerCode ? await runToolHandler(handlerCode, call.args, signal) : await waitForToolResponse(call.id);
+            call.response = toFunctionResponse(result);
+            call.status = ToolCallStatus.COMPLETED;
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') throw error;
+            // The failure is reported to the model so it can recover or explain.
+            call.error = error instanceof Error ? error.message : String(error);
+            call.response = { error: call.error };
+            call.status = ToolCallStatus.FAILED;
+        }
+        syncToolTurns();
+    };
 
     try {
         if (isImageRequest && isTextToImageModel) {
-            const imageConfig = { numberOfImages, negativePrompt, seed, aspectRatio, personGeneration };
             fullResponse = await generateImage(prompt, modelForApi as any, imageConfig, signal);
         } else if (isVideoRequest) {
             fullResponse = await generateVideo(prompt, attachments, modelForApi as any, signal);
         } else {
-            const tools = [];
-            if (isDeepResearchToggled) {
-                tools.push({ googleSearch: {} });
-            } else if (!isGemmaModel) {
-                if (useCodeExecution && !isInterpreterRequest) tools.push({ codeExecution: {} });
-                if (useFunctionCalling && functionDeclarations) try { tools.push({ functionDeclarations: JSON.parse(functionDeclarations) }); } catch (e) { console.error("Invalid function declarations JSON:", e); }
-            }
-
-            const config: any = { temperature, topP, maxOutputTokens, stopSequences: stopSequence ? [stopSequence] : undefined };
-            if (isThinkingModel) {
-                const thinkingModeActive = isProModel || useThinking;
-                if (thinkingModeActive) { if (useThinkingBudget) config.thinkingConfig = { thinkingBudget }; } 
-                else { config.thinkingConfig = { thinkingBudget: 0 }; }
-            }
-            
-            if (isInterpreterRequest) {
-                config.responseMimeType = "application/json";
-                config.responseSchema = interpreterResponseSchema;
-            } else {
-                if (tools.length > 0) config.tools = tools;
-                if (useStructuredOutput && structuredOutputSchema && !isDeepResearchToggled) try { config.responseMimeType = "application/json"; config.responseSchema = JSON.parse(structuredOutputSchema); } catch (e) { console.error("Invalid structured output schema JSON:", e); }
+            let contextMessages = newMessagesForApi;
+            let contextSummaryText: string | undefined;
+            if (contextStrategy !== ContextStrategy.FULL) {
+                const contextStart = findContextStart(newMessagesForApi, contextTurns);
+                const dropped = newMessagesForApi.slice(0, contextStart);
+                contextMessages = compactOldAttachments(newMessagesForApi.slice(contextStart));
+                if (contextStrategy === ContextStrategy.SUMMARIZE && dropped.length > 0) {
+                    const { previousSummary, pending } = getPendingSummaryMessages(dropped, currentChat.contextSummary);
+                    contextSummaryText = previousSummary;
+                    if (pending.length > 0) {
+                        try {
+                            const text = await summarizeTurns(activeProvider, modelForApi, pending, previousSummary, signal);
+                            const contextSummary = { text, throughMessageId: dropped[dropped.length - 1].id, createdAt: Date.now() };
+                            contextSummaryText = text;
+                            setChatHistory(prev => prev.map(c => c.id === activeChatId ? { ...c, contextSummary } : c));
+                        } catch (error) {
+                            if (error instanceof Error && error.name === 'AbortError') throw error;
+                            // The reply is still worth having without the older turns, so this isn't fatal.
+                            console.error("Failed to summarize older turns:", error);
+                        }
+                    }
+                }
             }
-
-            let finalSystemInstruction = systemInstructionForApi;
-            if (isThinkingActive && !isInterpreterRequest && !isImageEditModel && !isTextToImageModel && !isVideoModel) {
-                finalSystemInstruction = `${systemInstructionForApi}\n\nWhen providing an answer, first output your reasoning steps inside <thinking> tags...`.trim();
+            const uploadedAttachments = await activeProvider.prepareAttachments?.(contextMessages, signal) ?? [];
+            if (uploadedAttachments.length > 0) {
+                // The file URIs are cached on the chat's attachments so later turns reference the upload.
+                const uploadsById = new Map(uploadedAttachments.map(attachment => [attachment.id, attachment]));
+                const withUploads = (msg: ChatMessage): ChatMessage => msg.attachments?.some(attachment => uploadsById.has(attachment.id))
+                    ? { ...msg, attachments: msg.attachments.map(attachment => uploadsById.get(attachment.id) ?? attachment) }
+                    : msg;
+                contextMessages = contextMessages.map(withUploads);
+                setChatHistory(prev => prev.map(c => c.id === activeChatId ? { ...c, messages: c.messages.map(withUploads) } : c));
             }
-
-            const options = { systemInstruction: finalSystemInstruction, config };
-            
-            await generateChatResponse(newMessagesForApi, modelForApi as Model, options, (chunk: GenerateContentResponse) => {
-                fullResponse = chunk; // In non-streaming, this is the only chunk.
-                if (chunk.candidates?.[0]?.content?.parts) {
-                    finalParts = chunk.candidates[0].content.parts;
-                }
-
-                let chunkText = chunk.text;
-                fullResponseText += chunkText;
+            const options = {
+                systemInstruction: contextSummaryText
+                    ? `${finalSystemInstruction}\n\nSummary of the earlier part of this conversation, which is no longer included in full:\n${contextSummaryText}`.trim()
+                    : finalSystemInstruction,
+                config,
+            };
+
+            // A round that ends in function calls is answered and sent back until the model replies without calling.
+            while (true) {
+                const functionCalls: ToolCall[] = [];
+                // Each chunk reports the round's usage so far, so only the last one is kept.
+                let roundUsage: TokenUsage | undefined;
+                const messagesForRound: ChatMessage[] = toolTurns.length > 0
+                    ? [...contextMessages, { id: placeholderModelMessage.id, role: Role.MODEL, content: '', toolTurns }]
+                    : contextMessages;
+
+                await activeProvider.generateChatResponse(messagesForRound, modelForApi, options, (chunk: ResponseChunk) => {
+                    fullResponse = chunk; // In non-streaming, this is the only chunk.
+                    if (chunk.parts.length > 0) {
+                        finalParts = chunk.parts;
+                    }
+                    if (chunk.usage) roundUsage = chunk.usage;
+
+                    fullResponseText += chunk.text;
+                    if (!isImageRequest && !isInterpreterRequest) messageParts = appendResponseParts(messageParts, chunk.parts, addPartImage);
+                    chunk.parts.forEach(part => {
+                        if (!('functionCall' in part)) return;
+                        const { id, name, args } = part.functionCall;
+                        functionCalls.push({ id: id || `call_${Date.now()}_${toolTurns.length}_${functionCalls.length}`, name, args, status: toolHandlers[name]?.trim() ? ToolCallStatus.RUNNING : ToolCallStatus.PENDING });
+                    });
                 
-                const newChunks = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
-                if (newChunks) {
-                    groundingChunks.push(...newChunks);
-                }
+                    const newChunks = chunk.groundingChunks;
+                    if (newChunks) {
+                        groundingChunks.push(...newChunks);
+                    }
                 
-                if (!isInterpreterRequest && !isImageEditModel && !isTextToImageModel && !isVideoModel) {
-                    const updater = (prevSession: ChatSession): ChatSession => {
-                        let lastMessage = prevSession.messages[prevSession.messages.length - 1];
-                        if (!lastMessage || lastMessage.role !== Role.MODEL) return prevSession;
-                        let updatedMessage = { ...lastMessage, content: fullResponseText };
-                        return { ...prevSession, messages: [...prevSession.messages.slice(0, -1), updatedMessage] };
-                    };
-                    setChatHistory(prev => prev.map(chat => chat.id === activeChatId ? updater(chat) : chat));
+                    if (!isInterpreterRequest && !isImageEditModel && !isTextToImageModel && !isVideoModel) {
+                        const updater = (prevSession: ChatSession): ChatSession => {
+                            let lastMessage = prevSession.messages[prevSession.messages.length - 1];
+                            if (!lastMessage || lastMessage.role !== Role.MODEL) return prevSession;
+                            let updatedMessage = { ...lastMessage, content: fullResponseText };
+                            if (hasRichParts(messageParts)) {
+                                updatedMessage.parts = messageParts;
+                                updatedMessage.attachments = [...partAttachments];
+                            }
+                            return { ...prevSession, messages: [...prevSession.messages.slice(0, -1), updatedMessage] };
+                        };
+                        setChatHistory(prev => prev.map(chat => chat.id === activeChatId ? updater(chat) : chat));
+                    }
+                }, signal);
+
+                if (roundUsage) {
+                    usage = usage ? addUsage(usage, roundUsage) : roundUsage;
+                    lastRoundUsage = roundUsage;
                 }
-            }, signal);
+                if (functionCalls.length === 0) break;
+                if (toolTurns.length >= MAX_TOOL_ROUNDS) {
+                    throw new Error(`The model was still calling functions after ${MAX_TOOL_ROUNDS} rounds, so the exchange was stopped.`);
+                }
+                toolTurns.push({ text: fullResponseText, calls: functionCalls, parts: hasRichParts(messageParts) ? messageParts : undefined });
+                fullResponseText = '';
+                messageParts = [];
+                syncToolTurns();
+                await Promise.all(functionCalls.map(resolveToolCall));
+            }
         }
     } catch (error) {
         if (error instanceof Error && error.name === 'AbortError') {
             console.log("Message generation was stopped by the user.");
+            const unanswered = toolTurns.flatMap(turn => turn.calls).filter(call => call.status === ToolCallStatus.PENDING || call.status === ToolCallStatus.RUNNING);
+            if (unanswered.length > 0) {
+                unanswered.forEach(call => { call.status = ToolCallStatus.FAILED; call.error = "Stopped before a response was sent."; });
+                syncToolTurns();
+            }
             return;
         }
         console.error("Error generating response:", error);
+        didFail = true;
+        const messageError = toApiError(error).toMessageError();
         const errorUpdater = (prev: ChatSession): ChatSession => {
             const lastMessage = prev.messages[prev.messages.length - 1];
-            if (lastMessage?.role === Role.MODEL) return { ...prev, messages: [...prev.messages.slice(0, -1), { ...lastMessage, content: 'Sorry, I encountered an error. Please try again.', isThinking: false }] };
+            // Keep any text that streamed in before the failure, but drop the video placeholder.
+            if (lastMessage?.role === Role.MODEL) return { ...prev, messages: [...prev.messages.slice(0, -1), { ...lastMessage, content: isVideoRequest ? '' : lastMessage.content, error: messageError, isThinking: false }] };
             return prev;
         }
         setChatHistory(prev => prev.map(c => c.id === activeChatId ? errorUpdater(c) : c));
 
     } finally {
         setIsLoading(false);
-        if (signal.aborted) {
+        if (signal.aborted || didFail) {
             return; 
         }
 
         if (fullResponse) {
-            finalParts = fullResponse.candidates?.[0]?.content?.parts || finalParts;
+            finalParts = fullResponse.parts.length > 0 ? fullResponse.parts : finalParts;
             if (isImageRequest || isVideoRequest) {
                 fullResponseText = fullResponse.text || fullResponseText;
             }
@@ -914,6 +1453,7 @@ You **MUST** respond with a single JSON object that conforms to this schema:
             if (lastMsg?.role === Role.MODEL) {
               
               let updatedMsg = { ...lastMsg };
+              let projectUpdate: Pick<ChatSession, 'project' | 'projectReview'> | undefined;
 
               if (isImageRequest || isVideoRequest) {
                 let finalContent = '';
@@ -921,11 +1461,12 @@ You **MUST** respond with a single JSON object that conforms to this schema:
 
                 if (finalParts && finalParts.length > 0) {
                     finalParts.forEach(part => {
-                        if (part.text) {
+                        if ('text' in part) {
                             finalContent += part.text;
-                        } else if (part.inlineData) {
+                        } else if ('inlineData' in part) {
                             const isVideo = part.inlineData.mimeType.startsWith('video/');
                             const attachment: Attachment = {
+                                id: createAttachmentId(),
                                 name: `generated-${isVideo ? 'video' : 'image'}-${Date.now()}`,
                                 mimeType: part.inlineData.mimeType,
                                 dataUrl: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`,
@@ -953,28 +1494,20 @@ You **MUST** respond with a single JSON object that conforms to this schema:
 
                       const parsedResponse = JSON.parse(cleanedJsonString);
                       
-                      if (parsedResponse.files && parsedResponse.explanation && parsedResponse.projectName) {
-                          const projectForUpdate = JSON.parse(JSON.stringify(prev.project));
-                          projectForUpdate.name = parsedResponse.projectName;
-                          let lastUpdatedFile = 'index.html';
-                          
-                          parsedResponse.files.forEach((file: { path: string, content: string }) => {
-                              if (findAndUpdateFile(projectForUpdate.files, file.path, file.content)) lastUpdatedFile = file.path;
-                          });
-                          
-                          setActiveInterpreterFile(lastUpdatedFile);
-                          setPendingProjectUpdate(projectForUpdate);
-                          setStreamingTarget({
-                            filePath: lastUpdatedFile,
-                            code: parsedResponse.files.find((f: any) => f.path === lastUpdatedFile)?.content || ''
-                          });
-
-                          updatedMsg.content = parsedResponse.explanation;
-                          updatedMsg.project = projectForUpdate;
-                          
+                      if (Array.isArray(parsedResponse.files) && parsedResponse.explanation && parsedResponse.projectName) {
+                          // Nothing reaches the project until the changes are accepted in the panel.
+                          const { changes, errors } = collectFileChanges(prev.project.files, parsedResponse.files);
+                          updatedMsg.content = errors.length > 0
+                              ? `${parsedResponse.explanation}\n\nSome of the changes couldn't be applied:\n${errors.map(error => `- ${error}`).join('\n')}`
+                              : parsedResponse.explanation;
+
                           setIsCodePanelVisible(true);
                           openRightPanel('none');
                           if (!isMobile) setIsNavSidebarOpen(false);
+                          projectUpdate = {
+                              project: { ...prev.project, name: parsedResponse.projectName },
+                              projectReview: changes.length > 0 ? { messageId: updatedMsg.id, changes } : undefined,
+                          };
 
                       } else {
                           updatedMsg.content = "The AI response was not in the expected format. Here is the raw response:\n\n" + fullResponseText;
@@ -992,6 +1525,13 @@ You **MUST** respond with a single JSON object that conforms to this schema:
                   } else {
                     updatedMsg.content = fullResponseText;
                   }
+                  if (hasRichParts(messageParts)) {
+                    updatedMsg.parts = messageParts
+                        .map(part => part.type === 'text' ? { ...part, text: part.text.replace(thinkingRegex, '') } : part)
+                        .filter(part => part.type !== 'text' || part.text.trim());
+                  }
+                  // Images from earlier function-calling rounds are referenced by their tool turns.
+                  if (partAttachments.length > 0) updatedMsg.attachments = [...partAttachments];
               }
               
               if (groundingChunks.length > 0) {
@@ -1000,31 +1540,221 @@ You **MUST** respond with a single JSON object that conforms to this schema:
                   updatedMsg.groundingChunks = uniqueChunks;
               }
 
+              if (usage) updatedMsg.usage = usage;
+              if (lastRoundUsage) updatedMsg.contextTokens = lastRoundUsage.promptTokens + lastRoundUsage.candidatesTokens;
               updatedMsg.isThinking = false;
-              return { ...prev, messages: [...prev.messages.slice(0, -1), updatedMsg] };
+              return { ...prev, ...projectUpdate, messages: [...prev.messages.slice(0, -1), updatedMsg] };
             }
             return prev;
         }
         setChatHistory(prev => prev.map(c => c.id === activeChatId ? finalUpdater(c) : c));
     }
-  }, [isLoading, activeChatId, chatHistory, activeBaseModel, systemInstruction, selectedModel, tunedModels, isDeepResearchToggled, useUrlContext, urlContext, temperature, topP, maxOutputTokens, stopSequence, isThinkingModel, isProModel, useThinking, useThinkingBudget, thinkingBudget, useStructuredOutput, structuredOutputSchema, useCodeExecution, useFunctionCalling, functionDeclarations, isMobile, isCodeInterpreterToggled, isImageToolActive, isVideoToolActive, isTextToImageModel, isImageEditModel, isVideoModel, numberOfImages, negativePrompt, seed, aspectRatio, personGeneration, isGemmaModel]);
-
-  const handleStreamComplete = useCallback(() => {
-    if (pendingProjectUpdate) {
-        setChatHistory(prev => prev.map(chat => 
-            chat.id === activeChatId 
-                ? { ...chat, project: pendingProjectUpdate } 
-                : chat
-        ));
-        setPendingProjectUpdate(null);
+  }, [isLoading, activeChatId, chatHistory, activeBaseModel, activeProvider, systemInstruction, selectedModel, tunedModels, isDeepResearchToggled, useUrlContext, urlContext, temperature, topP, maxOutputTokens, stopSequence, isThinkingModel, isProModel, useThinking, useThinkingBudget, thinkingBudget, useStructuredOutput, structuredOutputSchema, useCodeExecution, useFunctionCalling, functionDeclarations, isMobile, isCodeInterpreterToggled, isImageToolActive, isVideoToolActive, isTextToImageModel, isImageEditModel, isVideoModel, numberOfImages, negativePrompt, seed, aspectRatio, personGeneration, isGemmaModel, toolHandlers, contextStrategy, contextTurns]);
+
+  // Sends one prompt to every compare model at once. The replies become sibling branches of the same user message,
+  // so continuing with one is just selecting its branch.
+  const handleCompareSend = useCallback(async (prompt: string, attachments: Attachment[]) => {
+    if ((!prompt.trim() && attachments.length === 0) || isLoading) return;
+    if (!activeChatId) return;
+    if (compareModels.length < MIN_COMPARE_MODELS) {
+        alert(`Choose at least ${MIN_COMPARE_MODELS} models to compare.`);
+        return;
+    }
+
+    setIsLoading(true);
+    abortControllerRef.current = new AbortController();
+    const signal = abortControllerRef.current.signal;
+
+    const currentChat = chatHistory.find(c => c.id === activeChatId)!;
+    const parentId = getActivePath(currentChat).pop()?.id ?? null;
+    const userMessage: ChatMessage = { id: `msg-user-${Date.now()}`, parentId, role: Role.USER, content: prompt, attachments };
+    let contextMessages = [...getPathTo(currentChat.messages, parentId), userMessage];
+    let contextSummaryText: string | undefined;
+    if (contextStrategy !== ContextStrategy.FULL) {
+        const contextStart = findContextStart(contextMessages, contextTurns);
+        // A cached summary is reused, but a new one isn't built for a comparison.
+        if (contextStrategy === ContextStrategy.SUMMARIZE && contextStart > 0) {
+            const { previousSummary, pending } = getPendingSummaryMessages(contextMessages.slice(0, contextStart), currentChat.contextSummary);
+            if (pending.length === 0) contextSummaryText = previousSummary;
+        }
+        contextMessages = compactOldAttachments(contextMessages.slice(contextStart));
     }
-    setStreamingTarget(null);
-  }, [pendingProjectUpdate, activeChatId]);
+    const config = { temperature, topP, maxOutputTokens, stopSequences: stopSequence ? [stopSequence] : undefined };
+
+    const columns = compareModels.map((model, index) => {
+        const tunedModel = tunedModels.find(m => m.id === model);
+        const modelForApi = tunedModel ? (tunedModel.tunedModelName && tuningService.canGenerate ? tunedModel.tunedModelName : tunedModel.baseModel) : model;
+        const columnInstruction = tunedModel ? tunedModel.systemInstruction : systemInstruction;
+        const provider = getProviderForModel(model, openAICompatibleConfig);
+        const generation: GenerationDetails = { model: modelForApi, provider: provider.id, config: JSON.parse(JSON.stringify(config)), systemInstruction: columnInstruction || undefined, createdAt: Date.now() };
+        const reply: ChatMessage = { id: `msg-model-${Date.now()}-${index}`, parentId: userMessage.id, role: Role.MODEL, content: '', isThinking: true, generation, comparison: { model } };
+        return { modelForApi, provider, reply, systemInstruction: columnInstruction };
+    });
+
+    const isFirstUserMessage = currentChat.messages.length === 0;
+    const newTitle = isFirstUserMessage ? prompt.substring(0, 40) + (prompt.length > 40 ? '...' : '') : currentChat.title;
+    setChatHistory(prev => prev.map(chat => chat.id === activeChatId
+        ? selectChild({ ...chat, title: newTitle, messages: [...chat.messages, userMessage, ...columns.map(column => column.reply)] }, parentId, userMessage.id)
+        : chat));
+
+    const updateReply = (replyId: string, update: (msg: ChatMessage) => ChatMessage) => {
+        setChatHistory(prev => prev.map(chat => chat.id === activeChatId
+            ? { ...chat, messages: chat.messages.map(msg => msg.id === replyId ? update(msg) : msg) }
+            : chat));
+    };
+
+    try {
+        // Large files are uploaded once and shared by every Gemini column.
+        const uploader = columns.find(column => column.provider.prepareAttachments)?.provider;
+        const uploadedAttachments = await uploader?.prepareAttachments?.(contextMessages, signal) ?? [];
+        if (uploadedAttachments.length > 0) {
+            const uploadsById = new Map(uploadedAttachments.map(attachment => [attachment.id, attachment]));
+            const withUploads = (msg: ChatMessage): ChatMessage => msg.attachments?.some(attachment => uploadsById.has(attachment.id))
+                ? { ...msg, attachments: msg.attachments.map(attachment => uploadsById.get(attachment.id) ?? attachment) }
+                : msg;
+            contextMessages = contextMessages.map(withUploads);
+            setChatHistory(prev => prev.map(c => c.id === activeChatId ? { ...c, messages: c.messages.map(withUploads) } : c));
+        }
+    } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+            // Stopped before any column started, so each one is finalized the way a stopped stream is.
+            columns.forEach(({ reply }) => updateReply(reply.id, msg => ({ ...msg, content: 'You stopped this response.', isThinking: false })));
+        } else {
+            console.error("Error uploading attachments for comparison:", error);
+            const messageError = toApiError(error).toMessageError();
+            columns.forEach(({ reply }) => updateReply(reply.id, msg => ({ ...msg, error: messageError, isThinking: false })));
+        }
+        setIsLoading(false);
+        return;
+    }
+
+    const startedAt = performance.now();
+    await Promise.all(columns.map(async ({ modelForApi, provider, reply, systemInstruction: columnInstruction }) => {
+        let text = '';
+        let usage: TokenUsage | undefined;
+        let firstTokenMs: number | undefined;
+        const options = {
+            systemInstruction: contextSummaryText
+                ? `${columnInstruction}\n\nSummary of the earlier part of this conversation, which is no longer included in full:\n${contextSummaryText}`.trim()
+                : columnInstruction,
+            config,
+        };
+        try {
+            await provider.generateChatResponse(contextMessages, modelForApi, options, (chunk: ResponseChunk) => {
+                if (chunk.usage) usage = chunk.usage;
+                if (!chunk.text) return;
+                if (firstTokenMs === undefined) firstTokenMs = Math.round(performance.now() - startedAt);
+                text += chunk.text;
+                updateReply(reply.id, msg => ({ ...msg, content: text, isThinking: false }));
+            }, signal);
+            const latencyMs = Math.round(performance.now() - startedAt);
+            updateReply(reply.id, msg => ({ ...msg, content: text, usage, isThinking: false, comparison: { ...msg.comparison!, firstTokenMs, latencyMs } }));
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') {
+                updateReply(reply.id, msg => ({ ...msg, content: text || 'You stopped this response.', isThinking: false }));
+                return;
+            }
+            console.error(`Error generating comparison response from ${modelForApi}:`, error);
+            updateReply(reply.id, msg => ({ ...msg, content: text, error: toApiError(error).toMessageError(), isThinking: false }));
+        }
+    }));
+    setIsLoading(false);
+  }, [isLoading, activeChatId, chatHistory, compareModels, tunedModels, systemInstruction, openAICompatibleConfig, temperature, topP, maxOutputTokens, stopSequence, contextStrategy, contextTurns]);
+
+  const handlePreferReply = useCallback((messageId: string) => {
+    if (!activeChat) return;
+    const message = activeChat.messages.find(msg => msg.id === messageId);
+    if (!message?.comparison) return;
+    const siblingIds = new Set(getSiblings(activeChat.messages, message).map(msg => msg.id));
+    const isPreferred = !message.comparison.isPreferred;
+    setChatHistory(prev => prev.map(chat => chat.id === activeChat.id
+        ? { ...chat, messages: chat.messages.map(msg => siblingIds.has(msg.id) && msg.comparison
+            ? { ...msg, comparison: { ...msg.comparison, isPreferred: msg.id === messageId && isPreferred } }
+            : msg) }
+        : chat));
+  }, [activeChat]);
+
+  const handleContinueWithReply = useCallback((messageId: string) => {
+    if (!activeChat) return;
+    const message = activeChat.messages.find(msg => msg.id === messageId);
+    if (!message) return;
+    setChatHistory(prev => prev.map(chat => chat.id === activeChat.id ? selectChild(chat, message.parentId, message.id) : chat));
+    setIsCompareMode(false);
+  }, [activeChat]);
+
+  const handleSubmitToolResponse = useCallback((callId: string, response: unknown) => {
+    toolResponseResolversRef.current.get(callId)?.(response);
+  }, []);
+
+  const findUserMessageFor = useCallback((modelMessageId: string): ChatMessage | undefined => {
+    const modelMessage = activeChat?.messages.find(msg => msg.id === modelMessageId);
+    const userMessage = activeChat?.messages.find(msg => msg.id === modelMessage?.parentId);
+    return userMessage?.role === Role.USER ? userMessage : undefined;
+  }, [activeChat]);
+
+  const handleRetryMessage = useCallback((messageId: string) => {
+    const userMessage = findUserMessageFor(messageId);
+    if (!userMessage) return;
+    // A failed reply is replaced rather than kept as a sibling branch.
+    handleSendMessage(userMessage.content, userMessage.attachments || [], { userMessage, replaceMessageId: messageId });
+  }, [findUserMessageFor, handleSendMessage]);
+
+  const handleRegenerateMessage = useCallback((messageId: string) => {
+    const userMessage = findUserMessageFor(messageId);
+    if (!userMessage) return;
+    handleSendMessage(userMessage.content, userMessage.attachments || [], { userMessage });
+  }, [findUserMessageFor, handleSendMessage]);
+
+  const handleEditMessage = useCallback((messageId: string, newContent: string) => {
+    const original = activeChat?.messages.find(msg => msg.id === messageId);
+    if (!original) return;
+    handleSendMessage(newContent, original.attachments || [], { parentId: original.parentId ?? null });
+  }, [activeChat, handleSendMessage]);
+
+  const handleSwitchBranch = useCallback((messageId: string, direction: -1 | 1) => {
+    if (!activeChat) return;
+    const message = activeChat.messages.find(msg => msg.id === messageId);
+    if (!message) return;
+    const siblings = getSiblings(activeChat.messages, message);
+    const target = siblings[siblings.findIndex(msg => msg.id === messageId) + direction];
+    if (!target) return;
+    setChatHistory(prev => prev.map(chat => chat.id === activeChat.id ? selectChild(chat, message.parentId, target.id) : chat));
+  }, [activeChat]);
+
+  // Writes the outcome of a review decision. When nothing is left to review, the reply that proposed the changes
+  // gets a snapshot of the project so it can be reopened later.
+  const applyReviewResult = useCallback((result: ReviewResult) => {
+    if (!activeChat?.project || !activeChat.projectReview) return;
+    if (result.errors.length > 0) alert(`Some changes couldn't be applied:\n${result.errors.join('\n')}`);
+    const { messageId, changes } = activeChat.projectReview;
+    const project = { ...activeChat.project, files: result.files };
+    const isDone = result.changes.length === 0;
+    setChatHistory(prev => prev.map(chat => chat.id === activeChat.id ? {
+        ...chat,
+        project,
+        projectReview: isDone ? undefined : { messageId, changes: result.changes },
+        messages: isDone ? chat.messages.map(msg => msg.id === messageId ? { ...msg, project } : msg) : chat.messages,
+    } : chat));
+    // Open a file that was just written, now that it's in the project.
+    const writtenFiles = flattenFiles(result.files);
+    const openPath = changes.find(change => !change.isDeleted && writtenFiles[change.path] !== undefined && !result.changes.some(c => c.path === change.path))?.path;
+    if (openPath) setActiveInterpreterFile(openPath);
+  }, [activeChat]);
+
+  const handleReviewHunk = useCallback((path: string, hunk: LineChange, accept: boolean) => {
+    if (!activeChat?.project || !activeChat.projectReview) return;
+    applyReviewResult(reviewHunk(activeChat.project.files, activeChat.projectReview.changes, path, hunk, accept));
+  }, [activeChat, applyReviewResult]);
+
+  const handleResolveChanges = useCallback((paths: string[], accept: boolean) => {
+    if (!activeChat?.project || !activeChat.projectReview) return;
+    applyReviewResult(resolveChanges(activeChat.project.files, activeChat.projectReview.changes, paths, accept));
+  }, [activeChat, applyReviewResult]);
 
   const handleOpenProjectVersion = useCallback((project: Project) => {
     setChatHistory(prev => prev.map(chat =>
         chat.id === activeChatId
-            ? { ...chat, project: project }
+            ? { ...chat, project: project, projectReview: undefined }
             : chat
     ));
     setIsCodePanelVisible(true);
@@ -1044,6 +1774,18 @@ You **MUST** respond with a single JSON object that conforms to this schema:
     if(isMobile) setIsNavSidebarOpen(false);
   }, [activeChatId, chatHistory, isMobile]);
   
+  const handleOpenSearchResult = useCallback((result: SearchResult) => {
+    handleSelectChat(result.chatId);
+    if (result.messageId) {
+        // The match may sit on a branch that isn't shown; switch to it before scrolling.
+        setChatHistory(prev => prev.map(chat => chat.id === result.chatId ? selectPathTo(chat, result.messageId!) : chat));
+        setScrollTargetMessageId(result.messageId);
+    } else if (result.filePath) {
+        setActiveInterpreterFile(result.filePath);
+        setIsCodePanelVisible(true);
+    }
+  }, [handleSelectChat]);
+
   const handleDeleteChat = useCallback((idToDelete: string) => setChatToDelete(idToDelete), []);
   
   const confirmDeleteChat = useCallback(() => {
@@ -1063,35 +1805,93 @@ You **MUST** respond with a single JSON object that conforms to this schema:
       setChatHistory(prev => prev.map(chat => chat.id === id ? { ...chat, title: newTitle.trim() || 'Untitled Chat' } : chat));
   }, []);
 
+  // `messageIndex` is a position in the active path, which is what the files sidebar lists.
   const handleDeleteAttachment = useCallback((messageIndex: number, attachmentIndex: number) => {
+    const targetId = messages[messageIndex]?.id;
     setChatHistory(prev => prev.map(chat => {
         if (chat.id === activeChatId) {
-            const updatedMessages = [...chat.messages];
-            const targetMessage = updatedMessages[messageIndex];
+            const targetMessage = chat.messages.find(msg => msg.id === targetId);
             if (targetMessage?.attachments) {
-                updatedMessages[messageIndex] = { ...targetMessage, attachments: targetMessage.attachments.filter((_, idx) => idx !== attachmentIndex) };
-                return { ...chat, messages: updatedMessages };
+                const updatedMessage = { ...targetMessage, attachments: targetMessage.attachments.filter((_, idx) => idx !== attachmentIndex) };
+                return { ...chat, messages: chat.messages.map(msg => msg.id === targetId ? updatedMessage : msg) };
             }
         }
         return chat;
     }));
-  }, [activeChatId]);
+  }, [activeChatId, messages]);
+
+  const updateTunedModel = useCallback((modelId: string, changes: Partial<TunedModel>) => {
+    setTunedModels(prev => prev.map(m => m.id === modelId ? { ...m, ...changes } : m));
+  }, []);
+
+  // Polling starts from the effect below once the job has a tuned model name.
+  const submitTuningJob = useCallback(async (model: TunedModel) => {
+    const { examples, issues } = trainingFilesToExamples(model.trainingFiles);
+    if (examples.length === 0) {
+      updateTunedModel(model.id, { status: TuningStatus.FAILED, error: issues[0] ?? "No training examples were found. Upload CSV or JSONL files with input and output columns." });
+      return;
+    }
+    try {
+      const tunedModelName = await tuningService.startJob({ displayName: model.displayName, baseModel: model.baseModel, examples });
+      updateTunedModel(model.id, { tunedModelName, exampleCount: examples.length, progress: { completedPercent: 0 } });
+    } catch (error) {
+      updateTunedModel(model.id, { status: TuningStatus.FAILED, error: toApiError(error).message });
+    }
+  }, [updateTunedModel]);
+
+  useEffect(() => {
+    tunedModels.forEach(model => {
+      const { id, tunedModelName } = model;
+      if (model.status !== TuningStatus.TRAINING || !tunedModelName || tuningPollsRef.current.has(id)) return;
+
+      const controller = new AbortController();
+      tuningPollsRef.current.set(id, controller);
+      // Updates are matched on the job name too, so a poll for a job that was retrained since can't overwrite the new one.
+      const applyUpdate = (changes: Partial<TunedModel>) =>
+        setTunedModels(prev => prev.map(m => m.id === id && m.tunedModelName === tunedModelName ? { ...m, ...changes } : m));
+
+      pollTuningJob(tuningService, tunedModelName, model.exampleCount ?? 0, ({ status, progress, error }) => applyUpdate({ status, progress, error }), controller.signal)
+        .catch(error => {
+          if (error instanceof Error && error.name === 'AbortError') return;
+          applyUpdate({ status: TuningStatus.FAILED, error: `Lost track of the tuning job: ${toApiError(error).message}` });
+        })
+        .finally(() => {
+          if (tuningPollsRef.current.get(id) === controller) tuningPollsRef.current.delete(id);
+        });
+    });
+  }, [tunedModels]);
+
+  useEffect(() => {
+    const polls = tuningPollsRef.current;
+    return () => {
+      polls.forEach(controller => controller.abort());
+      polls.clear();
+    };
+  }, []);
+
+  const stopTuningPoll = useCallback((modelId: string) => {
+    tuningPollsRef.current.get(modelId)?.abort();
+    tuningPollsRef.current.delete(modelId);
+  }, []);
 
   const handleStartTuning = useCallback((config: Omit<TunedModel, 'id' | 'status'>) => {
     const newModel: TunedModel = { ...config, id: `tunedModels/custom-${config.displayName.replace(/\s+/g, '-').toLowerCase()}-${Date.now()}`, status: TuningStatus.TRAINING };
     setTunedModels(prev => [...prev, newModel]);
-    setTimeout(() => setTunedModels(prev => prev.map(m => m.id === newModel.id ? { ...m, status: TuningStatus.COMPLETED } : m)), 15000);
-  }, []);
+    submitTuningJob(newModel);
+  }, [submitTuningJob]);
   
   const handleUpdateTuning = useCallback((updatedModel: TunedModel) => {
-    setTunedModels(prev => prev.map(m => m.id === updatedModel.id ? { ...updatedModel, status: TuningStatus.TRAINING } : m));
-    setTimeout(() => setTunedModels(prev => prev.map(m => m.id === updatedModel.id ? { ...m, status: TuningStatus.COMPLETED } : m)), 15000);
-  }, []);
+    stopTuningPoll(updatedModel.id);
+    const retrainingModel: TunedModel = { ...updatedModel, status: TuningStatus.TRAINING, tunedModelName: undefined, exampleCount: undefined, progress: undefined, error: undefined };
+    setTunedModels(prev => prev.map(m => m.id === updatedModel.id ? retrainingModel : m));
+    submitTuningJob(retrainingModel);
+  }, [stopTuningPoll, submitTuningJob]);
   
   const handleDeleteTunedModel = useCallback((modelId: string) => {
+    stopTuningPoll(modelId);
     setTunedModels(prev => prev.filter(m => m.id !== modelId));
     if (selectedModel === modelId) setSelectedModel(Model.GEMINI_2_5_FLASH);
-  }, [selectedModel]);
+  }, [selectedModel, stopTuningPoll]);
 
   const openRightPanel = (panel: 'settings' | 'files' | 'none') => {
       setIsRightSidebarOpen(panel === 'settings'); setIsFilesSidebarOpen(panel === 'files');
@@ -1154,6 +1954,41 @@ You **MUST** respond with a single JSON object that conforms to this schema:
       setChatHistory(prev => prev.map(chat => chat.id === activeChatId ? { ...chat, project: newProject } : chat));
   }, [activeChatId]);
 
+  const attachProject = useCallback((project: Project) => {
+      setChatHistory(prev => prev.map(chat => chat.id === activeChatId ? { ...chat, project, projectReview: undefined } : chat));
+      const paths = Object.keys(flattenFiles(project.files));
+      setActiveInterpreterFile(paths.includes('index.html') ? 'index.html' : paths[0] ?? '');
+      setIsCodeInterpreterToggled(true);
+      setIsDeepResearchToggled(false);
+      setIsImageToolActive(false);
+      setIsVideoToolActive(false);
+      setIsCodePanelVisible(true);
+      openRightPanel('none');
+  }, [activeChatId]);
+
+  const handleImportProject = useCallback(async (file: File) => {
+      try {
+          const { name, files } = await readProjectZip(file);
+          const project = { ...createNewProject(name, `Imported from ${file.name}.`), files };
+          if (activeProject) setProjectToImport(project);
+          else attachProject(project);
+      } catch (error) {
+          console.error("Failed to import project", error);
+          alert(error instanceof Error ? `Couldn't import ${file.name}: ${error.message}` : `Couldn't import ${file.name}.`);
+      }
+  }, [activeProject, attachProject]);
+
+  const handleAddApiKey = useCallback((name: string, key: string) => {
+    const entry = createApiKeyEntry(name, key);
+    setApiKeys(prev => [...prev, entry]);
+    setActiveApiKeyId(entry.id);
+  }, []);
+
+  const handleDeleteApiKey = useCallback((id: string) => {
+    setApiKeys(prev => prev.filter(k => k.id !== id));
+    if (activeApiKeyId === id) setActiveApiKeyId(null);
+  }, [activeApiKeyId]);
+
   const handleExportHistory = useCallback(() => {
     if (chatHistory.length === 0) {
       alert("There is no chat history to export.");
@@ -1161,17 +1996,60 @@ You **MUST** respond with a single JSON object that conforms to this schema:
     }
     const dataStr = JSON.stringify(chatHistory, null, 2);
     const dataBlob = new Blob([dataStr], { type: "application/json" });
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement('a');
-    link.download = `gemini-playground-history-${new Date().toISOString()}.json`;
-    link.href = url;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadBlob(dataBlob, `gemini-playground-history-${new Date().toISOString()}.json`);
     setIsSettingsModalOpen(false);
   }, [chatHistory]);
 
+  const handleExportChat = useCallback((chat: ChatSession, format: ChatExportFormat) => {
+    exportChat(chat, format).catch(error => {
+      console.error("Failed to export chat", error);
+      alert(error instanceof Error ? error.message : "Failed to export this chat.");
+    });
+  }, []);
+
+  useEffect(() => {
+    loadPrompts()
+      .then(setPrompts)
+      .catch(error => console.error("Failed to load prompt library from IndexedDB", error));
+  }, []);
+
+  const handleSavePrompt = useCallback((prompt: PromptEntry) => {
+    setPrompts(prev => prev.some(p => p.id === prompt.id) ? prev.map(p => p.id === prompt.id ? prompt : p) : [prompt, ...prev]);
+    savePrompt(prompt).catch(error => console.error("Failed to save prompt to IndexedDB", error));
+  }, []);
+
+  const handleDeletePrompt = useCallback((promptId: string) => {
+    setPrompts(prev => prev.filter(p => p.id !== promptId));
+    deletePrompt(promptId).catch(error => console.error("Failed to delete prompt from IndexedDB", error));
+  }, []);
+
+  const handleApplyPreset = useCallback((preset: RunPreset) => {
+    applyRunSettings({ ...runSettings, ...preset.settings, useGoogleSearch: runSettings.useGoogleSearch && !preset.settings.useStructuredOutput });
+  }, [applyRunSettings, runSettings]);
+
+  const handleSavePreset = useCallback((name: string) => {
+    const settings = toPresetSettings(runSettings);
+    setRunPresets(prev => {
+      const existing = prev.find(p => p.name.toLowerCase() === name.toLowerCase());
+      if (existing) return prev.map(p => p.id === existing.id ? { ...p, settings, updatedAt: Date.now() } : p);
+      return [...prev, { id: createPresetId(), name, settings, updatedAt: Date.now() }];
+    });
+  }, [runSettings]);
+
+  const confirmDeletePreset = useCallback(() => {
+    if (presetToDelete) setRunPresets(prev => prev.filter(p => p.id !== presetToDelete.id));
+  }, [presetToDelete]);
+
+  const handleImportPresets = useCallback((imported: RunPreset[]) => {
+    setRunPresets(prev => applyPresetImport(prev, imported));
+  }, []);
+
+  const handleImportHistory = useCallback((sessions: ChatSession[], mode: HistoryImportMode) => {
+    setChatHistory(prev => applyHistoryImport(prev, sessions, mode));
+    // The previously active chat no longer exists after a replace.
+    if (mode === 'replace') setActiveChatId(sessions[0]?.id ?? null);
+  }, []);
+
   const confirmClearHistory = useCallback(() => {
     setChatHistory([]);
     setActiveChatId(null);
@@ -1181,18 +2059,39 @@ You **MUST** respond with a single JSON object that conforms to this schema:
   }, [handleNewChat]);
 
   const closeAllSidebars = () => { setIsNavSidebarOpen(false); openRightPanel('none'); };
-  const openSchemaModal = () => { setTempSchema(structuredOutputSchema || placeholderSchema); setIsSchemaModalOpen(true); };
+  const openSchemaModal = () => setIsSchemaModalOpen(true);
   const saveSchema = (schema: string) => setStructuredOutputSchema(schema);
   const openFunctionModal = () => { setTempDeclarations(functionDeclarations || placeholderDeclarations); setIsFunctionModalOpen(true); };
   const saveDeclarations = (declarations: string) => setFunctionDeclarations(declarations);
+  const openToolHandlersModal = () => setIsToolHandlersModalOpen(true);
   const toggleStructuredOutput = (enabled: boolean) => { if (!enabled || isDeepResearchToggled) setUseStructuredOutput(enabled); };
   const toggleGoogleSearch = (enabled: boolean) => { if (enabled && useStructuredOutput) setUseStructuredOutput(false); if (!enabled) { setUseUrlContext(false); setUrlContext(''); } setUseGoogleSearch(enabled); };
+  // Batch rows are plain chat requests sent with the selected model and the current run settings.
+  const batchRequest = useMemo(() => {
+    const selectedTunedModel = tunedModels.find(m => m.id === selectedModel);
+    const modelName = isOpenAICompatibleModel(selectedModel)
+        ? selectedModel
+        : (selectedTunedModel?.tunedModelName && tuningService.canGenerate ? selectedTunedModel.tunedModelName : (activeBaseModel || Model.GEMINI_2_5_FLASH));
+    const config: GenerateOptions['config'] = { temperature, topP, maxOutputTokens, stopSequences: stopSequence ? [stopSequence] : undefined };
+    if (isThinkingModel && !isProModel && !useThinking) config.thinkingConfig = { thinkingBudget: 0 };
+    else if (isThinkingModel && useThinkingBudget) config.thinkingConfig = { thinkingBudget };
+    const parsedSchema = useStructuredOutput && structuredOutputSchema ? parseSchemaText(structuredOutputSchema) : null;
+    if (parsedSchema && 'schema' in parsedSchema) {
+        config.responseMimeType = "application/json";
+        config.responseSchema = parsedSchema.schema;
+    }
+    return { modelName, options: { systemInstruction: selectedTunedModel ? selectedTunedModel.systemInstruction : systemInstruction, config } };
+  }, [selectedModel, tunedModels, activeBaseModel, systemInstruction, temperature, topP, maxOutputTokens, stopSequence, isThinkingModel, isProModel, useThinking, useThinkingBudget, thinkingBudget, useStructuredOutput, structuredOutputSchema]);
   const modelMaxTokensForSidebar = useMemo(() => activeBaseModel && modelMaxTokens[activeBaseModel] ? modelMaxTokens[activeBaseModel]! : 8192, [activeBaseModel]);
 
+  if (!activeApiKey) {
+    return <ApiKeySetup onAdd={handleAddApiKey} />;
+  }
+
   return (
     <div className="full-height-app font-sans bg-white dark:bg-gray-950 text-gray-800 dark:text-gray-200 flex overflow-hidden">
         {isMobile && (isNavSidebarOpen || isRightSidebarOpen || isFilesSidebarOpen) && <div className="fixed inset-0 bg-black/50 z-20" onClick={closeAllSidebars} />}
-        <NavigationSidebar isSidebarOpen={isNavSidebarOpen} onNewChat={handleNewChat} chatHistory={chatHistory} activeChatId={activeChatId} onSelectChat={handleSelectChat} onDeleteChat={handleDeleteChat} onRenameChat={handleRenameChat} isMobile={isMobile} onOpenSettings={() => setIsSettingsModalOpen(true)} />
+        <NavigationSidebar isSidebarOpen={isNavSidebarOpen} onNewChat={handleNewChat} chatHistory={chatHistory} activeChatId={activeChatId} onSelectChat={handleSelectChat} onDeleteChat={handleDeleteChat} onRenameChat={handleRenameChat} isMobile={isMobile} onOpenSettings={() => setIsSettingsModalOpen(true)} onOpenSearchResult={handleOpenSearchResult} onExportChat={handleExportChat} />
         
         <div className="flex-1 flex flex-col min-w-0 md:py-4 md:pr-4 md:pl-0 max-md:pt-14">
             <header className="flex items-center justify-between pb-4 flex-shrink-0 max-md:fixed max-md:top-0 max-md:left-0 max-md:right-0 max-md:z-20 max-md:bg-white dark:max-md:bg-gray-950 max-md:h-14 max-md:p-0 max-md:px-4">
@@ -1201,7 +2100,11 @@ You **MUST** respond with a single JSON object that conforms to this schema:
                     <h1 className="text-lg font-semibold text-gray-800 dark:text-gray-200 truncate hidden md:block" title={activeChat?.title || 'New Chat'}>{activeChat?.title || 'New Chat'}</h1>
                 </div>
                 <div className="flex items-center gap-2">
-                    <HeaderModelSelector selectedModel={selectedModel} setSelectedModel={setSelectedModel} modelOptions={combinedModelOptions} isMobile={isMobile} />
+                    {isCompareMode
+                        ? <CompareModelSelector selectedModels={compareModels} setSelectedModels={setCompareModels} modelOptions={chatModelOptions} />
+                        : <HeaderModelSelector selectedModel={selectedModel} setSelectedModel={setSelectedModel} modelOptions={combinedModelOptions} isMobile={isMobile} />}
+                    <button onClick={() => setIsCompareMode(!isCompareMode)} disabled={isLoading || isCodeInterpreterToggled || isDeepResearchToggled || isImageToolActive || isVideoToolActive} data-tooltip-text={isCompareMode ? "Exit Compare" : "Compare Models"} data-tooltip-position="bottom" data-tooltip-align="right" aria-pressed={isCompareMode} className={`p-2 rounded-lg disabled:opacity-50 ${isCompareMode ? 'text-blue-600 bg-blue-50 dark:text-blue-400 dark:bg-blue-900/30' : 'text-gray-500 hover:text-gray-800 hover:bg-gray-100 dark:text-gray-400 dark:hover:text-gray-200 dark:hover:bg-gray-800'} ${isCodePanelVisible ? 'hidden' : ''}`}><Columns3 className="h-5 w-5" /></button>
+                    <button onClick={() => setIsBatchRunnerOpen(true)} data-tooltip-text="Batch Run" data-tooltip-position="bottom" data-tooltip-align="right" className={`text-gray-500 hover:text-gray-800 p-2 rounded-lg hover:bg-gray-100 dark:text-gray-400 dark:hover:text-gray-200 dark:hover:bg-gray-800 ${isCodePanelVisible ? 'hidden' : ''}`}><ListChecks className="h-5 w-5" /></button>
                     <button onClick={toggleFilesSidebar} data-tooltip-text="Files & Tuning" data-tooltip-position="bottom" data-tooltip-align="right" className={`text-gray-500 hover:text-gray-800 p-2 rounded-lg hover:bg-gray-100 dark:text-gray-400 dark:hover:text-gray-200 dark:hover:bg-gray-800 ${isCodePanelVisible ? 'hidden' : ''}`}><Settings2 className="h-5 w-5" /></button>
                     <button onClick={toggleRightSidebar} data-tooltip-text="Model Settings" data-tooltip-position="bottom" data-tooltip-align="right" className={`text-gray-500 hover:text-gray-800 p-2 rounded-lg hover:bg-gray-100 dark:text-gray-400 dark:hover:text-gray-200 dark:hover:bg-gray-800 ${isCodePanelVisible ? 'hidden' : ''}`}><Settings className="h-5 w-5" /></button>
                 </div>
@@ -1209,13 +2112,29 @@ You **MUST** respond with a single JSON object that conforms to this schema:
 
             <div className="flex-1 flex min-h-0">
                 <main className={`flex flex-col min-w-0 bg-white dark:bg-gray-950 md:border border-gray-200 dark:border-gray-700 md:rounded-lg overflow-hidden transition-all duration-300 ease-in-out ${isCodePanelVisible ? (isWidePreview ? 'hidden' : 'flex-1') : 'w-full'}`}>
+                    {storageError && (
+                        <div role="alert" className="flex items-start gap-2 px-4 py-2 text-sm border-b bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 border-red-200 dark:border-red-900/60 flex-shrink-0">
+                            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                            <p className="flex-1">{storageError}</p>
+                            <button onClick={() => setStorageError(null)} aria-label="Dismiss" className="p-0.5 rounded hover:bg-red-100 dark:hover:bg-red-900/40"><X className="h-4 w-4" /></button>
+                        </div>
+                    )}
                     <ChatArea
                         messages={messages}
-                        onSendMessage={handleSendMessage}
+                        onSendMessage={isCompareMode ? handleCompareSend : handleSendMessage}
+                        onRetryMessage={handleRetryMessage}
+                        onRegenerateMessage={handleRegenerateMessage}
+                        onSubmitToolResponse={handleSubmitToolResponse}
+                        onEditMessage={handleEditMessage}
+                        branchInfo={branchInfo}
+                        onSwitchBranch={handleSwitchBranch}
+                        scrollTargetMessageId={scrollTargetMessageId}
+                        onScrolledToMessage={() => setScrollTargetMessageId(null)}
                         isLoading={isLoading}
                         onStopGeneration={handleStopGeneration}
                         isCodeInterpreterActive={isCodeInterpreterToggled}
                         onToggleCodeInterpreter={handleToggleCodeInterpreter}
+                        onImportProject={handleImportProject}
                         isDeepResearchActive={isDeepResearchToggled}
                         onToggleDeepResearch={handleToggleDeepResearch}
                         isImageToolActive={isImageToolActive}
@@ -1229,6 +2148,24 @@ You **MUST** respond with a single JSON object that conforms to this schema:
                         isMobile={isMobile}
                         onStartLiveConversation={() => setIsLiveConversationOpen(true)}
                         isAttachmentDisabled={isAttachmentDisabled}
+                        promptTemplates={promptTemplates}
+                        onOpenPromptLibrary={() => setPromptLibraryKind(PromptKind.TEMPLATE)}
+                        tokenCount={tokenCount}
+                        modelMaxTokens={modelMaxTokensForSidebar}
+                        contextCutoffIndex={contextCutoffIndex}
+                        contextStrategy={contextStrategy}
+                        contextSummary={activeContextSummary}
+                        comparePanel={isCompareMode ? (
+                            <CompareView
+                                prompt={compareRound?.prompt}
+                                replies={compareRound?.replies ?? []}
+                                selectedModels={compareModels}
+                                modelLabels={modelLabels}
+                                isLoading={isLoading}
+                                onPrefer={handlePreferReply}
+                                onContinue={handleContinueWithReply}
+                            />
+                        ) : undefined}
                     />
                 </main>
                 
@@ -1244,28 +2181,54 @@ You **MUST** respond with a single JSON object that conforms to this schema:
                                 setIsWidePreview(false);
                             }}
                             activeFilePath={activeInterpreterFile}
-                            streamingTarget={streamingTarget}
-                            onStreamComplete={handleStreamComplete}
+                            review={activeChat?.projectReview}
+                            onReviewHunk={handleReviewHunk}
+                            onResolveChanges={handleResolveChanges}
                             isWidePreview={isWidePreview}
                             onToggleWidePreview={() => setIsWidePreview(p => !p)}
+                            onImportProject={handleImportProject}
                         />
                     </div>
                 )}
 
                 <Sidebar
-                    selectedModel={selectedModel} setSelectedModel={setSelectedModel} isSidebarOpen={isRightSidebarOpen} modelOptions={combinedModelOptions} systemInstruction={systemInstruction} setSystemInstruction={setSystemInstruction} temperature={temperature} setTemperature={setTemperature} topP={topP} setTopP={setTopP} maxOutputTokens={maxOutputTokens} setMaxOutputTokens={setMaxOutputTokens} stopSequence={stopSequence} setStopSequence={setStopSequence} tokenCount={tokenCount} modelMaxTokens={modelMaxTokensForSidebar} mediaResolution={mediaResolution} setMediaResolution={setMediaResolution} useThinking={useThinking} setUseThinking={setUseThinking} useThinkingBudget={useThinkingBudget} setUseThinkingBudget={setUseThinkingBudget} thinkingBudget={thinkingBudget} setThinkingBudget={setThinkingBudget} useStructuredOutput={useStructuredOutput} setUseStructuredOutput={toggleStructuredOutput} openSchemaModal={openSchemaModal} useCodeExecution={useCodeExecution} setUseCodeExecution={setUseCodeExecution} useFunctionCalling={useFunctionCalling} setUseFunctionCalling={setUseFunctionCalling} openFunctionModal={openFunctionModal} useGoogleSearch={isDeepResearchToggled || useGoogleSearch} setUseGoogleSearch={toggleGoogleSearch} useUrlContext={useUrlContext} setUseUrlContext={setUseUrlContext} urlContext={urlContext} setUrlContext={setUrlContext} isMobile={isMobile} isGemmaModel={isGemmaModel} isImageEditModel={isImageEditModel} isTextToImageModel={isTextToImageModel} isVideoModel={isVideoModel} isThinkingModel={isThinkingModel} isProModel={isProModel}
+                    selectedModel={selectedModel} setSelectedModel={setSelectedModel} isSidebarOpen={isRightSidebarOpen} modelOptions={combinedModelOptions} systemInstruction={systemInstruction} setSystemInstruction={setSystemInstruction} openPromptLibrary={() => setPromptLibraryKind(PromptKind.SYSTEM_INSTRUCTION)} temperature={temperature} setTemperature={setTemperature} topP={topP} setTopP={setTopP} maxOutputTokens={maxOutputTokens} setMaxOutputTokens={setMaxOutputTokens} stopSequence={stopSequence} setStopSequence={setStopSequence} tokenCount={tokenCount} modelMaxTokens={modelMaxTokensForSidebar} mediaResolution={mediaResolution} setMediaResolution={setMediaResolution} contextStrategy={contextStrategy} setContextStrategy={setContextStrategy} contextTurns={contextTurns} setContextTurns={setContextTurns} useThinking={useThinking} setUseThinking={setUseThinking} useThinkingBudget={useThinkingBudget} setUseThinkingBudget={setUseThinkingBudget} thinkingBudget={thinkingBudget} setThinkingBudget={setThinkingBudget} useStructuredOutput={useStructuredOutput} setUseStructuredOutput={toggleStructuredOutput} openSchemaModal={openSchemaModal} useCodeExecution={useCodeExecution} setUseCodeExecution={setUseCodeExecution} useFunctionCalling={useFunctionCalling} setUseFunctionCalling={setUseFunctionCalling} openFunctionModal={openFunctionModal} openToolHandlersModal={openToolHandlersModal} useGoogleSearch={isDeepResearchToggled || useGoogleSearch} setUseGoogleSearch={toggleGoogleSearch} useUrlContext={useUrlContext} setUseUrlContext={setUseUrlContext} urlContext={urlContext} setUrlContext={setUrlContext} isMobile={isMobile} isGemmaModel={isGemmaModel} isImageEditModel={isImageEditModel} isTextToImageModel={isTextToImageModel} isVideoModel={isVideoModel} isThinkingModel={isThinkingModel} isProModel={isProModel}
                     numberOfImages={numberOfImages} setNumberOfImages={setNumberOfImages}
                     negativePrompt={negativePrompt} setNegativePrompt={setNegativePrompt}
                     seed={seed} setSeed={setSeed}
                     aspectRatio={aspectRatio} setAspectRatio={setAspectRatio}
                     personGeneration={personGeneration} setPersonGeneration={setPersonGeneration}
+                    runPresets={runPresets} currentPresetSettings={runSettings} onApplyPreset={handleApplyPreset} onSavePreset={handleSavePreset} onDeletePreset={setPresetToDelete} onImportPresets={handleImportPresets}
                 />
                 <FilesSidebar isSidebarOpen={isFilesSidebarOpen} messages={messages} onDeleteAttachment={handleDeleteAttachment} tunedModels={tunedModels} onStartTuning={handleStartTuning} onUpdateTuning={handleUpdateTuning} onDeleteTunedModel={handleDeleteTunedModel} modelOptions={modelOptions} isMobile={isMobile} />
             </div>
         </div>
-        <Modal isOpen={isSchemaModalOpen} onClose={() => setIsSchemaModalOpen(false)} onSave={saveSchema} title="Edit Structured Output Schema" content={tempSchema} setContent={setTempSchema} placeholder={placeholderSchema} helpText="Define the JSON schema for the model's output..." />
+        <SchemaBuilderModal isOpen={isSchemaModalOpen} onClose={() => setIsSchemaModalOpen(false)} schema={structuredOutputSchema || placeholderSchema} onSave={saveSchema} />
         <Modal isOpen={isFunctionModalOpen} onClose={() => setIsFunctionModalOpen(false)} onSave={saveDeclarations} title="Edit Function Declarations" content={tempDeclarations} setContent={setTempDeclarations} placeholder={placeholderDeclarations} helpText={<>Define functions the model can call. See the <a href="https://ai.google.dev/docs/function_calling" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">documentation</a> for the correct format.</>} />
+        <ToolHandlersModal isOpen={isToolHandlersModalOpen} onClose={() => setIsToolHandlersModalOpen(false)} functionDeclarations={functionDeclarations} handlers={toolHandlers} onSave={setToolHandlers} />
+        <BatchRunner
+            isOpen={isBatchRunnerOpen}
+            onClose={() => setIsBatchRunnerOpen(false)}
+            provider={activeProvider}
+            modelName={batchRequest.modelName}
+            modelLabel={chatModelOptions.find(option => option.value === selectedModel)?.label ?? batchRequest.modelName}
+            generateOptions={batchRequest.options}
+            retryConfig={retryConfig}
+            promptTemplates={promptTemplates}
+        />
+        <PromptLibrary
+            isOpen={promptLibraryKind !== null}
+            initialKind={promptLibraryKind ?? PromptKind.SYSTEM_INSTRUCTION}
+            onClose={() => setPromptLibraryKind(null)}
+            prompts={prompts}
+            onSavePrompt={handleSavePrompt}
+            onDeletePrompt={handleDeletePrompt}
+            currentSystemInstruction={systemInstruction}
+            onApplySystemInstruction={setSystemInstruction}
+        />
         <ConfirmationModal isOpen={!!chatToDelete} onClose={() => setChatToDelete(null)} onConfirm={confirmDeleteChat} title="Delete Chat">Are you sure you want to delete this chat? This action cannot be undone.</ConfirmationModal>
+        <ConfirmationModal isOpen={!!projectToImport} onClose={() => setProjectToImport(null)} onConfirm={() => projectToImport && attachProject(projectToImport)} title="Replace Project">This chat already has the project "{activeProject?.name}". Replace it with "{projectToImport?.name}"?</ConfirmationModal>
+        <ConfirmationModal isOpen={!!presetToDelete} onClose={() => setPresetToDelete(null)} onConfirm={confirmDeletePreset} title="Delete Preset">Are you sure you want to delete the preset "{presetToDelete?.name}"?</ConfirmationModal>
         <LiveConversation 
             isOpen={isLiveConversationOpen} 
             onClose={() => setIsLiveConversationOpen(false)}
@@ -1278,9 +2241,27 @@ You **MUST** respond with a single JSON object that conforms to this schema:
             theme={theme}
             setTheme={setTheme}
             onExportHistory={handleExportHistory}
+            onImportHistory={handleImportHistory}
+            existingSessionIds={chatHistory.map(chat => chat.id)}
             onClearHistory={() => setIsClearHistoryModalOpen(true)}
             liveConversationModel={liveConversationModel}
             setLiveConversationModel={setLiveConversationModel}
+            openAICompatibleConfig={openAICompatibleConfig}
+            setOpenAICompatibleConfig={setOpenAICompatibleConfig}
+            isOpenAICompatibleEnabled={isOpenAICompatibleEnabled}
+            setIsOpenAICompatibleEnabled={setIsOpenAICompatibleEnabled}
+            openAICompatibleModelCount={openAICompatibleModels.length}
+            openAICompatibleError={openAICompatibleError}
+            apiKeys={apiKeys}
+            activeApiKeyId={activeApiKey.id}
+            onSelectApiKey={setActiveApiKeyId}
+            onAddApiKey={handleAddApiKey}
+            onDeleteApiKey={handleDeleteApiKey}
+            retryConfig={retryConfig}
+            setRetryConfig={setRetryConfig}
+            chatHistory={chatHistory}
+            modelPrices={modelPrices}
+            setModelPrices={setModelPrices}
         />
         <ConfirmationModal
             isOpen={isClearHistoryModalOpen}
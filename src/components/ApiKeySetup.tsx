@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Key, Loader2 } from 'lucide-react';
+import { validateApiKey } from '../services/geminiService';
+
+interface ApiKeyFormProps {
+  onAdd: (name: string, key: string) => void;
+  submitLabel?: string;
+}
+
+export const ApiKeyForm: React.FC<ApiKeyFormProps> = ({ onAdd, submitLabel = 'Add Key' }) => {
+  const [name, setName] = useState('');
+  const [key, setKey] = useState('');
+  const [isValidating, setIsValidating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!key.trim() || isValidating) return;
+    setIsValidating(true);
+    setError(null);
+    try {
+      await validateApiKey(key.trim());
+      onAdd(name, key);
+      setName('');
+      setKey('');
+    } catch (err) {
+      console.error("API key validation failed:", err);
+      setError("This key could not be validated. Check that it is correct and has access to the Gemini API.");
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div>
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 block">Name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="e.g. Personal, Team project"
+          className="w-full p-2.5 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      <div>
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 block">Gemini API Key</label>
+        <input
+          type="password"
+          value={key}
+          onChange={e => setKey(e.target.value)}
+          placeholder="AIza..."
+          required
+          className="w-full p-2.5 border border-gray-200 dark:border-gray-600 rounded-lg text-sm font-mono text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+      <button
+        type="submit"
+        disabled={!key.trim() || isValidating}
+        className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-300 dark:disabled:bg-blue-800 disabled:cursor-not-allowed flex items-center gap-2"
+      >
+        {isValidating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Key className="h-4 w-4" />}
+        {isValidating ? 'Validating...' : submitLabel}
+      </button>
+    </form>
+  );
+};
+
+interface ApiKeySetupProps {
+  onAdd: (name: string, key: string) => void;
+}
+
+export const ApiKeySetup: React.FC<ApiKeySetupProps> = ({ onAdd }) => (
+  <div className="full-height-app font-sans bg-gray-50 dark:bg-gray-950 flex items-center justify-center p-4">
+    <div className="w-full max-w-md bg-white dark:bg-gray-800 rounded-lg shadow-xl p-8">
+      <div className="flex items-center gap-2 mb-6">
+        <div className="w-8 h-8 bg-black rounded-md flex items-center justify-center flex-shrink-0">
+          <span className="font-bold text-white text-xl">R</span>
+        </div>
+        <h1 className="text-lg font-semibold text-gray-800 dark:text-gray-200">REXPro AI</h1>
+      </div>
+      <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-2">Add a Gemini API key</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+        Your key is stored only in this browser. You can create one in{' '}
+        <a href="https://aistudio.google.com/apikey" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline dark:text-blue-400">Google AI Studio</a>.
+      </p>
+      <ApiKeyForm onAdd={onAdd} submitLabel="Validate & Continue" />
+    </div>
+  </div>
+);
@@ -0,0 +1,285 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Upload, Play, Square, Download, AlertTriangle, CheckCircle2, Loader2, Clock } from 'lucide-react';
+import { BatchRow, BatchRowStatus, PromptEntry, RetryConfig } from '../types';
+import type { ChatProvider, GenerateOptions } from '../services/chatProviders';
+import { exportBatchResults, runBatch } from '../services/batchService';
+import { toApiError } from '../services/apiErrors';
+import { BatchDataset, BatchFormat, batchFormatOf, createBatchRows, parseBatchDataset } from '../lib/batchData';
+import { extractVariables, fillTemplate } from '../lib/promptTemplates';
+import { ConfirmationModal } from './ConfirmationModal';
+
+interface BatchRunnerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  provider: ChatProvider;
+  modelName: string;
+  modelLabel: string;
+  // The current run settings, including the response schema when structured output is on.
+  generateOptions: GenerateOptions;
+  retryConfig: RetryConfig;
+  promptTemplates: PromptEntry[];
+}
+
+const MAX_CONCURRENCY = 10;
+
+const statusStyles: Record<BatchRowStatus, { label: string; className: string; Icon: React.ElementType }> = {
+  [BatchRowStatus.PENDING]: { label: 'Pending', className: 'text-gray-500 dark:text-gray-400', Icon: Clock },
+  [BatchRowStatus.RUNNING]: { label: 'Running', className: 'text-blue-600 dark:text-blue-400', Icon: Loader2 },
+  [BatchRowStatus.DONE]: { label: 'Done', className: 'text-green-600 dark:text-green-400', Icon: CheckCircle2 },
+  [BatchRowStatus.FAILED]: { label: 'Failed', className: 'text-red-600 dark:text-red-400', Icon: AlertTriangle },
+};
+
+const inputClass = "p-2 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500";
+const labelClass = "text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2 block";
+
+export const BatchRunner: React.FC<BatchRunnerProps> = ({ isOpen, onClose, provider, modelName, modelLabel, generateOptions, retryConfig, promptTemplates }) => {
+  const [fileName, setFileName] = useState('');
+  const [dataset, setDataset] = useState<BatchDataset | null>(null);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [template, setTemplate] = useState('');
+  const [concurrency, setConcurrency] = useState(3);
+  const [requestsPerMinute, setRequestsPerMinute] = useState(60);
+  const [isRunning, setIsRunning] = useState(false);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [isConfirmingClose, setIsConfirmingClose] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Closing the panel abandons the run, as the results live only in this panel.
+  useEffect(() => {
+    if (!isOpen) abortControllerRef.current?.abort();
+  }, [isOpen]);
+
+  const variables = useMemo(() => extractVariables(template), [template]);
+  const unknownVariables = dataset ? variables.filter(name => !dataset.columns.includes(name)) : [];
+  const counts = useMemo(() => rows.reduce((acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }), {
+    [BatchRowStatus.PENDING]: 0, [BatchRowStatus.RUNNING]: 0, [BatchRowStatus.DONE]: 0, [BatchRowStatus.FAILED]: 0,
+  } as Record<BatchRowStatus, number>), [rows]);
+  const finished = counts[BatchRowStatus.DONE] + counts[BatchRowStatus.FAILED];
+  const isJsonOutput = generateOptions.config.responseMimeType === 'application/json';
+  const canRun = !isRunning && rows.length > 0 && template.trim() !== '' && unknownVariables.length === 0 && counts[BatchRowStatus.DONE] < rows.length;
+
+  if (!isOpen) return null;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const format = batchFormatOf(file.name);
+    if (!format) {
+      alert("Choose a .csv or .jsonl file.");
+      return;
+    }
+    try {
+      const parsed = parseBatchDataset(await file.text(), format);
+      setFileName(file.name);
+      setDataset(parsed);
+      setRows(createBatchRows(parsed));
+      setRunError(null);
+      if (!template.trim() && parsed.columns.length > 0) setTemplate(parsed.columns.map(column => `{{${column}}}`).join('\n\n'));
+    } catch (error) {
+      console.error("Failed to read batch file:", error);
+      alert("The file could not be read.");
+    }
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setRunError(null);
+    abortControllerRef.current = new AbortController();
+    try {
+      await runBatch(rows, {
+        provider,
+        modelName,
+        generateOptions,
+        template,
+        concurrency,
+        requestsPerMinute,
+        retryConfig,
+        signal: abortControllerRef.current.signal,
+        onRowChange: row => setRows(prev => prev.map(existing => existing.index === row.index ? row : existing)),
+      });
+    } catch (error) {
+      if (!(error instanceof Error && error.name === 'AbortError')) {
+        console.error("Batch run stopped:", error);
+        setRunError(toApiError(error).message);
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  // A stray click on the backdrop shouldn't throw away a run in progress.
+  const handleClose = () => {
+    if (isRunning) setIsConfirmingClose(true);
+    else onClose();
+  };
+
+  const handleExport = (format: BatchFormat) => {
+    if (!dataset) return;
+    exportBatchResults(rows, dataset.columns, format, isJsonOutput, fileName);
+  };
+
+  return (
+    <>
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4"
+      onClick={handleClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="batch-runner-title"
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 id="batch-runner-title" className="text-lg font-semibold text-gray-900 dark:text-gray-100">Batch Run</h2>
+          <button onClick={handleClose} className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200" aria-label="Close batch run">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto hover-scrollbar space-y-5 text-sm">
+          <div className="grid md:grid-cols-2 gap-5">
+            <div>
+              <label className={labelClass}>Dataset</label>
+              <input ref={fileInputRef} type="file" accept=".csv,.jsonl,.ndjson" onChange={handleFileChange} className="hidden" />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isRunning}
+                className="w-full flex items-center justify-center gap-2 p-4 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg text-gray-600 dark:text-gray-300 hover:border-blue-400 hover:text-blue-600 dark:hover:text-blue-400 disabled:opacity-50"
+              >
+                <Upload className="h-4 w-4" /> {fileName || 'Choose a CSV or JSONL file'}
+              </button>
+              {dataset && (
+                <div className="mt-2 space-y-1 text-xs text-gray-500 dark:text-gray-400">
+                  <p>{dataset.rows.length} rows · columns: {dataset.columns.map(column => <code key={column} className="mx-0.5 px-1 rounded bg-gray-100 dark:bg-gray-700">{column}</code>)}</p>
+                  {dataset.issues.map(issue => <p key={issue} className="text-amber-600 dark:text-amber-400">{issue}</p>)}
+                </div>
+              )}
+
+              <div className="mt-4 grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Concurrency</label>
+                  <input type="number" min={1} max={MAX_CONCURRENCY} value={concurrency} disabled={isRunning}
+                    onChange={e => setConcurrency(Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+                    className={`w-full ${inputClass}`} />
+                </div>
+                <div>
+                  <label className={labelClass}>Requests / min</label>
+                  <input type="number" min={0} value={requestsPerMinute} disabled={isRunning}
+                    onChange={e => setRequestsPerMinute(Math.max(0, Number(e.target.value) || 0))}
+                    className={`w-full ${inputClass}`} />
+                </div>
+              </div>
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                0 requests per minute means no limit. Rate-limited rows pause the queue and are retried up to {retryConfig.maxRetries} times.
+              </p>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className={`${labelClass} mb-0`}>Prompt template</label>
+                {promptTemplates.length > 0 && (
+                  <select
+                    value=""
+                    onChange={e => { const entry = promptTemplates.find(prompt => prompt.id === e.target.value); if (entry) setTemplate(entry.content); }}
+                    disabled={isRunning}
+                    className="text-xs p-1 border border-gray-200 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                    aria-label="Load a saved template"
+                  >
+                    <option value="">Load template…</option>
+                    {promptTemplates.map(prompt => <option key={prompt.id} value={prompt.id}>{prompt.name}</option>)}
+                  </select>
+                )}
+              </div>
+              <textarea
+                value={template}
+                onChange={e => setTemplate(e.target.value)}
+                disabled={isRunning}
+                rows={8}
+                placeholder={'Classify the sentiment of this review:\n\n{{review}}'}
+                className={`w-full font-mono resize-y ${inputClass}`}
+              />
+              {unknownVariables.length > 0 ? (
+                <p className="mt-1 text-xs text-red-600 dark:text-red-400">No column named {unknownVariables.map(name => `"${name}"`).join(', ')} in the dataset.</p>
+              ) : (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Reference columns as <code className="px-1 rounded bg-gray-100 dark:bg-gray-700">{'{{column}}'}</code>. Sent to {modelLabel} with the current run settings{isJsonOutput ? ' and response schema' : ''}.
+                </p>
+              )}
+            </div>
+          </div>
+
+          {rows.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between gap-3 mb-2">
+                <span className="text-gray-700 dark:text-gray-300">
+                  {finished} of {rows.length} finished{counts[BatchRowStatus.FAILED] > 0 && <span className="text-red-600 dark:text-red-400"> · {counts[BatchRowStatus.FAILED]} failed</span>}
+                </span>
+                <div className="flex items-center gap-2">
+                  {isRunning ? (
+                    <button onClick={() => abortControllerRef.current?.abort()} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600">
+                      <Square className="h-4 w-4" /> Stop
+                    </button>
+                  ) : (
+                    <button onClick={handleRun} disabled={!canRun} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50">
+                      <Play className="h-4 w-4" /> {finished > 0 ? 'Run remaining' : 'Run'}
+                    </button>
+                  )}
+                  {(['csv', 'jsonl'] as BatchFormat[]).map(format => (
+                    <button key={format} onClick={() => handleExport(format)} disabled={isRunning || finished === 0} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50">
+                      <Download className="h-4 w-4" /> {format.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden mb-3">
+                <div className="h-full bg-blue-600 transition-all" style={{ width: `${(finished / rows.length) * 100}%` }} />
+              </div>
+              {runError && <p className="mb-3 p-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300">The run was stopped: {runError}</p>}
+
+              <div className="overflow-auto max-h-80 hover-scrollbar border border-gray-200 dark:border-gray-700 rounded-lg">
+                <table className="min-w-full">
+                  <thead className="text-xs text-gray-500 dark:text-gray-400">
+                    <tr>
+                      <th className="sticky top-0 bg-gray-50 dark:bg-gray-800 text-right font-medium px-3 py-2">#</th>
+                      <th className="sticky top-0 bg-gray-50 dark:bg-gray-800 text-left font-medium px-3 py-2">Prompt</th>
+                      <th className="sticky top-0 bg-gray-50 dark:bg-gray-800 text-left font-medium px-3 py-2">Status</th>
+                      <th className="sticky top-0 bg-gray-50 dark:bg-gray-800 text-left font-medium px-3 py-2">Result</th>
+                      <th className="sticky top-0 bg-gray-50 dark:bg-gray-800 text-right font-medium px-3 py-2">Time</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-gray-800 dark:text-gray-200">
+                    {rows.map(row => {
+                      const { label, className, Icon } = statusStyles[row.status];
+                      const prompt = fillTemplate(template, row.values);
+                      const result = row.error?.message ?? row.output ?? '';
+                      return (
+                        <tr key={row.index} className="border-t border-gray-100 dark:border-gray-700 align-top">
+                          <td className="px-3 py-1.5 text-right text-gray-500 dark:text-gray-400">{row.index + 1}</td>
+                          <td className="px-3 py-1.5 max-w-[16rem] truncate" title={prompt}>{prompt}</td>
+                          <td className={`px-3 py-1.5 whitespace-nowrap ${className}`}>
+                            <span className="inline-flex items-center gap-1">
+                              <Icon className={`h-3.5 w-3.5 ${row.status === BatchRowStatus.RUNNING ? 'animate-spin' : ''}`} /> {label}
+                              {row.attempts > 1 && <span className="text-gray-400"> ({row.attempts} tries)</span>}
+                            </span>
+                          </td>
+                          <td className={`px-3 py-1.5 max-w-[22rem] truncate ${row.error ? 'text-red-600 dark:text-red-400' : ''}`} title={result}>{result}</td>
+                          <td className="px-3 py-1.5 text-right whitespace-nowrap text-gray-500 dark:text-gray-400">{row.latencyMs !== undefined ? `${(row.latencyMs / 1000).toFixed(1)} s` : ''}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+    <ConfirmationModal isOpen={isConfirmingClose} onClose={() => setIsConfirmingClose(false)} onConfirm={onClose} title="Stop Batch Run">
+      Closing the panel stops the run. Rows that haven't finished stay pending, and the results so far are kept until you load another file.
+    </ConfirmationModal>
+    </>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { DiffEditor, DiffOnMount, MonacoDiffEditor } from '@monaco-editor/react';
+import { FileChange } from '../types';
+import { getLanguageFromPath } from '../lib/fileTree';
+import { LineChange } from '../lib/projectChanges';
+
+interface ChangeReviewProps {
+  changes: FileChange[];
+  isDarkMode: boolean;
+  onReviewHunk: (path: string, hunk: LineChange, accept: boolean) => void;
+  onResolveChanges: (paths: string[], accept: boolean) => void;
+}
+
+const changeBadge = (change: FileChange) => {
+  if (change.isDeleted) return { label: 'D', title: 'Deleted', className: 'text-red-600 dark:text-red-400' };
+  if (change.isNew) return { label: 'A', title: 'Added', className: 'text-green-600 dark:text-green-400' };
+  return { label: 'M', title: 'Modified', className: 'text-yellow-600 dark:text-yellow-400' };
+};
+
+export const ChangeReview: React.FC<ChangeReviewProps> = ({ changes, isDarkMode, onReviewHunk, onResolveChanges }) => {
+  const [selectedPath, setSelectedPath] = useState(changes[0]?.path ?? '');
+  const [hunks, setHunks] = useState<LineChange[]>([]);
+  const [hunkIndex, setHunkIndex] = useState(0);
+  const diffEditorRef = useRef<MonacoDiffEditor | null>(null);
+
+  // A resolved file drops out of the list, so move on to the next one.
+  const change = changes.find(c => c.path === selectedPath) ?? changes[0];
+  const currentHunk = hunks[Math.min(hunkIndex, hunks.length - 1)];
+
+  useEffect(() => {
+    setHunkIndex(0);
+  }, [change?.path]);
+
+  useEffect(() => {
+    if (currentHunk) diffEditorRef.current?.getModifiedEditor().revealLineInCenter(Math.max(currentHunk.modifiedStartLineNumber, 1));
+  }, [currentHunk]);
+
+  const handleMount: DiffOnMount = editor => {
+    diffEditorRef.current = editor;
+    editor.onDidUpdateDiff(() => setHunks(editor.getLineChanges() ?? []));
+  };
+
+  if (!change) return null;
+  const badge = changeBadge(change);
+  const buttonClass = "flex items-center gap-1.5 px-2.5 py-1 text-sm font-medium rounded-md transition-colors";
+  const acceptClass = `${buttonClass} bg-green-600 text-white hover:bg-green-700`;
+  const rejectClass = `${buttonClass} text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800`;
+  const iconButtonClass = "p-1 text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700 rounded disabled:opacity-40 disabled:hover:bg-transparent";
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50 flex-shrink-0">
+        <p className="text-sm text-gray-600 dark:text-gray-400">{changes.length} {changes.length === 1 ? 'file' : 'files'} changed. Review them before they're applied.</p>
+        <div className="flex items-center gap-2">
+          <button onClick={() => onResolveChanges(changes.map(c => c.path), false)} className={rejectClass}><X className="h-4 w-4" /> Reject All</button>
+          <button onClick={() => onResolveChanges(changes.map(c => c.path), true)} className={acceptClass}><Check className="h-4 w-4" /> Accept All</button>
+        </div>
+      </div>
+      <div className="flex-1 flex min-h-0">
+        <ul className="w-56 flex-shrink-0 overflow-y-auto hover-scrollbar border-r border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50 py-1">
+          {changes.map(c => {
+            const { label, title, className } = changeBadge(c);
+            return (
+              <li key={c.path}>
+                <button
+                  onClick={() => setSelectedPath(c.path)}
+                  title={c.path}
+                  className={`w-full flex items-center gap-2 px-3 py-1 text-sm text-left text-gray-700 dark:text-gray-300 ${c.path === change.path ? 'bg-gray-200 dark:bg-gray-700' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                >
+                  <span className="truncate flex-1">{c.path}</span>
+                  <span className={`text-xs font-semibold ${className}`} title={title}>{label}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="flex-1 flex flex-col min-w-0 min-h-0">
+          <div className="flex items-center justify-between gap-2 px-3 py-1.5 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
+            <div className="flex items-center gap-2 min-w-0">
+              <span className="truncate text-sm font-medium text-gray-800 dark:text-gray-200" title={change.path}>{change.path}</span>
+              <span className={`text-xs ${badge.className}`}>{badge.title}</span>
+            </div>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              {!change.isDeleted && currentHunk && (
+                <>
+                  <button onClick={() => setHunkIndex(i => Math.max(i - 1, 0))} disabled={hunkIndex === 0} className={iconButtonClass} aria-label="Previous change"><ChevronUp className="h-4 w-4" /></button>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 tabular-nums">Change {Math.min(hunkIndex, hunks.length - 1) + 1} of {hunks.length}</span>
+                  <button onClick={() => setHunkIndex(i => Math.min(i + 1, hunks.length - 1))} disabled={hunkIndex >= hunks.length - 1} className={iconButtonClass} aria-label="Next change"><ChevronDown className="h-4 w-4" /></button>
+                  <button onClick={() => onReviewHunk(change.path, currentHunk, false)} className={iconButtonClass} data-tooltip-text="Reject change" data-tooltip-position="bottom"><X className="h-4 w-4" /></button>
+                  <button onClick={() => onReviewHunk(change.path, currentHunk, true)} className={iconButtonClass} data-tooltip-text="Accept change" data-tooltip-position="bottom"><Check className="h-4 w-4" /></button>
+                  <div className="h-5 w-px bg-gray-200 dark:bg-gray-700 mx-1"></div>
+                </>
+              )}
+              <button onClick={() => onResolveChanges([change.path], false)} className={rejectClass}>Reject File</button>
+              <button onClick={() => onResolveChanges([change.path], true)} className={acceptClass}>Accept File</button>
+            </div>
+          </div>
+          <div className="flex-1 min-h-0">
+            <DiffEditor
+              height="100%"
+              original={change.original}
+              modified={change.proposed}
+              language={getLanguageFromPath(change.path)}
+              theme={isDarkMode ? 'vs-dark' : 'light'}
+              options={{ readOnly: true, renderSideBySide: false, minimap: { enabled: false }, fontSize: 14, automaticLayout: true, scrollbar: { verticalScrollbarSize: 8, horizontalScrollbarSize: 8 } }}
+              onMount={handleMount}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { ChatMessage, Role, Attachment, Project } from '../types';
-import { ArrowUp, Copy, Check, Paperclip, X, ChevronDown, SquareCode, Settings2, Microscope, Image, Video, Square, AudioLines, Mic, Download, Loader2 } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { ChatMessage, MessagePart, Role, Attachment, Project, ApiErrorKind, MessageError, PromptEntry, ContextStrategy, ContextSummary } from '../types';
+import { ArrowUp, Copy, Check, Paperclip, X, ChevronDown, SquareCode, Settings2, Microscope, Image, Video, Square, AudioLines, Mic, Download, Loader2, AlertTriangle, RotateCcw, RefreshCw, Pencil, ChevronLeft, ChevronRight, Terminal, FileArchive } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
@@ -8,16 +8,33 @@ import rehypeKatex from 'rehype-katex';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { coldarkCold, coldarkDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import ProjectFileCard from './ProjectFileCard';
+import GenerationDetailsPopover from './GenerationDetailsPopover';
+import ToolCallCard from './ToolCallCard';
+import StructuredOutputView from './StructuredOutputView';
 import { transcribeAudio } from '../services/geminiService';
+import { createAttachmentId } from '../services/storageService';
+import { BranchInfo } from '../lib/messageTree';
+import { extractVariables, filterPrompts } from '../lib/promptTemplates';
+import { PromptCommandPalette, TemplateVariablesForm } from './PromptCommandPalette';
 
 
 interface ChatAreaProps {
   messages: ChatMessage[];
   onSendMessage: (prompt: string, attachments: Attachment[]) => void;
+  onRetryMessage: (messageId: string) => void;
+  onRegenerateMessage: (messageId: string) => void;
+  onSubmitToolResponse: (callId: string, response: unknown) => void;
+  onEditMessage: (messageId: string, newContent: string) => void;
+  branchInfo: Record<string, BranchInfo>;
+  onSwitchBranch: (messageId: string, direction: -1 | 1) => void;
+  scrollTargetMessageId: string | null;
+  onScrolledToMessage: () => void;
   isLoading: boolean;
   onStopGeneration: () => void;
   isCodeInterpreterActive: boolean;
   onToggleCodeInterpreter: () => void;
+  // Attaches a project from a ZIP archive to the chat for the Code Interpreter.
+  onImportProject: (file: File) => void;
   isDeepResearchActive: boolean;
   onToggleDeepResearch: () => void;
   isImageToolActive: boolean;
@@ -31,8 +48,22 @@ interface ChatAreaProps {
   isMobile: boolean;
   onStartLiveConversation: () => void;
   isAttachmentDisabled: boolean;
+  promptTemplates: PromptEntry[];
+  onOpenPromptLibrary: () => void;
+  // Tokens the conversation sends with the next request, and the model's context window.
+  tokenCount: number;
+  modelMaxTokens: number;
+  contextCutoffIndex: number | null;
+  contextStrategy: ContextStrategy;
+  contextSummary?: ContextSummary;
+  // Shown instead of the conversation while comparing models.
+  comparePanel?: React.ReactNode;
 }
 
+const MAX_PALETTE_RESULTS = 8;
+// Share of the context window at which the input area starts warning.
+const CONTEXT_WARNING_RATIO = 0.8;
+
 const LoadingDots: React.FC = () => (
   <div className="flex items-center space-x-1">
     <span className="w-2 h-2 bg-gray-500 rounded-full dot-1"></span>
@@ -84,7 +115,76 @@ const ReasoningCard: React.FC<ReasoningCardProps> = ({ reasoningText, isExpanded
 };
 
 
-const CodeBlock: React.FC<any> = ({ inline, className, children }) => {
+const errorDescriptions: Record<ApiErrorKind, { title: string; hint: string }> = {
+  [ApiErrorKind.RATE_LIMITED]: { title: 'Rate limit reached', hint: 'Too many requests were sent in a short time. Wait a moment, then retry.' },
+  [ApiErrorKind.QUOTA_EXHAUSTED]: { title: 'Quota exhausted', hint: 'This API key has used up its quota. Check your plan and billing in Google AI Studio, or switch keys in Settings > Account & API.' },
+  [ApiErrorKind.SAFETY_BLOCKED]: { title: 'Blocked by safety filters', hint: 'The prompt or the response was blocked. Try rephrasing your request.' },
+  [ApiErrorKind.INVALID_ARGUMENT]: { title: 'Invalid request', hint: 'The model rejected the request. Check the run settings, structured output schema and function declarations.' },
+  [ApiErrorKind.CONTEXT_TOO_LONG]: { title: 'Conversation too long', hint: "This chat no longer fits in the model's context window. Start a new chat or remove large attachments." },
+  [ApiErrorKind.UNAUTHENTICATED]: { title: 'API key rejected', hint: 'The API key is invalid or lacks access to this model. Update it in Settings > Account & API.' },
+  [ApiErrorKind.UNAVAILABLE]: { title: 'Model unavailable', hint: 'The model is overloaded or temporarily unavailable. Retry in a few moments.' },
+  [ApiErrorKind.NETWORK]: { title: 'Network error', hint: 'The API could not be reached. Check your internet connection, then retry.' },
+  [ApiErrorKind.UNKNOWN]: { title: 'Something went wrong', hint: 'The request failed unexpectedly.' },
+};
+
+interface MessageErrorCardProps {
+  error: MessageError;
+  onRetry?: () => void;
+}
+
+const MessageErrorCard: React.FC<MessageErrorCardProps> = ({ error, onRetry }) => {
+  const { title, hint } = errorDescriptions[error.kind] ?? errorDescriptions[ApiErrorKind.UNKNOWN];
+  return (
+    <div className="mt-2 p-4 rounded-lg border border-red-200 dark:border-red-900/60 bg-red-50 dark:bg-red-900/20">
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold text-red-800 dark:text-red-300">{title}</p>
+          <p className="text-sm text-red-700 dark:text-red-300/90 mt-1">{hint}</p>
+          {error.message && (
+            <details className="mt-2 text-xs text-red-700/80 dark:text-red-300/70">
+              <summary className="cursor-pointer select-none">Details</summary>
+              <p className="mt-1 font-mono break-words">{error.message}</p>
+            </details>
+          )}
+          {onRetry && (
+            <button
+              onClick={onRetry}
+              className="mt-3 flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-red-700 dark:text-red-300 border border-red-200 dark:border-red-800 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors"
+            >
+              <RotateCcw className="h-4 w-4" />
+              Retry
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface BranchNavigatorProps {
+  branch?: BranchInfo;
+  onSwitch: (direction: -1 | 1) => void;
+  disabled: boolean;
+}
+
+const BranchNavigator: React.FC<BranchNavigatorProps> = ({ branch, onSwitch, disabled }) => {
+  if (!branch || branch.count < 2) return null;
+  const buttonClass = "p-1 rounded-full text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent";
+  return (
+    <div className="flex items-center text-xs text-gray-500 dark:text-gray-400 tabular-nums">
+      <button onClick={() => onSwitch(-1)} disabled={disabled || branch.index === 0} className={buttonClass} aria-label="Previous version">
+        <ChevronLeft className="h-4 w-4" />
+      </button>
+      <span>{branch.index + 1}/{branch.count}</span>
+      <button onClick={() => onSwitch(1)} disabled={disabled || branch.index === branch.count - 1} className={buttonClass} aria-label="Next version">
+        <ChevronRight className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+const CodeBlock: React.FC<any> = ({ inline, className, children, forceBlock }) => {
     const [isDarkMode, setIsDarkMode] = useState(false);
     useEffect(() => {
         const matcher = window.matchMedia('(prefers-color-scheme: dark)');
@@ -96,7 +196,7 @@ const CodeBlock: React.FC<any> = ({ inline, className, children }) => {
 
     const [copied, setCopied] = useState(false);
     const codeString = String(children).replace(/\n$/, '');
-    const isSingleLineBlock = !inline && !codeString.includes('\n');
+    const isSingleLineBlock = !inline && !forceBlock && !codeString.includes('\n');
     
     const match = /language-(\w+)/.exec(className || '');
     const language = match ? match[1] : 'text';
@@ -143,25 +243,134 @@ const CodeBlock: React.FC<any> = ({ inline, className, children }) => {
     );
   };
 
+const executionOutcomes: Record<string, { label: string; isError: boolean }> = {
+  OUTCOME_OK: { label: 'Output', isError: false },
+  OUTCOME_FAILED: { label: 'Execution failed', isError: true },
+  OUTCOME_DEADLINE_EXCEEDED: { label: 'Execution timed out', isError: true },
+};
+
+const CodeExecutionResultCard: React.FC<{ outcome: string; output: string }> = ({ outcome, output }) => {
+  const { label, isError } = executionOutcomes[outcome] ?? { label: 'Output', isError: false };
+  return (
+    <div className={`my-4 rounded-lg border overflow-hidden ${isError ? 'border-red-200 dark:border-red-900/60' : 'border-gray-200 dark:border-gray-700'}`}>
+      <div className={`flex items-center gap-2 px-4 py-1.5 text-xs font-semibold border-b ${isError ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 border-red-200 dark:border-red-900/60' : 'bg-gray-100 dark:bg-gray-900/50 text-gray-500 border-gray-200 dark:border-gray-700'}`}>
+        {isError ? <AlertTriangle className="h-3.5 w-3.5" /> : <Terminal className="h-3.5 w-3.5" />}
+        {label}
+      </div>
+      <pre className="px-4 py-3 text-sm font-mono whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-950 max-h-96 overflow-y-auto hover-scrollbar">{output || '(no output)'}</pre>
+    </div>
+  );
+};
+
+const MessagePartsView: React.FC<{ parts: MessagePart[]; attachments?: Attachment[]; markdownComponents: { [key: string]: React.ElementType } }> = ({ parts, attachments, markdownComponents }) => (
+  <div className="w-full text-gray-800 dark:text-gray-200 leading-relaxed">
+    {parts.map((part, index) => {
+      if (part.type === 'text') {
+        return (
+          <ReactMarkdown key={index} remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]} components={markdownComponents}>
+            {part.text}
+          </ReactMarkdown>
+        );
+      }
+      if (part.type === 'executableCode') {
+        return <CodeBlock key={index} className={`language-${part.language}`} forceBlock>{part.code}</CodeBlock>;
+      }
+      if (part.type === 'codeExecutionResult') {
+        return <CodeExecutionResultCard key={index} outcome={part.outcome} output={part.output} />;
+      }
+      const image = attachments?.find(att => att.id === part.attachmentId);
+      return image ? (
+        <img key={index} src={image.dataUrl} alt={image.name} className="my-4 max-h-96 rounded-lg object-contain border border-gray-200 dark:border-gray-700 bg-white" />
+      ) : null;
+    })}
+  </div>
+);
+
 interface ChatLogProps {
   messages: ChatMessage[];
   isLoading: boolean;
   onOpenProjectVersion: (project: Project) => void;
+  onRetryMessage: (messageId: string) => void;
+  onRegenerateMessage: (messageId: string) => void;
+  onSubmitToolResponse: (callId: string, response: unknown) => void;
+  onEditMessage: (messageId: string, newContent: string) => void;
+  branchInfo: Record<string, BranchInfo>;
+  onSwitchBranch: (messageId: string, direction: -1 | 1) => void;
+  scrollTargetMessageId: string | null;
+  onScrolledToMessage: () => void;
+  // Messages before this index are left out of the next request; null when everything is sent.
+  contextCutoffIndex: number | null;
+  contextStrategy: ContextStrategy;
+  contextSummary?: ContextSummary;
 }
 
-const ChatLog: React.FC<ChatLogProps> = ({ messages, isLoading, onOpenProjectVersion }) => {
+const ContextCutoffDivider: React.FC<{ strategy: ContextStrategy; summary?: ContextSummary }> = ({ strategy, summary }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const isSummarized = strategy === ContextStrategy.SUMMARIZE;
+  return (
+    <div className="text-xs text-gray-500 dark:text-gray-400" role="separator">
+      <div className="flex items-center gap-3">
+        <div className="flex-1 border-t border-dashed border-gray-300 dark:border-gray-600" />
+        {isSummarized && summary ? (
+          <button onClick={() => setIsExpanded(prev => !prev)} className="flex items-center gap-1 hover:text-gray-700 dark:hover:text-gray-200" aria-expanded={isExpanded}>
+            Earlier messages are sent as a summary
+            <ChevronDown className={`h-3.5 w-3.5 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+          </button>
+        ) : (
+          <span>{isSummarized ? 'Earlier messages will be summarized with the next message' : 'Earlier messages are not sent to the model'}</span>
+        )}
+        <div className="flex-1 border-t border-dashed border-gray-300 dark:border-gray-600" />
+      </div>
+      {isExpanded && summary && (
+        <p className="mt-2 p-3 bg-gray-50 dark:bg-gray-800/60 rounded-lg whitespace-pre-wrap text-gray-700 dark:text-gray-300">{summary.text}</p>
+      )}
+    </div>
+  );
+};
+
+const ChatLog: React.FC<ChatLogProps> = ({ messages, isLoading, onOpenProjectVersion, onRetryMessage, onRegenerateMessage, onSubmitToolResponse, onEditMessage, branchInfo, onSwitchBranch, scrollTargetMessageId, onScrolledToMessage, contextCutoffIndex, contextStrategy, contextSummary }) => {
   const endOfMessagesRef = useRef<HTMLDivElement>(null);
   const [copiedMessageIndex, setCopiedMessageIndex] = useState<number | null>(null);
   const [expandedReasoning, setExpandedReasoning] = useState<{ [key: number]: boolean }>({});
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
+  const startEditing = (msg: ChatMessage) => {
+    setEditingMessageId(msg.id);
+    setEditDraft(msg.content);
+  };
+
+  const submitEdit = (messageId: string) => {
+    if (!editDraft.trim() || isLoading) return;
+    onEditMessage(messageId, editDraft.trim());
+    setEditingMessageId(null);
+  };
 
   const toggleReasoning = (index: number) => {
     setExpandedReasoning(prev => ({ ...prev, [index]: !prev[index] }));
   };
 
   useEffect(() => {
+    if (scrollTargetMessageId) return; // A jump to a search result takes precedence.
     endOfMessagesRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  useEffect(() => {
+    if (!scrollTargetMessageId) return;
+    document.getElementById(`message-${scrollTargetMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(scrollTargetMessageId);
+    onScrolledToMessage();
+  }, [messages, scrollTargetMessageId]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  const highlightClass = (messageId: string) => messageId === highlightedMessageId ? 'ring-2 ring-yellow-300 dark:ring-yellow-500/50 rounded-xl transition-shadow' : '';
+
   const handleCopy = (content: string, index: number) => {
     navigator.clipboard.writeText(content);
     setCopiedMessageIndex(index);
@@ -190,133 +399,224 @@ const ChatLog: React.FC<ChatLogProps> = ({ messages, isLoading, onOpenProjectVer
     inlineMath: ({node, value, ...props}) => <span {...props} />,
   };
 
-  return (
-    <div className="py-6 pl-[22px] pr-3">
-      <div className="max-w-4xl mx-auto space-y-8">
-        {messages.map((msg, index) => {
-          const isLastMessage = index === messages.length - 1;
-          
-          if (msg.role === Role.MODEL) {
-            const hasAttachments = msg.attachments && msg.attachments.length > 0;
-            const hasImageAttachment = hasAttachments && msg.attachments!.some(att => att.mimeType.startsWith('image/'));
-            
-            return (
-                <div key={index}>
-                    {msg.reasoning && msg.reasoning.trim() && (
-                      <ReasoningCard
-                        reasoningText={msg.reasoning}
-                        isExpanded={!!expandedReasoning[index]}
-                        onToggle={() => toggleReasoning(index)}
-                        markdownComponents={markdownComponents}
-                      />
-                    )}
-
-                    {isLastMessage && isLoading && msg.isThinking ? (
-                        <div className="flex items-center space-x-2 p-3 text-gray-600 dark:text-gray-400">
-                           <LoadingDots />
-                           {msg.content && <div className="leading-relaxed"><ReactMarkdown remarkPlugins={[remarkGfm]} components={{ p: 'span' }}>{msg.content}</ReactMarkdown></div>}
-                        </div>
-                    ) : msg.content.trim() !== '' ? (
-                        <div className="w-full text-gray-800 dark:text-gray-200 leading-relaxed">
-                            <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]} components={markdownComponents}>
-                                {msg.content}
-                            </ReactMarkdown>
-                        </div>
-                    ) : null}
-
-
-                    {hasAttachments && (
-                        <div className="mt-4 flex flex-wrap gap-4">
-                            {msg.attachments!.map((att, attIndex) => (
-                                <div key={attIndex} className="relative group max-w-sm">
-                                  {att.mimeType.startsWith('image/') && (
-                                    <img src={att.dataUrl} alt={att.name} className="max-h-96 rounded-lg object-contain border border-gray-200 dark:border-gray-700" />
-                                  )}
-                                  {att.mimeType.startsWith('video/') && (
-                                    <video src={att.dataUrl} controls autoPlay muted loop className="max-h-96 rounded-lg object-contain border border-gray-200 dark:border-gray-700" />
-                                  )}
-                                  <a 
-                                      href={att.dataUrl} 
-                                      download={att.name}
-                                      className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center gap-2 px-3 py-1.5 bg-gray-900/60 text-white rounded-md text-sm hover:bg-gray-900/80 backdrop-blur-sm"
-                                      aria-label={`Download ${att.name}`}
-                                      data-tooltip-text="Download"
-                                      data-tooltip-position="top"
-                                  >
-                                     <Download className="h-4 w-4" />
-                                  </a>
-                                </div>
-                            ))}
-                        </div>
-                    )}
-
-                    {msg.groundingChunks && msg.groundingChunks.length > 0 && (
-                        <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
-                            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-400 mb-2 flex items-center gap-2">
-                                <img src="https://www.google.com/favicon.ico" alt="Google icon" className="w-4 h-4"/>
-                                Sources
-                            </h4>
-                            <div className="flex flex-wrap gap-2">
-                                {msg.groundingChunks.map((chunk: any, i: number) => (
-                                    <a
-                                        key={i}
-                                        href={chunk.web.uri}
-                                        target="_blank"
-                                        rel="noopener noreferrer"
-                                        className="text-xs bg-gray-100 dark:bg-gray-800 text-blue-600 dark:text-blue-400 px-2.5 py-1.5 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors block max-w-xs truncate"
-                                        title={chunk.web.title || chunk.web.uri}
-                                    >
-                                       {chunk.web.title || new URL(chunk.web.uri).hostname}
-                                    </a>
-                                ))}
-                            </div>
-                        </div>
-                    )}
+  const renderMessage = (msg: ChatMessage, index: number) => {
+    const isLastMessage = index === messages.length - 1;
+    
+    if (msg.role === Role.MODEL) {
+      // Images that belong to ordered parts are shown in place rather than in the gallery.
+      const orderedParts = [...(msg.toolTurns?.flatMap(turn => turn.parts ?? []) ?? []), ...(msg.parts ?? [])];
+      const inlineImageIds = new Set(orderedParts.flatMap(part => part.type === 'image' ? [part.attachmentId] : []));
+      const galleryAttachments = msg.attachments?.filter(att => !inlineImageIds.has(att.id)) ?? [];
+      const hasAttachments = galleryAttachments.length > 0;
+      const hasImageAttachment = hasAttachments && galleryAttachments.some(att => att.mimeType.startsWith('image/'));
+      // Code Interpreter replies are JSON too, but they are turned into project files instead.
+      const isStructuredReply = msg.generation?.config.responseMimeType === 'application/json' && !msg.projectFilesUpdate;
+      
+      return (
+          <div key={msg.id} id={`message-${msg.id}`} className={`scroll-mt-4 ${highlightClass(msg.id)}`}>
+              {msg.reasoning && msg.reasoning.trim() && (
+                <ReasoningCard
+                  reasoningText={msg.reasoning}
+                  isExpanded={!!expandedReasoning[index]}
+                  onToggle={() => toggleReasoning(index)}
+                  markdownComponents={markdownComponents}
+                />
+              )}
+
+              {msg.toolTurns?.map((turn, turnIndex) => (
+                <div key={turnIndex}>
+                  {turn.parts ? (
+                    <MessagePartsView parts={turn.parts} attachments={msg.attachments} markdownComponents={markdownComponents} />
+                  ) : turn.text.trim() && (
+                    <div className="w-full text-gray-800 dark:text-gray-200 leading-relaxed">
+                      <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]} components={markdownComponents}>
+                        {turn.text}
+                      </ReactMarkdown>
+                    </div>
+                  )}
+                  {turn.calls.map(call => (
+                    <ToolCallCard key={call.id} call={call} canRespond={isLoading && isLastMessage} onSubmitResponse={response => onSubmitToolResponse(call.id, response)} />
+                  ))}
+                </div>
+              ))}
 
-                    {msg.projectFilesUpdate && msg.project && (
-                      <ProjectFileCard project={msg.project} onOpen={() => onOpenProjectVersion(msg.project!)} />
-                    )}
+              {isLastMessage && isLoading && msg.isThinking ? (
+                  <div className="flex items-center space-x-2 p-3 text-gray-600 dark:text-gray-400">
+                     <LoadingDots />
+                     {msg.content && <div className="leading-relaxed"><ReactMarkdown remarkPlugins={[remarkGfm]} components={{ p: 'span' }}>{msg.content}</ReactMarkdown></div>}
+                  </div>
+              ) : isStructuredReply && msg.content.trim() !== '' ? (
+                  <StructuredOutputView content={msg.content} schema={msg.generation!.config.responseSchema} isStreaming={isLoading && isLastMessage} />
+              ) : msg.parts && msg.parts.length > 0 ? (
+                  <MessagePartsView parts={msg.parts} attachments={msg.attachments} markdownComponents={markdownComponents} />
+              ) : msg.content.trim() !== '' ? (
+                  <div className="w-full text-gray-800 dark:text-gray-200 leading-relaxed">
+                      <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]} components={markdownComponents}>
+                          {msg.content}
+                      </ReactMarkdown>
+                  </div>
+              ) : null}
 
-                    {!(isLoading && isLastMessage) && msg.content && !msg.projectFilesUpdate && !hasImageAttachment && (
-                        <div className="mt-2 flex items-center gap-2">
-                            <button
-                                onClick={() => handleCopy(msg.content, index)}
-                                className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-                                aria-label="Copy response"
-                                data-tooltip-text="Copy"
+              {msg.error && (
+                <MessageErrorCard error={msg.error} onRetry={isLoading ? undefined : () => onRetryMessage(msg.id)} />
+              )}
+
+              {hasAttachments && (
+                  <div className="mt-4 flex flex-wrap gap-4">
+                      {galleryAttachments.map((att, attIndex) => (
+                          <div key={attIndex} className="relative group max-w-sm">
+                            {att.mimeType.startsWith('image/') && (
+                              <img src={att.dataUrl} alt={att.name} className="max-h-96 rounded-lg object-contain border border-gray-200 dark:border-gray-700" />
+                            )}
+                            {att.mimeType.startsWith('video/') && (
+                              <video src={att.dataUrl} controls autoPlay muted loop className="max-h-96 rounded-lg object-contain border border-gray-200 dark:border-gray-700" />
+                            )}
+                            <a 
+                                href={att.dataUrl} 
+                                download={att.name}
+                                className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center gap-2 px-3 py-1.5 bg-gray-900/60 text-white rounded-md text-sm hover:bg-gray-900/80 backdrop-blur-sm"
+                                aria-label={`Download ${att.name}`}
+                                data-tooltip-text="Download"
                                 data-tooltip-position="top"
                             >
-                                {copiedMessageIndex === index ? <Check className="h-5 w-5 text-green-500" /> : <Copy className="h-5 w-5" />}
-                            </button>
-                        </div>
-                    )}
-                </div>
-            );
-          }
-          
-          return (
-            <div key={index} className="flex justify-end">
-              <div className="rounded-xl rounded-tr-[0.15rem] px-4 py-3 max-w-[80%] bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200">
-                {msg.attachments && msg.attachments.length > 0 && (
-                  <div className="flex flex-wrap gap-2 mb-2">
-                    {msg.attachments.map((file, fileIndex) => (
-                      <div key={fileIndex} className="relative">
-                        {file.mimeType.startsWith('image/') ? (
-                          <img src={file.dataUrl} alt={file.name} className="max-w-xs max-h-48 rounded-lg object-contain" />
-                        ) : (
-                          <div className="p-2 bg-gray-200 dark:bg-gray-700 rounded-lg text-xs">
-                            {file.name}
+                               <Download className="h-4 w-4" />
+                            </a>
                           </div>
-                        )}
+                      ))}
+                  </div>
+              )}
+
+              {msg.groundingChunks && msg.groundingChunks.length > 0 && (
+                  <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+                      <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-400 mb-2 flex items-center gap-2">
+                          <img src="https://www.google.com/favicon.ico" alt="Google icon" className="w-4 h-4"/>
+                          Sources
+                      </h4>
+                      <div className="flex flex-wrap gap-2">
+                          {msg.groundingChunks.map((chunk: any, i: number) => (
+                              <a
+                                  key={i}
+                                  href={chunk.web.uri}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-xs bg-gray-100 dark:bg-gray-800 text-blue-600 dark:text-blue-400 px-2.5 py-1.5 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors block max-w-xs truncate"
+                                  title={chunk.web.title || chunk.web.uri}
+                              >
+                                 {chunk.web.title || new URL(chunk.web.uri).hostname}
+                              </a>
+                          ))}
                       </div>
-                    ))}
                   </div>
-                )}
-                {msg.content && <div className="whitespace-pre-wrap">{msg.content}</div>}
-              </div>
+              )}
+
+              {msg.projectFilesUpdate && msg.project && (
+                <ProjectFileCard project={msg.project} onOpen={() => onOpenProjectVersion(msg.project!)} />
+              )}
+
+              {!(isLoading && isLastMessage) && (
+                  <div className="mt-2 flex items-center gap-2">
+                      <BranchNavigator branch={branchInfo[msg.id]} onSwitch={(direction) => onSwitchBranch(msg.id, direction)} disabled={isLoading} />
+                      {msg.content && !msg.projectFilesUpdate && !hasImageAttachment && (
+                        <button
+                            onClick={() => handleCopy(msg.content, index)}
+                            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                            aria-label="Copy response"
+                            data-tooltip-text="Copy"
+                            data-tooltip-position="top"
+                        >
+                            {copiedMessageIndex === index ? <Check className="h-5 w-5 text-green-500" /> : <Copy className="h-5 w-5" />}
+                        </button>
+                      )}
+                      {!msg.error && !isLoading && (
+                        <button
+                            onClick={() => onRegenerateMessage(msg.id)}
+                            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                            aria-label="Regenerate response"
+                            data-tooltip-text="Regenerate"
+                            data-tooltip-position="top"
+                        >
+                            <RefreshCw className="h-5 w-5" />
+                        </button>
+                      )}
+                      {msg.generation && <GenerationDetailsPopover generation={msg.generation} usage={msg.usage} />}
+                  </div>
+              )}
+          </div>
+      );
+    }
+    
+    if (editingMessageId === msg.id) {
+      return (
+        <div key={msg.id} id={`message-${msg.id}`} className="flex justify-end">
+          <div className="w-full max-w-[80%] rounded-xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 p-3">
+            <textarea
+              value={editDraft}
+              onChange={e => setEditDraft(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submitEdit(msg.id); }
+                if (e.key === 'Escape') setEditingMessageId(null);
+              }}
+              rows={Math.min(10, Math.max(2, editDraft.split('\n').length))}
+              className="w-full bg-transparent resize-none focus:outline-none text-gray-800 dark:text-gray-200"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2 mt-2">
+              <button onClick={() => setEditingMessageId(null)} className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700">Cancel</button>
+              <button onClick={() => submitEdit(msg.id)} disabled={!editDraft.trim() || isLoading} className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-300 dark:disabled:bg-blue-800 disabled:cursor-not-allowed">Send</button>
             </div>
-          );
-        })}
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div key={msg.id} id={`message-${msg.id}`} className="group flex flex-col items-end">
+        <div className={`rounded-xl rounded-tr-[0.15rem] px-4 py-3 max-w-[80%] bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200 ${highlightClass(msg.id)}`}>
+          {msg.attachments && msg.attachments.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-2">
+              {msg.attachments.map((file, fileIndex) => (
+                <div key={fileIndex} className="relative">
+                  {file.mimeType.startsWith('image/') ? (
+                    <img src={file.dataUrl} alt={file.name} className="max-w-xs max-h-48 rounded-lg object-contain" />
+                  ) : (
+                    <div className="p-2 bg-gray-200 dark:bg-gray-700 rounded-lg text-xs">
+                      {file.name}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          {msg.content && <div className="whitespace-pre-wrap">{msg.content}</div>}
+        </div>
+        <div className="mt-1 flex items-center gap-1">
+          <BranchNavigator branch={branchInfo[msg.id]} onSwitch={(direction) => onSwitchBranch(msg.id, direction)} disabled={isLoading} />
+          {!isLoading && (
+            <button
+                onClick={() => startEditing(msg)}
+                className="opacity-0 group-hover:opacity-100 focus:opacity-100 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-opacity"
+                aria-label="Edit message"
+                data-tooltip-text="Edit"
+                data-tooltip-position="top"
+            >
+                <Pencil className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="py-6 pl-[22px] pr-3">
+      <div className="max-w-4xl mx-auto space-y-8">
+        {messages.map((msg, index) => (
+          <React.Fragment key={msg.id}>
+            {index === contextCutoffIndex && <ContextCutoffDivider strategy={contextStrategy} summary={contextSummary} />}
+            {renderMessage(msg, index)}
+          </React.Fragment>
+        ))}
+        {contextCutoffIndex === messages.length && <ContextCutoffDivider strategy={contextStrategy} summary={contextSummary} />}
         <div ref={endOfMessagesRef} />
       </div>
     </div>
@@ -326,10 +626,19 @@ const ChatLog: React.FC<ChatLogProps> = ({ messages, isLoading, onOpenProjectVer
 export const ChatArea: React.FC<ChatAreaProps> = ({
   messages,
   onSendMessage,
+  onRetryMessage,
+  onRegenerateMessage,
+  onSubmitToolResponse,
+  onEditMessage,
+  branchInfo,
+  onSwitchBranch,
+  scrollTargetMessageId,
+  onScrolledToMessage,
   isLoading,
   onStopGeneration,
   isCodeInterpreterActive,
   onToggleCodeInterpreter,
+  onImportProject,
   isDeepResearchActive,
   onToggleDeepResearch,
   isImageToolActive,
@@ -343,11 +652,23 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
   isMobile,
   onStartLiveConversation,
   isAttachmentDisabled,
+  promptTemplates,
+  onOpenPromptLibrary,
+  tokenCount,
+  modelMaxTokens,
+  contextCutoffIndex,
+  contextStrategy,
+  contextSummary,
+  comparePanel,
 }) => {
   const [input, setInput] = useState('');
+  const [paletteIndex, setPaletteIndex] = useState(0);
+  const [isPaletteDismissed, setIsPaletteDismissed] = useState(false);
+  const [pendingTemplate, setPendingTemplate] = useState<PromptEntry | null>(null);
   const [attachedFiles, setAttachedFiles] = useState<Attachment[]>([]);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const dragCounter = useRef(0);
   const [isToolsMenuOpen, setIsToolsMenuOpen] = useState(false);
@@ -379,8 +700,7 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
     }
   };
 
-  const handleTextareaInput = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    setInput(e.target.value);
+  const resizeTextarea = () => {
     const textarea = textareaRef.current;
     if (textarea) {
         textarea.style.height = 'auto';
@@ -392,12 +712,76 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
     }
   };
 
+  const handleTextareaInput = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setInput(e.target.value);
+    setPaletteIndex(0);
+    if (!e.target.value.startsWith('/')) setIsPaletteDismissed(false);
+    resizeTextarea();
+  };
+
+  // The palette opens while the input is a single-line "/query".
+  const paletteQuery = input.startsWith('/') && !input.includes('\n') && !isPaletteDismissed ? input.slice(1) : null;
+  const paletteTemplates = useMemo(
+    () => paletteQuery === null ? [] : filterPrompts(promptTemplates, paletteQuery).slice(0, MAX_PALETTE_RESULTS),
+    [promptTemplates, paletteQuery]
+  );
+  const isPaletteOpen = paletteQuery !== null && !pendingTemplate;
+  const contextUsage = modelMaxTokens > 0 ? tokenCount / modelMaxTokens : 0;
+
+  const insertPromptText = (text: string) => {
+    setInput(text);
+    setPendingTemplate(null);
+    resizeTextarea();
+    textareaRef.current?.focus();
+  };
+
+  const handleSelectTemplate = (template: PromptEntry) => {
+    if (extractVariables(template.content).length > 0) {
+      setPendingTemplate(template);
+    } else {
+      insertPromptText(template.content);
+    }
+  };
+
+  const handleOpenPromptLibrary = () => {
+    setIsPaletteDismissed(true);
+    onOpenPromptLibrary();
+  };
+
+  const handleTextareaKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (isPaletteOpen) {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setIsPaletteDismissed(true);
+        return;
+      }
+      if (paletteTemplates.length > 0) {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault();
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          setPaletteIndex(prev => (prev + step + paletteTemplates.length) % paletteTemplates.length);
+          return;
+        }
+        if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+          e.preventDefault();
+          handleSelectTemplate(paletteTemplates[Math.min(paletteIndex, paletteTemplates.length - 1)]);
+          return;
+        }
+      }
+    }
+    if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        handleSubmit(e);
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (input.trim() || attachedFiles.length > 0) {
       onSendMessage(input.trim(), attachedFiles);
       setInput('');
       setAttachedFiles([]);
+      setIsPaletteDismissed(false);
       if (textareaRef.current) {
         textareaRef.current.style.height = 'auto';
       }
@@ -417,6 +801,7 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
         const dataUrl = loadEvent.target?.result as string;
         if (dataUrl) {
           setAttachedFiles(prev => [...prev, {
+            id: createAttachmentId(),
             name: file.name,
             mimeType: file.type,
             dataUrl: dataUrl
@@ -644,13 +1029,24 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
     <div className="flex-1 flex flex-col bg-white dark:bg-gray-950 h-full overflow-hidden">
       <div className="relative flex-1">
         <div className="absolute inset-0 overflow-y-auto [scrollbar-gutter:stable] hover-scrollbar">
-            {messages.length === 0 && !isLoading ? (
+            {comparePanel ? comparePanel : messages.length === 0 && !isLoading ? (
             <WelcomeState />
             ) : (
             <ChatLog
                 messages={messages}
                 isLoading={isLoading}
                 onOpenProjectVersion={onOpenProjectVersion}
+                onRetryMessage={onRetryMessage}
+                onRegenerateMessage={onRegenerateMessage}
+                onSubmitToolResponse={onSubmitToolResponse}
+                onEditMessage={onEditMessage}
+                branchInfo={branchInfo}
+                onSwitchBranch={onSwitchBranch}
+                scrollTargetMessageId={scrollTargetMessageId}
+                onScrolledToMessage={onScrolledToMessage}
+                contextCutoffIndex={contextCutoffIndex}
+                contextStrategy={contextStrategy}
+                contextSummary={contextSummary}
             />
             )}
         </div>
@@ -675,6 +1071,12 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
                   >
                       <SquareCode className="h-5 w-5" /> Code Interpreter
                   </button>
+                  <button
+                      onClick={() => { projectInputRef.current?.click(); setIsToolsBottomSheetOpen(false); }}
+                      className="w-full text-left flex items-center gap-3 px-4 py-3 text-base rounded-lg transition-colors text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+                  >
+                      <FileArchive className="h-5 w-5" /> Import Project
+                  </button>
                   <button
                       onClick={() => { onToggleDeepResearch(); setIsToolsBottomSheetOpen(false); }}
                       className={`w-full text-left flex items-center gap-3 px-4 py-3 text-base rounded-lg transition-colors ${isDeepResearchActive ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
@@ -709,11 +1111,39 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
             onDrop={handleDrop}
             className="relative"
           >
+            {isPaletteOpen && (
+              <PromptCommandPalette
+                templates={paletteTemplates}
+                highlightedIndex={paletteIndex}
+                hasQuery={paletteQuery !== ''}
+                onSelect={handleSelectTemplate}
+                onHighlight={setPaletteIndex}
+                onOpenLibrary={handleOpenPromptLibrary}
+              />
+            )}
+            {pendingTemplate && (
+              <TemplateVariablesForm
+                key={pendingTemplate.id}
+                template={pendingTemplate}
+                onInsert={insertPromptText}
+                onCancel={() => { setPendingTemplate(null); textareaRef.current?.focus(); }}
+              />
+            )}
             {isDragging && (
               <div className="absolute inset-0 z-10 bg-blue-100/75 dark:bg-blue-900/75 border-2 border-dashed border-blue-500 rounded-lg flex items-center justify-center pointer-events-none">
                 <span className="text-blue-600 dark:text-blue-300 font-semibold text-lg">Drop files to attach</span>
               </div>
             )}
+            {contextUsage >= CONTEXT_WARNING_RATIO && (
+              <div className={`mb-2 flex items-center gap-2 px-3 py-2 rounded-lg text-xs ${contextUsage >= 1 ? 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300' : 'bg-amber-50 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300'}`} role="status">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                <span>
+                  {contextUsage >= 1
+                    ? `This chat (${tokenCount.toLocaleString()} tokens) exceeds the model's ${modelMaxTokens.toLocaleString()}-token context window. Start a new chat or remove earlier messages.`
+                    : `This chat uses ${Math.round(contextUsage * 100)}% of the model's ${modelMaxTokens.toLocaleString()}-token context window.`}
+                </span>
+              </div>
+            )}
             <div className="w-full border border-gray-200 dark:border-gray-700 rounded-lg flex flex-col focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent transition-all duration-200">
                 {attachedFiles.length > 0 && (
                   <div className="px-4 pt-3 flex flex-wrap gap-2">
@@ -745,12 +1175,7 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
                     rows={1}
                     value={input}
                     onChange={handleTextareaInput}
-                    onKeyDown={(e) => {
-                        if (e.key === 'Enter' && !e.shiftKey) {
-                            e.preventDefault();
-                            handleSubmit(e);
-                        }
-                    }}
+                    onKeyDown={handleTextareaKeyDown}
                     placeholder={placeholder}
                     className={`w-full resize-none focus:outline-none bg-transparent text-sm hover-scrollbar [scrollbar-gutter:stable] text-gray-800 dark:text-gray-200 placeholder:text-gray-400 dark:placeholder:text-gray-500 ${attachedFiles.length > 0 ? 'px-4 pt-2 pb-4' : 'p-4'}`}
                     disabled={isLoading || isVoiceRecording || isStreamingText}
@@ -766,6 +1191,13 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
                         className="hidden"
                         accept="image/*,text/*,application/pdf,application/json,application/javascript,text/html,text/css,text/markdown"
                       />
+                      <input
+                        type="file"
+                        ref={projectInputRef}
+                        onChange={e => { const file = e.target.files?.[0]; e.target.value = ''; if (file) onImportProject(file); }}
+                        className="hidden"
+                        accept=".zip,application/zip"
+                      />
                       <button 
                         type="button" 
                         onClick={handleAttachClick} 
@@ -805,6 +1237,15 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
                                 >
                                     <SquareCode className="h-5 w-5 flex-shrink-0" />
                                     <span>Code Interpreter</span>
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => { projectInputRef.current?.click(); setIsToolsMenuOpen(false); }}
+                                  className="flex items-center gap-2 whitespace-nowrap px-3 py-2 rounded-lg border shadow-sm transition-colors text-sm font-medium bg-white text-gray-700 border-gray-200 hover:bg-gray-50 dark:bg-gray-950 dark:text-gray-300 dark:border-gray-700 dark:hover:bg-gray-800"
+                                  role="menuitem"
+                                >
+                                    <FileArchive className="h-5 w-5 flex-shrink-0" />
+                                    <span>Import Project</span>
                                 </button>
                                  <button
                                   type="button"
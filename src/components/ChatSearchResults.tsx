@@ -0,0 +1,68 @@
+import React from 'react';
+import { MessageSquare, Bot, Brain, Paperclip, FileCode, Type as TitleIcon } from 'lucide-react';
+import { SearchMatchKind, SearchResult, toSearchTerms } from '../lib/chatSearch';
+
+interface ChatSearchResultsProps {
+  query: string;
+  results: SearchResult[];
+  onSelect: (result: SearchResult) => void;
+}
+
+const kindDetails: Record<SearchMatchKind, { label: string; Icon: React.ElementType }> = {
+  title: { label: 'Title', Icon: TitleIcon },
+  user: { label: 'You', Icon: MessageSquare },
+  model: { label: 'Response', Icon: Bot },
+  reasoning: { label: 'Reasoning', Icon: Brain },
+  attachment: { label: 'Attachment', Icon: Paperclip },
+  file: { label: 'Project file', Icon: FileCode },
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const HighlightedSnippet: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => {
+  if (terms.length === 0) return <>{text}</>;
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  // With a capturing group, split() puts the matches at odd indexes.
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1
+          ? <mark key={index} className="bg-yellow-200 dark:bg-yellow-500/30 text-inherit rounded-sm px-0.5">{part}</mark>
+          : <React.Fragment key={index}>{part}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+export const ChatSearchResults: React.FC<ChatSearchResultsProps> = ({ query, results, onSelect }) => {
+  const terms = toSearchTerms(query);
+
+  if (results.length === 0) {
+    return <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">No matches for "{query.trim()}".</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {results.map(result => {
+        const { label, Icon } = kindDetails[result.kind];
+        return (
+          <button
+            key={result.key}
+            onClick={() => onSelect(result)}
+            className="w-full text-left px-3 py-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors"
+          >
+            <div className="flex items-center gap-1.5 text-xs text-gray-400 dark:text-gray-500 mb-0.5 min-w-0">
+              <Icon className="w-3 h-3 flex-shrink-0" />
+              <span className="flex-shrink-0">{label}</span>
+              <span className="flex-shrink-0">·</span>
+              <span className="truncate">{result.kind === 'file' ? result.filePath : result.chatTitle}</span>
+            </div>
+            <p className="text-sm text-gray-700 dark:text-gray-300 line-clamp-3 break-words">
+              <HighlightedSnippet text={result.snippet} terms={terms} />
+            </p>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
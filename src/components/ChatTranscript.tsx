@@ -0,0 +1,106 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { GroundingChunk } from '@google/genai';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { coldarkCold } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { Attachment, ChatMessage, Role } from '../types';
+import { partsToMarkdown } from '../lib/messageParts';
+
+// Static rendering of a conversation for the HTML and print exports. It mirrors ChatLog,
+// but uses plain elements styled by the exported document instead of Tailwind classes.
+
+interface ChatTranscriptProps {
+  title: string;
+  messages: ChatMessage[];
+  exportedAt: Date;
+}
+
+const TranscriptCode: React.FC<{ className?: string; children?: React.ReactNode }> = ({ className, children }) => {
+  const codeString = String(children).replace(/\n$/, '');
+  const match = /language-(\w+)/.exec(className || '');
+  if (!match && !codeString.includes('\n')) {
+    return <code className="inline-code">{children}</code>;
+  }
+  const language = match ? match[1] : 'text';
+  return (
+    <div className="code-block">
+      <div className="code-language">{language.toUpperCase()}</div>
+      <SyntaxHighlighter style={coldarkCold} language={language} PreTag="div" customStyle={{ padding: '1rem', margin: 0, background: 'transparent', fontSize: '0.875rem' }}>
+        {codeString}
+      </SyntaxHighlighter>
+    </div>
+  );
+};
+
+const markdownComponents = { code: TranscriptCode };
+
+const Markdown: React.FC<{ children: string }> = ({ children }) => (
+  <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]} components={markdownComponents}>
+    {children}
+  </ReactMarkdown>
+);
+
+const TranscriptAttachment: React.FC<{ attachment: Attachment }> = ({ attachment }) => {
+  if (attachment.mimeType.startsWith('image/')) {
+    return <img src={attachment.dataUrl} alt={attachment.name} className="attachment-media" />;
+  }
+  if (attachment.mimeType.startsWith('video/')) {
+    return <video src={attachment.dataUrl} controls className="attachment-media" />;
+  }
+  return <a href={attachment.dataUrl} download={attachment.name} className="attachment-file">{attachment.name}</a>;
+};
+
+// Grounding chunks can come from a retrieval store instead of the web; only web results have a link to list.
+const TranscriptSources: React.FC<{ chunks: GroundingChunk[] }> = ({ chunks }) => {
+  const sources = chunks.flatMap(chunk => chunk.web?.uri ? [{ uri: chunk.web.uri, title: chunk.web.title }] : []);
+  if (sources.length === 0) return null;
+  return (
+    <div className="sources">
+      <h4>Sources</h4>
+      <ul>
+        {sources.map((source, i) => (
+          <li key={i}><a href={source.uri}>{source.title || source.uri}</a></li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export const ChatTranscript: React.FC<ChatTranscriptProps> = ({ title, messages, exportedAt }) => (
+  <main className="transcript">
+    <header>
+      <h1>{title}</h1>
+      <p className="meta">Exported from REXPro AI on {exportedAt.toLocaleString()}</p>
+    </header>
+    {messages.map(msg => (
+      <section key={msg.id} className={`message ${msg.role === Role.USER ? 'user' : 'model'}`}>
+        <div className="role">{msg.role === Role.USER ? 'You' : 'Model'}</div>
+        {msg.reasoning && msg.reasoning.trim() && (
+          <details className="reasoning" open>
+            <summary>Thinking</summary>
+            <Markdown>{msg.reasoning}</Markdown>
+          </details>
+        )}
+        {msg.parts && msg.parts.length > 0 ? (
+          // Images stay in the attachment list below; data URLs are not kept in rendered markdown.
+          <Markdown>{partsToMarkdown(msg.parts)}</Markdown>
+        ) : msg.content.trim() !== '' && (
+          msg.role === Role.USER ? <div className="user-text">{msg.content}</div> : <Markdown>{msg.content}</Markdown>
+        )}
+        {msg.error && <p className="error">Error: {msg.error.message}</p>}
+        {msg.attachments && msg.attachments.length > 0 && (
+          <div className="attachments">
+            {msg.attachments.map(att => <TranscriptAttachment key={att.id} attachment={att} />)}
+          </div>
+        )}
+        {msg.groundingChunks && <TranscriptSources chunks={msg.groundingChunks} />}
+        {msg.projectFilesUpdate && msg.project && (
+          <p className="project">Code project: {msg.project.name}</p>
+        )}
+      </section>
+    ))}
+  </main>
+);
@@ -1,7 +1,15 @@
 import React, { useState, useMemo, useRef, useCallback, useEffect } from 'react';
-import { X, Code, Eye, RefreshCw, RotateCcw, RotateCw, SquareTerminal, Smartphone, Expand, Shrink, Play, Loader2 } from 'lucide-react';
+import { X, Code, Eye, RefreshCw, RotateCcw, RotateCw, SquareTerminal, Smartphone, Expand, Shrink, Play, Loader2, PanelLeft, FileArchive, FileQuestion } from 'lucide-react';
 import Editor, { OnMount } from '@monaco-editor/react';
-import { Project, FileSystemNode } from '../types';
+import { Project, ProjectReview } from '../types';
+import { FileTree, baseName, flattenFiles, getLanguageFromPath, getNode, isWithin, remapPath } from '../lib/fileTree';
+import { FileExplorer } from './FileExplorer';
+import { downloadProjectZip } from '../services/projectArchiveService';
+import { LineChange } from '../lib/projectChanges';
+import { ChangeReview } from './ChangeReview';
+import { buildPreviewHtml } from '../lib/previewBundler';
+import { ConsoleEntry, MAX_CONSOLE_ENTRIES, PREVIEW_CONSOLE_SCRIPT } from '../lib/previewConsole';
+import { PreviewConsole } from './PreviewConsole';
 
 declare global {
     interface Window {
@@ -9,43 +17,17 @@ declare global {
     }
 }
 
-export interface StreamingTarget {
-    filePath: string;
-    code: string;
-}
-
-const flattenFiles = (nodes: { [key: string]: FileSystemNode }, path = ''): { [key: string]: string } => {
-    let flat: {[key: string]: string} = {};
-    for (const key in nodes) {
-        const newPath = path ? `${path}/${key}` : key;
-        const node = nodes[key];
-        if (typeof node.content === 'string') {
-            flat[newPath] = node.content;
-        }
-        if (node.children) {
-            Object.assign(flat, flattenFiles(node.children, newPath));
-        }
-    }
-    return flat;
+const fileTypeOf = (path: string): 'python' | 'web' | 'unsupported' => {
+    if (!path) return 'unsupported';
+    if (path.endsWith('.py')) return 'python';
+    if (['.html', '.tsx', '.jsx', '.css', '.js', '.ts'].some(ext => path.endsWith(ext))) return 'web';
+    return 'unsupported';
 };
 
-const findNode = (files: { [key: string]: FileSystemNode }, path: string): { parent: { [key: string]: FileSystemNode } | null, key: string, node: FileSystemNode } | null => {
-    if (!path) return null;
-    const parts = path.split('/');
-    let current: any = { children: files };
-    for (let i = 0; i < parts.length; i++) {
-        const part = parts[i];
-        
-        if (!current.children || !current.children[part]) return null;
-        if (i === parts.length - 1) {
-            return { parent: current.children, key: part, node: current.children[part] };
-        }
-        current = current.children[part];
-    }
-    return null;
+const IMAGE_MIME_TYPES: { [extension: string]: string } = {
+    png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp', ico: 'image/x-icon', bmp: 'image/bmp',
 };
 
-
 interface CodeInterpreterPanelProps {
   onClose: () => void;
   // FIX: Add isMobile to the props interface to match its usage in App.tsx.
@@ -53,42 +35,69 @@ interface CodeInterpreterPanelProps {
   isDarkMode: boolean;
   project: Project | undefined;
   onProjectChange: (project: Project) => void;
+  // Opened in a tab whenever it changes, e.g. when a reply updates a file.
   activeFilePath: string;
-  streamingTarget: StreamingTarget | null;
-  onStreamComplete: () => void;
+  // Changes from the last reply that are waiting to be accepted or rejected.
+  review: ProjectReview | undefined;
+  onReviewHunk: (path: string, hunk: LineChange, accept: boolean) => void;
+  onResolveChanges: (paths: string[], accept: boolean) => void;
   isWidePreview: boolean;
   onToggleWidePreview: () => void;
+  // Replaces the chat's project with the contents of a ZIP archive.
+  onImportProject: (file: File) => void;
 }
 
 const CodeInterpreterPanel: React.FC<CodeInterpreterPanelProps> = ({ 
     onClose, isDarkMode, project, onProjectChange,
-    activeFilePath, streamingTarget, onStreamComplete,
-    isWidePreview, onToggleWidePreview
+    activeFilePath, review, onReviewHunk, onResolveChanges,
+    isWidePreview, onToggleWidePreview, onImportProject
 }) => {
   const [activeTab, setActiveTab] = useState<'preview' | 'code' | 'output'>('preview');
   const [previewKey, setPreviewKey] = useState(0);
   const debounceTimeout = useRef<number | null>(null);
   const [isConsoleOpen, setIsConsoleOpen] = useState(true);
   const iframeRef = useRef<HTMLIFrameElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
   const editorRef = useRef<any>(null);
-  const [consoleError, setConsoleError] = useState<{ message: string; stack?: string } | null>(null);
-  const [isStreaming, setIsStreaming] = useState(false);
+  const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
+  const nextEntryIdRef = useRef(0);
+  const pendingEntriesRef = useRef<ConsoleEntry[]>([]);
+  const flushFrameRef = useRef<number | null>(null);
+  // REPL evaluations still waiting for a reply. Replies echo the id, so a late one from a cleared console is dropped.
+  const pendingEvalIdsRef = useRef<Set<number>>(new Set());
+  const nextEvalIdRef = useRef(0);
   const [displayedCode, setDisplayedCode] = useState('');
   const [isPreviewMobile, setIsPreviewMobile] = useState(false);
   
   // Python execution state
+  const [openFiles, setOpenFiles] = useState<string[]>(activeFilePath ? [activeFilePath] : []);
+  const [currentFile, setCurrentFile] = useState(activeFilePath);
+  const [isExplorerOpen, setIsExplorerOpen] = useState(true);
+
   const [pyodide, setPyodide] = useState<any>(null);
   const [isPyodideLoading, setIsPyodideLoading] = useState(false);
   const [consoleOutput, setConsoleOutput] = useState<string[]>([]);
   const [isPythonRunning, setIsPythonRunning] = useState(false);
 
 
-  const fileType = useMemo(() => {
-    if (!activeFilePath) return 'unsupported';
-    if (activeFilePath.endsWith('.py')) return 'python';
-    if (['.html', '.tsx', '.jsx', '.css', '.js', '.ts'].some(ext => activeFilePath.endsWith(ext))) return 'web';
-    return 'unsupported';
-  }, [activeFilePath]);
+  const openFile = useCallback((path: string) => {
+    setOpenFiles(prev => prev.includes(path) ? prev : [...prev, path]);
+    setCurrentFile(path);
+  }, []);
+
+  // Automatically switch tabs when the active file changes
+  useEffect(() => {
+    if (!activeFilePath) return;
+    openFile(activeFilePath);
+    const type = fileTypeOf(activeFilePath);
+    if (type === 'python') {
+      setActiveTab('code');
+    } else if (type === 'web') {
+      setActiveTab('preview');
+    }
+  }, [activeFilePath, openFile]);
+
+  const fileType = useMemo(() => fileTypeOf(currentFile), [currentFile]);
 
   useEffect(() => {
     const loadPyodide = async () => {
@@ -112,19 +121,15 @@ const CodeInterpreterPanel: React.FC<CodeInterpreterPanelProps> = ({
     loadPyodide();
   }, [pyodide, isPyodideLoading]);
 
-  // Automatically switch tabs when the active file changes
+  // Fall back to the code view when the current file has no preview or output.
   useEffect(() => {
-    if (fileType === 'python') {
-      setActiveTab('code');
-    } else if (fileType === 'web') {
-      setActiveTab('preview');
-    }
-  }, [activeFilePath, fileType]);
+    if ((activeTab === 'preview' && fileType !== 'web') || (activeTab === 'output' && fileType !== 'python')) setActiveTab('code');
+  }, [activeTab, fileType]);
 
   const handleRunPython = async () => {
       if (!pyodide || isPythonRunning) return;
       setIsPythonRunning(true);
-      setConsoleOutput([`$ python ${activeFilePath}`]);
+      setConsoleOutput([`$ python ${currentFile}`]);
       setActiveTab('output');
       try {
           let output = '';
@@ -175,73 +180,120 @@ const CodeInterpreterPanel: React.FC<CodeInterpreterPanelProps> = ({
   };
   
   const activeFileContent = useMemo(() => {
-      if (!project || !activeFilePath) return '';
+      if (!project || !currentFile) return '';
       const flat = flattenFiles(project.files);
-      return flat[activeFilePath] ?? '';
-  }, [project, activeFilePath]);
+      return flat[currentFile] ?? '';
+  }, [project, currentFile]);
+
+  const handleFilesChange = (files: FileTree) => {
+    if (project) onProjectChange({ ...project, files });
+  };
+
+  const handlePathChange = (from: string, to: string) => {
+    setOpenFiles(prev => prev.map(path => remapPath(path, from, to)));
+    setCurrentFile(prev => remapPath(prev, from, to));
+  };
 
+  const closeFile = (path: string) => {
+    const remaining = openFiles.filter(openPath => openPath !== path);
+    setOpenFiles(remaining);
+    if (currentFile === path) setCurrentFile(remaining[Math.max(0, openFiles.indexOf(path) - 1)] ?? '');
+  };
+
+  const handlePathDelete = (deletedPath: string) => {
+    const remaining = openFiles.filter(path => !isWithin(path, deletedPath));
+    setOpenFiles(remaining);
+    if (isWithin(currentFile, deletedPath)) setCurrentFile(remaining[remaining.length - 1] ?? '');
+  };
+
+  // Tabs of files removed outside the explorer, e.g. by an accepted change, are closed too.
   useEffect(() => {
-    setDisplayedCode(activeFileContent);
-  }, [activeFileContent]);
+    if (!project) return;
+    setOpenFiles(prev => prev.every(path => getNode(project.files, path)) ? prev : prev.filter(path => getNode(project.files, path)));
+    setCurrentFile(prev => prev && !getNode(project.files, prev) ? '' : prev);
+  }, [project]);
+
+  const handleDownloadArchive = () => {
+    if (!project) return;
+    downloadProjectZip(project).catch(error => {
+      console.error("Failed to download project", error);
+      alert(error instanceof Error ? error.message : "Failed to download this project.");
+    });
+  };
 
   useEffect(() => {
-    if (streamingTarget) {
-        setIsStreaming(true);
-        setActiveTab('code');
-
-        const targetCode = streamingTarget.code;
-        let currentIndex = 0;
-        const streamInterval = setInterval(() => {
-            if (currentIndex >= targetCode.length) {
-                clearInterval(streamInterval);
-                setIsStreaming(false);
-                onStreamComplete();
-                setTimeout(() => {
-                    editorRef.current?.getAction('editor.action.formatDocument').run();
-                }, 300);
-            } else {
-                const chunkSize = Math.max(25, Math.floor(targetCode.length / 100));
-                currentIndex = Math.min(currentIndex + chunkSize, targetCode.length);
-                const nextChunk = targetCode.substring(0, currentIndex);
-                setDisplayedCode(nextChunk);
-            }
-        }, 15);
+    setDisplayedCode(activeFileContent);
+  }, [activeFileContent]);
 
-        return () => clearInterval(streamInterval);
-    }
-  }, [streamingTarget, onStreamComplete]);
 
 
   const handleRefresh = useCallback(() => { 
-    setConsoleError(null);
     setPreviewKey(prev => prev + 1) 
   }, []);
 
+  // A page that logs in a loop would otherwise re-render the panel for every message, so entries are
+  // collected and added once per frame.
+  const addConsoleEntry = useCallback((entry: Omit<ConsoleEntry, 'id'>) => {
+    pendingEntriesRef.current.push({ ...entry, id: nextEntryIdRef.current++ });
+    if (entry.level === 'error') setIsConsoleOpen(true);
+    if (flushFrameRef.current !== null) return;
+    flushFrameRef.current = requestAnimationFrame(() => {
+      flushFrameRef.current = null;
+      const entries = pendingEntriesRef.current;
+      pendingEntriesRef.current = [];
+      setConsoleEntries(prev => [...prev, ...entries].slice(-MAX_CONSOLE_ENTRIES));
+    });
+  }, []);
+
+  const clearConsole = useCallback(() => {
+    if (flushFrameRef.current !== null) cancelAnimationFrame(flushFrameRef.current);
+    flushFrameRef.current = null;
+    pendingEntriesRef.current = [];
+    pendingEvalIdsRef.current.clear();
+    setConsoleEntries([]);
+  }, []);
+
+  useEffect(() => () => {
+    if (flushFrameRef.current !== null) cancelAnimationFrame(flushFrameRef.current);
+  }, []);
+
   useEffect(() => {
     const handleMessage = (event: MessageEvent) => {
         if (event.source !== iframeRef.current?.contentWindow) return;
-        if (event.data.type === 'preview_error' && event.data.error) {
-            setConsoleError(event.data.error);
-            setIsConsoleOpen(true);
-        } else if (event.data.type === 'preview_success') {
-            setConsoleError(null);
+        if (event.data.type === 'preview_console' && event.data.entry) {
+            addConsoleEntry(event.data.entry);
+        } else if (event.data.type === 'preview_eval_result') {
+            if (!pendingEvalIdsRef.current.delete(event.data.id)) return;
+            const isError = 'error' in event.data;
+            addConsoleEntry({ type: 'result', level: isError ? 'error' : 'log', args: [isError ? event.data.error : event.data.value] });
         }
     };
     window.addEventListener('message', handleMessage);
     return () => window.removeEventListener('message', handleMessage);
-  }, []);
+  }, [addConsoleEntry]);
+
+  const handleEvaluate = (code: string) => {
+    addConsoleEntry({ type: 'input', level: 'log', args: [{ kind: 'primitive', valueType: 'string', text: code }] });
+    const preview = iframeRef.current?.contentWindow;
+    if (!preview) {
+      addConsoleEntry({ type: 'result', level: 'error', args: [{ kind: 'primitive', valueType: 'string', text: 'Open the preview to evaluate expressions in it.' }] });
+      return;
+    }
+    const id = nextEvalIdRef.current++;
+    pendingEvalIdsRef.current.add(id);
+    preview.postMessage({ type: 'preview_eval', id, code }, '*');
+  };
 
   const handleEditorChange = (value: string | undefined) => {
-    if (isStreaming) return;
     const newContent = value || '';
     setDisplayedCode(newContent);
 
-    if (!activeFilePath) return;
+    if (!currentFile) return;
     
     updateActiveProject(proj => {
-        const nodeInfo = findNode(proj.files, activeFilePath);
-        if (nodeInfo && typeof nodeInfo.node.content === 'string') {
-          nodeInfo.node.content = newContent;
+        const node = getNode(proj.files, currentFile);
+        if (node && typeof node.content === 'string') {
+          node.content = newContent;
         }
     });
 
@@ -254,14 +306,13 @@ const CodeInterpreterPanel: React.FC<CodeInterpreterPanelProps> = ({
   const iframeSrcDoc = useMemo(() => {
     if (fileType !== 'web' || !project) return '<html><body></body></html>';
 
-    const flatFiles = flattenFiles(project.files);
-    const mainHtmlFile = flatFiles['index.html'] || flatFiles[Object.keys(flatFiles).find(f => f.endsWith('.html')) || ''];
+    const previewHtml = buildPreviewHtml(project.files);
 
-    if (!mainHtmlFile) {
+    if (previewHtml === null) {
         return '<html><body class="bg-gray-100 dark:bg-gray-800"><div style="padding: 1rem; font-family: sans-serif;" class="text-gray-600 dark:text-gray-400">No HTML file found in project.</div></body></html>';
     }
     
-    let html = mainHtmlFile;
+    let html = previewHtml;
 
     const headInjections = `
       <style>
@@ -278,18 +329,13 @@ const CodeInterpreterPanel: React.FC<CodeInterpreterPanelProps> = ({
         html:hover { scrollbar-color: #d1d5db transparent; }
         @media (prefers-color-scheme: dark) { html:hover { scrollbar-color: #4b5563 transparent; } }
       </style>
-      <script>
-        window.onerror = function(message, source, lineno, colno, error) {
-          const errorPayload = { message: message.toString(), stack: error ? error.stack : '' };
-          window.parent.postMessage({ type: 'preview_error', error: errorPayload }, '*');
-          return true;
-        };
-        window.addEventListener('load', () => {
-          window.parent.postMessage({ type: 'preview_success' }, '*');
-        });
-      </script>
     `;
 
+    // The console goes first so it also sees output from the page's own head scripts.
+    const headStart = html.match(/<head[^>]*>/i);
+    const consoleScript = `<script>${PREVIEW_CONSOLE_SCRIPT}</script>`;
+    html = headStart ? html.replace(headStart[0], tag => tag + consoleScript) : consoleScript + html;
+
     const headEnd = html.indexOf('</head>');
     if (headEnd !== -1) {
         html = html.slice(0, headEnd) + headInjections + html.slice(headEnd);
@@ -299,22 +345,12 @@ const CodeInterpreterPanel: React.FC<CodeInterpreterPanelProps> = ({
     
     return html;
   }, [project, previewKey, fileType]);
+
+  // Each new preview document starts with an empty console. A refresh reloads the same document, so it clears it too.
+  useEffect(() => {
+    clearConsole();
+  }, [iframeSrcDoc, previewKey, clearConsole]);
   
-  const getLanguageFromPath = (path: string): string => {
-      const extension = path.split('.').pop() || '';
-      switch(extension) {
-          case 'py': return 'python';
-          case 'tsx': return 'typescript';
-          case 'jsx': return 'javascript';
-          case 'js': return 'javascript';
-          case 'ts': return 'typescript';
-          case 'html': return 'html';
-          case 'css': return 'css';
-          case 'json': return 'json';
-          case 'md': return 'markdown';
-          default: return 'plaintext';
-      }
-  };
   
   const handleEditorDidMount: OnMount = (editor, monaco) => {
     editorRef.current = editor;
@@ -338,25 +374,45 @@ const CodeInterpreterPanel: React.FC<CodeInterpreterPanelProps> = ({
       return (
         <aside className="bg-white dark:bg-gray-950 flex-shrink-0 overflow-hidden flex flex-col w-full h-full border border-gray-200 dark:border-gray-700 rounded-lg">
             <div className="flex items-center justify-center flex-1 text-gray-500 dark:text-gray-400 text-center p-4">
-                <p>Activate the Code Interpreter and send a message to start a coding session.</p>
+                <div className="flex flex-col items-center gap-3">
+                    <p>Activate the Code Interpreter and send a message to start a coding session.</p>
+                    <button onClick={() => archiveInputRef.current?.click()} className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"><FileArchive className="h-4 w-4" /> Import ZIP</button>
+                    <input ref={archiveInputRef} type="file" accept=".zip,application/zip" onChange={e => { const file = e.target.files?.[0]; e.target.value = ''; if (file) onImportProject(file); }} className="hidden" />
+                </div>
             </div>
         </aside>
       );
   }
 
-  const renderCodeView = () => (
+  const renderBinaryView = () => {
+    const node = getNode(project.files, currentFile);
+    const mimeType = IMAGE_MIME_TYPES[currentFile.split('.').pop()?.toLowerCase() ?? ''];
+    return (
+      <div className="flex flex-col flex-1 min-h-0 items-center justify-center gap-3 p-4 text-sm text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-900/50">
+        {mimeType ? (
+          <img src={`data:${mimeType};base64,${node?.content ?? ''}`} alt={currentFile} className="max-w-full max-h-[70%] object-contain border border-gray-200 dark:border-gray-700 rounded" />
+        ) : (
+          <FileQuestion className="h-10 w-10 text-gray-400" />
+        )}
+        <p>{baseName(currentFile)} is a binary file and can't be edited here.</p>
+      </div>
+    );
+  };
+
+  const renderCodeView = () => !currentFile ? (
+    <div className="flex flex-1 items-center justify-center text-sm text-gray-500 dark:text-gray-400 p-4">Open a file from the explorer.</div>
+  ) : getNode(project.files, currentFile)?.encoding === 'base64' ? renderBinaryView() : (
     <div className="flex flex-col flex-1 min-h-0 bg-white dark:bg-[#1e1e1e]">
         <Editor
             height="100%"
-            path={activeFilePath}
-            language={getLanguageFromPath(activeFilePath)}
+            path={currentFile}
+            language={getLanguageFromPath(currentFile)}
             value={displayedCode}
             onChange={handleEditorChange}
             theme={isDarkMode ? 'custom-dark' : 'light'}
             options={{ 
               minimap: { enabled: false }, fontSize: 14, wordWrap: 'on', automaticLayout: true, glyphMargin: false, 
               folding: false, lineNumbersMinChars: 3, padding: { top: 10 }, lineDecorationsWidth: 5,
-              readOnly: isStreaming,
               scrollbar: { verticalScrollbarSize: 8, horizontalScrollbarSize: 8 },
             }}
             onMount={handleEditorDidMount}
@@ -369,7 +425,7 @@ const CodeInterpreterPanel: React.FC<CodeInterpreterPanelProps> = ({
         <div className={`flex-1 bg-gray-100 dark:bg-gray-800 flex flex-col transition-all duration-300 ${isPreviewMobile ? 'p-4 bg-gray-200 dark:bg-gray-900 justify-center items-center' : ''}`}>
             <div className="flex-1 relative w-full h-full">
                 <iframe 
-                    ref={iframeRef} key={previewKey} srcDoc={iframeSrcDoc} title="Code Preview" sandbox="allow-scripts allow-same-origin" 
+                    ref={iframeRef} key={previewKey} srcDoc={iframeSrcDoc} title="Code Preview" sandbox="allow-scripts" 
                     className={`bg-white border-none transition-all duration-300 ${isPreviewMobile ? 'w-[375px] h-[667px] shadow-2xl rounded-2xl border-4 border-black dark:border-gray-600 mx-auto' : 'w-full h-full'}`}
                 />
             </div>
@@ -387,10 +443,23 @@ const CodeInterpreterPanel: React.FC<CodeInterpreterPanelProps> = ({
     </div>
   );
 
+  const renderReviewView = () => (
+      <>
+        <div className="flex items-center justify-between p-2 pr-3 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
+            <span className="px-1 text-sm font-semibold text-gray-800 dark:text-gray-200">Review Changes</span>
+            <button onClick={onClose} data-tooltip-text="Close panel" data-tooltip-position="bottom" className="p-1 text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md"><X className="h-5 w-5" /></button>
+        </div>
+        <ChangeReview changes={review!.changes} isDarkMode={isDarkMode} onReviewHunk={onReviewHunk} onResolveChanges={onResolveChanges} />
+      </>
+  );
+
+  const hasConsoleErrors = consoleEntries.some(entry => entry.level === 'error');
+
   const renderMainView = () => (
       <>
         <div className="flex items-center justify-between p-2 pr-3 border-b border-gray-200 dark:border-gray-700 flex-shrink-0">
             <div className="flex items-center gap-2">
+                <button onClick={() => setIsExplorerOpen(p => !p)} className={`p-1.5 rounded-md transition-colors ${isExplorerOpen ? 'bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-100' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`} data-tooltip-text="Toggle Explorer" data-tooltip-position="bottom"><PanelLeft className="h-4 w-4" /></button>
                 <div className="flex space-x-1 bg-gray-200 dark:bg-gray-800 p-1 rounded-md">
                     <button onClick={() => setActiveTab('code')} className={`flex items-center gap-2 w-full justify-center px-3 py-1 text-sm font-medium rounded transition-colors ${activeTab === 'code' ? 'bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100 shadow-sm' : 'text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200'}`}><Code className="h-4 w-4" /> Code</button>
                     {fileType === 'web' && <button onClick={() => setActiveTab('preview')} className={`flex items-center gap-2 w-full justify-center px-3 py-1 text-sm font-medium rounded transition-colors ${activeTab === 'preview' ? 'bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100 shadow-sm' : 'text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200'}`}><Eye className="h-4 w-4" /> Preview</button>}
@@ -420,26 +489,57 @@ const CodeInterpreterPanel: React.FC<CodeInterpreterPanelProps> = ({
                 )}
                 {fileType === 'web' && (
                     <button onClick={() => setIsConsoleOpen(p => !p)} className="p-1.5 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md relative" data-tooltip-text="Toggle Console" data-tooltip-position="bottom">
-                      <SquareTerminal className={`h-4 w-4 ${consoleError ? 'text-red-500' : ''}`} />
-                      {consoleError && <div className="absolute top-1 right-1 w-1.5 h-1.5 bg-red-500 rounded-full"></div>}
+                      <SquareTerminal className={`h-4 w-4 ${hasConsoleErrors ? 'text-red-500' : ''}`} />
+                      {hasConsoleErrors && <div className="absolute top-1 right-1 w-1.5 h-1.5 bg-red-500 rounded-full"></div>}
                     </button>
                 )}
                 <div className="h-5 w-px bg-gray-200 dark:bg-gray-700 mx-1"></div>
                 <button onClick={onClose} data-tooltip-text="Close panel" data-tooltip-position="bottom" className="p-1 text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md"><X className="h-5 w-5" /></button>
              </div>
         </div>
-        <div className="flex-1 flex flex-col min-h-0">
-          {activeTab === 'code' && renderCodeView()}
-          {activeTab === 'preview' && fileType === 'web' && renderPreviewView()}
-          {activeTab === 'output' && fileType === 'python' && renderPythonOutputView()}
-          
-          {fileType === 'web' && isConsoleOpen && (
-            <div className="flex-shrink-0 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-950">
-                <div className={`p-3 max-h-48 overflow-y-auto hover-scrollbar ${consoleError ? 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200' : 'bg-gray-50 dark:bg-gray-900/50 text-gray-600 dark:text-gray-400'}`}>
-                    {consoleError ? <pre className="text-xs whitespace-pre-wrap font-mono">{consoleError.message}{consoleError.stack && `\n\n${consoleError.stack}`}</pre> : <p className="text-xs font-mono">No errors.</p>}
-                </div>
+        <div className="flex-1 flex min-h-0">
+          {isExplorerOpen && (
+            <div className="w-56 flex-shrink-0 border-r border-gray-200 dark:border-gray-700">
+              <FileExplorer
+                  files={project.files}
+                  activeFilePath={currentFile}
+                  onOpenFile={path => { openFile(path); setActiveTab('code'); }}
+                  onFilesChange={handleFilesChange}
+                  onPathChange={handlePathChange}
+                  onPathDelete={handlePathDelete}
+                  onDownloadArchive={handleDownloadArchive}
+                  onImportArchive={onImportProject}
+              />
             </div>
           )}
+          <div className="flex-1 flex flex-col min-w-0 min-h-0">
+            {openFiles.length > 0 && (
+              <div className="flex items-end overflow-x-auto hover-scrollbar border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50 flex-shrink-0" role="tablist">
+                {openFiles.map(path => (
+                  <div
+                    key={path}
+                    role="tab"
+                    aria-selected={path === currentFile}
+                    onClick={() => setCurrentFile(path)}
+                    title={path}
+                    className={`group flex items-center gap-1.5 pl-3 pr-1.5 py-1.5 text-sm border-r border-gray-200 dark:border-gray-700 cursor-pointer whitespace-nowrap ${path === currentFile ? 'bg-white dark:bg-gray-950 text-gray-900 dark:text-gray-100' : 'text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'}`}
+                  >
+                    {baseName(path)}
+                    <button onClick={e => { e.stopPropagation(); closeFile(path); }} className={`p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${path === currentFile ? '' : 'opacity-0 group-hover:opacity-100'}`} aria-label={`Close ${path}`}><X className="h-3.5 w-3.5" /></button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {activeTab === 'code' && renderCodeView()}
+            {activeTab === 'preview' && fileType === 'web' && renderPreviewView()}
+            {activeTab === 'output' && fileType === 'python' && renderPythonOutputView()}
+          
+            {fileType === 'web' && isConsoleOpen && (
+              <div className="flex-shrink-0 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-950">
+                  <PreviewConsole entries={consoleEntries} onClear={clearConsole} onEvaluate={handleEvaluate} />
+              </div>
+            )}
+          </div>
         </div>
       </>
   );
@@ -447,7 +547,7 @@ const CodeInterpreterPanel: React.FC<CodeInterpreterPanelProps> = ({
   return (
     <aside className="bg-white dark:bg-gray-950 flex-shrink-0 overflow-hidden flex flex-col w-full h-full border border-gray-200 dark:border-gray-700 rounded-lg">
       <div className="w-full transition-opacity duration-150 ease-in-out flex flex-col flex-1 min-h-0">
-          {renderMainView()}
+          {review && review.changes.length > 0 ? renderReviewView() : renderMainView()}
       </div>
     </aside>
   );
@@ -0,0 +1,75 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ModelOption } from '../types';
+import { Check, ChevronDown } from 'lucide-react';
+
+export const MIN_COMPARE_MODELS = 2;
+export const MAX_COMPARE_MODELS = 4;
+
+interface CompareModelSelectorProps {
+  selectedModels: string[];
+  setSelectedModels: (models: string[]) => void;
+  modelOptions: ModelOption[];
+}
+
+export const CompareModelSelector: React.FC<CompareModelSelectorProps> = ({ selectedModels, setSelectedModels, modelOptions }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const labelFor = (model: string) => modelOptions.find(opt => opt.value === model)?.label ?? model;
+
+  const toggleModel = (model: string) => {
+    if (selectedModels.includes(model)) {
+      setSelectedModels(selectedModels.filter(m => m !== model));
+    } else if (selectedModels.length < MAX_COMPARE_MODELS) {
+      setSelectedModels([...selectedModels, model]);
+    }
+  };
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full md:w-[18rem] flex items-center justify-between px-4 py-2 bg-white dark:bg-gray-950 border border-blue-300 dark:border-blue-700 rounded-lg text-sm font-medium text-gray-800 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+      >
+        <span className="truncate">{selectedModels.length > 0 ? selectedModels.map(labelFor).join(' vs ') : 'Choose models to compare'}</span>
+        <ChevronDown className={`h-4 w-4 text-gray-500 flex-shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} aria-hidden="true" />
+      </button>
+      {isOpen && (
+        <div className="absolute z-10 top-full mt-1 right-0 w-[18rem] bg-white dark:bg-gray-950 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg max-h-80 overflow-y-auto hover-scrollbar [scrollbar-gutter:stable]" role="listbox" aria-multiselectable="true">
+          <p className="px-3 pt-2 pb-1 text-xs text-gray-500 dark:text-gray-400">Pick {MIN_COMPARE_MODELS} to {MAX_COMPARE_MODELS} models ({selectedModels.length} selected)</p>
+          {modelOptions.map(option => {
+            const isSelected = selectedModels.includes(option.value);
+            const isDisabled = !isSelected && selectedModels.length >= MAX_COMPARE_MODELS;
+            return (
+              <div
+                key={option.value}
+                onClick={() => !isDisabled && toggleModel(option.value)}
+                className={`flex items-center justify-between px-3 py-2 text-sm rounded-lg ${
+                  isDisabled ? 'text-gray-400 dark:text-gray-600 cursor-not-allowed' : 'text-gray-800 dark:text-gray-300 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800'
+                }`}
+                role="option"
+                aria-selected={isSelected}
+                aria-disabled={isDisabled}
+              >
+                <span className="truncate">{option.label}</span>
+                {isSelected && <Check className="h-4 w-4 text-blue-600 dark:text-blue-400 flex-shrink-0" />}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { AlertTriangle, Columns3, CornerDownRight, Loader2, ThumbsUp } from 'lucide-react';
+import { ChatMessage } from '../types';
+
+interface CompareViewProps {
+  // The prompt of the latest comparison on the active path, if there is one.
+  prompt?: ChatMessage;
+  replies: ChatMessage[];
+  // Models that the next prompt will be sent to, shown before anything has been compared.
+  selectedModels: string[];
+  modelLabels: Record<string, string>;
+  isLoading: boolean;
+  onPrefer: (messageId: string) => void;
+  onContinue: (messageId: string) => void;
+}
+
+const columnClasses: Record<number, string> = {
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-2 xl:grid-cols-4',
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+
+const markdownComponents: { [key: string]: React.ElementType } = {
+  p: ({ node, ...props }) => <p className="mb-3" {...props} />,
+  ul: ({ node, ordered, depth, ...props }) => <ul className="list-disc list-outside ml-5 mb-3 space-y-1" {...props} />,
+  ol: ({ node, ordered, depth, start, ...props }) => <ol className="list-decimal list-outside ml-5 mb-3 space-y-1" {...props} />,
+  pre: ({ node, ...props }) => <pre className="p-3 my-3 bg-gray-100 dark:bg-gray-900 rounded-lg text-xs overflow-x-auto" {...props} />,
+  code: ({ node, inline, ...props }) => <code className="font-mono text-[0.85em]" {...props} />,
+};
+
+const CompareColumn: React.FC<{
+  reply: ChatMessage;
+  label: string;
+  isLoading: boolean;
+  onPrefer: () => void;
+  onContinue: () => void;
+}> = ({ reply, label, isLoading, onPrefer, onContinue }) => {
+  const { comparison, usage } = reply;
+  const isStreaming = isLoading && comparison?.latencyMs === undefined && !reply.error;
+  return (
+    <div className={`flex flex-col min-w-0 border rounded-xl overflow-hidden ${comparison?.isPreferred ? 'border-blue-400 dark:border-blue-600' : 'border-gray-200 dark:border-gray-700'}`}>
+      <div className="px-4 py-2.5 bg-gray-50 dark:bg-gray-800/60 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-semibold text-gray-800 dark:text-gray-200 truncate" title={label}>{label}</span>
+          {isStreaming && <Loader2 className="h-4 w-4 animate-spin text-gray-400 flex-shrink-0" />}
+        </div>
+        <div className="mt-1 flex flex-wrap gap-x-3 text-xs text-gray-500 dark:text-gray-400">
+          {comparison?.latencyMs !== undefined && <span>{formatSeconds(comparison.latencyMs)} total</span>}
+          {comparison?.firstTokenMs !== undefined && <span>{formatSeconds(comparison.firstTokenMs)} to first token</span>}
+          {usage && <span>{usage.promptTokens.toLocaleString()} in · {(usage.candidatesTokens + usage.thinkingTokens).toLocaleString()} out</span>}
+        </div>
+      </div>
+      <div className="flex-1 px-4 py-3 text-sm text-gray-800 dark:text-gray-200 leading-relaxed overflow-x-auto">
+        {reply.error ? (
+          <p className="flex items-start gap-2 text-red-600 dark:text-red-400"><AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" /> {reply.error.message}</p>
+        ) : reply.content ? (
+          <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>{reply.content}</ReactMarkdown>
+        ) : isStreaming ? (
+          <p className="text-gray-400">Waiting for the first token…</p>
+        ) : null}
+      </div>
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-t border-gray-200 dark:border-gray-700">
+        <button
+          onClick={onPrefer}
+          disabled={isStreaming}
+          className={`flex items-center gap-1.5 text-xs font-medium rounded-lg px-2 py-1 disabled:opacity-50 ${comparison?.isPreferred ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+          aria-pressed={!!comparison?.isPreferred}
+        >
+          <ThumbsUp className="h-3.5 w-3.5" /> {comparison?.isPreferred ? 'Preferred' : 'Prefer this'}
+        </button>
+        <button
+          onClick={onContinue}
+          disabled={isLoading || !!reply.error}
+          className="flex items-center gap-1.5 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline"
+        >
+          <CornerDownRight className="h-3.5 w-3.5" /> Continue with this
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const CompareView: React.FC<CompareViewProps> = ({ prompt, replies, selectedModels, modelLabels, isLoading, onPrefer, onContinue }) => {
+  if (!prompt || replies.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-center px-6 text-gray-500 dark:text-gray-400">
+        <Columns3 className="h-10 w-10 mb-3" />
+        <p className="text-lg font-semibold text-gray-700 dark:text-gray-300">Compare models</p>
+        <p className="mt-1 text-sm max-w-md">
+          {selectedModels.length > 0
+            ? `Your next prompt is sent to ${selectedModels.map(model => modelLabels[model] ?? model).join(', ')} with the current conversation as context.`
+            : 'Choose models at the top to send them the same prompt.'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-6 px-4 space-y-4">
+      <div className="max-w-4xl mx-auto flex justify-end">
+        <div className="rounded-xl rounded-tr-[0.15rem] px-4 py-3 max-w-[80%] bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200 whitespace-pre-wrap">
+          {prompt.content}
+          {prompt.attachments && prompt.attachments.length > 0 && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{prompt.attachments.map(attachment => attachment.name).join(', ')}</p>
+          )}
+        </div>
+      </div>
+      <div className={`grid grid-cols-1 gap-4 ${columnClasses[replies.length] ?? 'md:grid-cols-2'}`}>
+        {replies.map(reply => {
+          const model = reply.comparison?.model ?? reply.generation?.model ?? '';
+          return (
+            <CompareColumn
+              key={reply.id}
+              reply={reply}
+              label={modelLabels[model] ?? model}
+              isLoading={isLoading}
+              onPrefer={() => onPrefer(reply.id)}
+              onContinue={() => onContinue(reply.id)}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useRef, useState } from 'react';
+import { ChevronRight, Download, File, FileArchive, FilePlus, Folder, FolderOpen, FolderPlus, Pencil, Trash2, Upload } from 'lucide-react';
+import { FileSystemNode } from '../types';
+import { FileTree, FileTreeResult, baseName, createFile, createFolder, decodeFileData, deletePath, getNode, isFolder, joinPath, movePath, parentPath, renamePath } from '../lib/fileTree';
+import { ConfirmationModal } from './ConfirmationModal';
+
+interface FileExplorerProps {
+  files: FileTree;
+  activeFilePath: string;
+  onOpenFile: (path: string) => void;
+  onFilesChange: (files: FileTree) => void;
+  // Called after a rename or move so open tabs can follow the file.
+  onPathChange: (from: string, to: string) => void;
+  onPathDelete: (path: string) => void;
+  onDownloadArchive: () => void;
+  // Imports a ZIP archive as a new project.
+  onImportArchive: (file: File) => void;
+}
+
+// An inline name field, either for a new entry inside `folderPath` or for renaming `path`.
+type PendingName =
+  | { mode: 'file' | 'folder'; folderPath: string }
+  | { mode: 'rename'; path: string };
+
+const DRAG_MIME = 'application/x-project-path';
+
+const sortedEntries = (nodes: FileTree): [string, FileSystemNode][] =>
+  Object.entries(nodes).sort(([a, nodeA], [b, nodeB]) => Number(isFolder(nodeB)) - Number(isFolder(nodeA)) || a.localeCompare(b));
+
+const NameInput: React.FC<{ initialValue: string; depth: number; onSubmit: (name: string) => void; onCancel: () => void }> = ({ initialValue, depth, onSubmit, onCancel }) => {
+  const [value, setValue] = useState(initialValue);
+  // Enter and Escape unmount the field, which can also fire a blur.
+  const isDoneRef = useRef(false);
+  const finish = (submit: boolean) => {
+    if (isDoneRef.current) return;
+    isDoneRef.current = true;
+    if (submit && value.trim() && value !== initialValue) onSubmit(value); else onCancel();
+  };
+  return (
+    <input
+      autoFocus
+      value={value}
+      onChange={e => setValue(e.target.value)}
+      onFocus={e => e.target.setSelectionRange(0, initialValue.lastIndexOf('.') > 0 ? initialValue.lastIndexOf('.') : initialValue.length)}
+      onKeyDown={e => {
+        if (e.key === 'Enter') finish(true);
+        if (e.key === 'Escape') finish(false);
+      }}
+      onBlur={() => finish(true)}
+      style={{ marginLeft: `${depth * 12 + 8}px` }}
+      className="w-[calc(100%-1rem)] my-0.5 px-1.5 py-0.5 text-sm bg-white dark:bg-gray-900 border border-blue-500 rounded focus:outline-none text-gray-800 dark:text-gray-200"
+    />
+  );
+};
+
+export const FileExplorer: React.FC<FileExplorerProps> = ({ files, activeFilePath, onOpenFile, onFilesChange, onPathChange, onPathDelete, onDownloadArchive, onImportArchive }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selectedPath, setSelectedPath] = useState('');
+  const [pendingName, setPendingName] = useState<PendingName | null>(null);
+  const [pathToDelete, setPathToDelete] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+
+  // New entries go into the selected folder, or next to the selected file.
+  const targetFolder = isFolder(getNode(files, selectedPath)) ? selectedPath : parentPath(selectedPath);
+
+  const apply = (result: FileTreeResult): boolean => {
+    if ('error' in result) {
+      alert(result.error);
+      return false;
+    }
+    onFilesChange(result.files);
+    return true;
+  };
+
+  const toggleFolder = (path: string) => setExpanded(prev => {
+    const next = new Set(prev);
+    if (next.has(path)) next.delete(path); else next.add(path);
+    return next;
+  });
+
+  const startCreate = (mode: 'file' | 'folder') => {
+    if (targetFolder) setExpanded(prev => new Set(prev).add(targetFolder));
+    setPendingName({ mode, folderPath: targetFolder });
+  };
+
+  const submitName = (name: string) => {
+    if (!pendingName) return;
+    if (pendingName.mode === 'rename') {
+      const to = joinPath(parentPath(pendingName.path), name.trim());
+      if (apply(renamePath(files, pendingName.path, name))) {
+        onPathChange(pendingName.path, to);
+        setSelectedPath(to);
+      }
+    } else {
+      const path = joinPath(pendingName.folderPath, name.trim());
+      const result = pendingName.mode === 'file' ? createFile(files, pendingName.folderPath, name) : createFolder(files, pendingName.folderPath, name);
+      if (apply(result)) {
+        setSelectedPath(path);
+        if (pendingName.mode === 'file') onOpenFile(path);
+      }
+    }
+    setPendingName(null);
+  };
+
+  const handleDelete = () => {
+    if (pathToDelete && apply(deletePath(files, pathToDelete))) onPathDelete(pathToDelete);
+  };
+
+  const handleMove = (path: string, folderPath: string) => {
+    const to = joinPath(folderPath, baseName(path));
+    if (path !== to && apply(movePath(files, path, folderPath))) {
+      onPathChange(path, to);
+      if (folderPath) setExpanded(prev => new Set(prev).add(folderPath));
+    }
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const uploads = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    let updated = files;
+    const skipped: string[] = [];
+    for (const file of uploads) {
+      const result = createFile(updated, targetFolder, file.name, decodeFileData(new Uint8Array(await file.arrayBuffer())));
+      if ('error' in result) skipped.push(result.error);
+      else updated = result.files;
+    }
+    if (updated !== files) onFilesChange(updated);
+    if (skipped.length > 0) alert(`Some files were not added:\n${skipped.join('\n')}`);
+  };
+
+  const handleArchiveSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onImportArchive(file);
+  };
+
+  const dropHandlers = (folderPath: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DRAG_MIME)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(folderPath);
+    },
+    onDragLeave: () => setDropTarget(prev => prev === folderPath ? null : prev),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(null);
+      const path = e.dataTransfer.getData(DRAG_MIME);
+      if (path) handleMove(path, folderPath);
+    },
+  });
+
+  const renderPendingCreate = (folderPath: string, depth: number) =>
+    pendingName && pendingName.mode !== 'rename' && pendingName.folderPath === folderPath && (
+      <NameInput initialValue="" depth={depth} onSubmit={submitName} onCancel={() => setPendingName(null)} />
+    );
+
+  const renderNodes = (nodes: FileTree, folderPath: string, depth: number): React.ReactNode => (
+    <>
+      {renderPendingCreate(folderPath, depth)}
+      {sortedEntries(nodes).map(([key, node]) => {
+        const path = joinPath(folderPath, key);
+        const isDir = isFolder(node);
+        const isExpanded = expanded.has(path);
+        if (pendingName?.mode === 'rename' && pendingName.path === path) {
+          return <NameInput key={path} initialValue={key} depth={depth} onSubmit={submitName} onCancel={() => setPendingName(null)} />;
+        }
+        return (
+          <div key={path}>
+            <div
+              draggable
+              onDragStart={e => { e.dataTransfer.setData(DRAG_MIME, path); e.dataTransfer.effectAllowed = 'move'; }}
+              {...(isDir ? dropHandlers(path) : {})}
+              onClick={() => { setSelectedPath(path); if (isDir) toggleFolder(path); else onOpenFile(path); }}
+              style={{ paddingLeft: `${depth * 12 + 8}px` }}
+              className={`group flex items-center gap-1.5 pr-1 py-1 text-sm rounded cursor-pointer select-none ${
+                dropTarget === path ? 'bg-blue-100 dark:bg-blue-900/40' : path === activeFilePath ? 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100' : path === selectedPath ? 'bg-gray-100 dark:bg-gray-800' : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+              } text-gray-700 dark:text-gray-300`}
+              title={path}
+            >
+              {isDir ? (
+                <>
+                  <ChevronRight className={`h-3.5 w-3.5 flex-shrink-0 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+                  {isExpanded ? <FolderOpen className="h-4 w-4 flex-shrink-0 text-blue-500" /> : <Folder className="h-4 w-4 flex-shrink-0 text-blue-500" />}
+                </>
+              ) : (
+                <File className="h-4 w-4 flex-shrink-0 ml-5 text-gray-400" />
+              )}
+              <span className="truncate flex-1">{key}</span>
+              <span className="hidden group-hover:flex items-center">
+                <button onClick={e => { e.stopPropagation(); setPendingName({ mode: 'rename', path }); }} className="p-0.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200" aria-label={`Rename ${path}`}><Pencil className="h-3.5 w-3.5" /></button>
+                <button onClick={e => { e.stopPropagation(); setPathToDelete(path); }} className="p-0.5 text-gray-400 hover:text-red-500" aria-label={`Delete ${path}`}><Trash2 className="h-3.5 w-3.5" /></button>
+              </span>
+            </div>
+            {isDir && isExpanded && renderNodes(node.children!, path, depth + 1)}
+          </div>
+        );
+      })}
+    </>
+  );
+
+  const toolbarButton = "p-1 text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700 rounded";
+
+  return (
+    <div className="flex flex-col h-full min-h-0 bg-gray-50 dark:bg-gray-900/50">
+      <div className="flex items-center justify-between px-2 py-1.5 border-b border-gray-200 dark:border-gray-700">
+        <span className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Files</span>
+        <div className="flex items-center">
+          <button onClick={() => startCreate('file')} className={toolbarButton} data-tooltip-text="New File" data-tooltip-position="bottom"><FilePlus className="h-4 w-4" /></button>
+          <button onClick={() => startCreate('folder')} className={toolbarButton} data-tooltip-text="New Folder" data-tooltip-position="bottom"><FolderPlus className="h-4 w-4" /></button>
+          <button onClick={() => uploadInputRef.current?.click()} className={toolbarButton} data-tooltip-text="Upload Files" data-tooltip-position="bottom"><Upload className="h-4 w-4" /></button>
+          <input ref={uploadInputRef} type="file" multiple onChange={handleUpload} className="hidden" />
+          <button onClick={onDownloadArchive} className={toolbarButton} data-tooltip-text="Download ZIP" data-tooltip-position="bottom"><Download className="h-4 w-4" /></button>
+          <button onClick={() => archiveInputRef.current?.click()} className={toolbarButton} data-tooltip-text="Import ZIP" data-tooltip-position="bottom"><FileArchive className="h-4 w-4" /></button>
+          <input ref={archiveInputRef} type="file" accept=".zip,application/zip" onChange={handleArchiveSelected} className="hidden" />
+        </div>
+      </div>
+      <div
+        {...dropHandlers('')}
+        onClick={() => setSelectedPath('')}
+        className={`flex-1 overflow-y-auto hover-scrollbar py-1 ${dropTarget === '' ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+      >
+        <div onClick={e => e.stopPropagation()}>{renderNodes(files, '', 0)}</div>
+      </div>
+      <ConfirmationModal
+        isOpen={pathToDelete !== null}
+        onClose={() => setPathToDelete(null)}
+        onConfirm={handleDelete}
+        title={isFolder(getNode(files, pathToDelete ?? '')) ? 'Delete Folder' : 'Delete File'}
+      >
+        Are you sure you want to delete <strong>{pathToDelete}</strong>{isFolder(getNode(files, pathToDelete ?? '')) ? ' and everything in it' : ''}? This action cannot be undone.
+      </ConfirmationModal>
+    </div>
+  );
+};
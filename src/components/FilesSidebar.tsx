@@ -1,7 +1,8 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { FileText, Download, Image, Code, MoreVertical, Eye, Trash2, ChevronDown, CheckCircle, XCircle, ArrowLeft, UploadCloud, X, Plus, Loader2 } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { FileText, Download, Image, Code, MoreVertical, Eye, Trash2, ChevronDown, CheckCircle, XCircle, ArrowLeft, UploadCloud, X, Plus, Loader2, AlertTriangle } from 'lucide-react';
 import { ChatMessage, Role, TunedModel, TuningStatus, Model, TrainingFile } from '../types';
 import { ConfirmationModal } from './ConfirmationModal';
+import { trainingFilesToExamples } from '../lib/tuningData';
 
 interface FilesSidebarProps {
   isSidebarOpen: boolean;
@@ -17,6 +18,40 @@ interface FilesSidebarProps {
 
 type ActiveTab = 'files' | 'tuning';
 
+const MAX_VISIBLE_TRAINING_ISSUES = 3;
+
+const formatLoss = (loss: number) => loss.toFixed(loss < 1 ? 4 : 3);
+
+const TuningDetails: React.FC<{ model: TunedModel; baseModelLabel: string }> = ({ model, baseModelLabel }) => {
+  const { progress } = model;
+  if (model.status === TuningStatus.FAILED) {
+    return <p className="text-xs text-red-600 dark:text-red-400 line-clamp-2" title={model.error}>{model.error || 'Training failed.'}</p>;
+  }
+  if (model.status === TuningStatus.COMPLETED) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+        Based on {baseModelLabel}{progress?.loss !== undefined && ` · loss ${formatLoss(progress.loss)}`}
+      </p>
+    );
+  }
+  if (!model.tunedModelName) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">Submitting job...</p>;
+  }
+  const percent = progress?.completedPercent ?? 0;
+  return (
+    <div className="mt-1 space-y-1">
+      <div className="h-1.5 w-full bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-500 transition-all duration-500" style={{ width: `${percent}%` }} />
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+        {percent}%
+        {progress?.step !== undefined && progress.totalSteps !== undefined && ` · step ${progress.step}/${progress.totalSteps}`}
+        {progress?.loss !== undefined && ` · loss ${formatLoss(progress.loss)}`}
+      </p>
+    </div>
+  );
+};
+
 const LocalDropdown: React.FC<{
   label: string;
   options: { value: string; label: string }[];
@@ -328,23 +363,19 @@ export const FilesSidebar: React.FC<FilesSidebarProps> = ({ isSidebarOpen, messa
                         <li key={model.id} className="group flex items-center justify-between p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800">
                             <button onClick={() => handleEdit(model)} className="flex items-center gap-3 text-left flex-1 min-w-0">
                                 <StatusIcon status={model.status} />
-                                <div className="min-w-0">
+                                <div className="min-w-0 flex-1">
                                     <p className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{model.displayName}</p>
-                                    <p className="text-xs text-gray-500 dark:text-gray-400">
-                                        {model.status === TuningStatus.TRAINING ? 'Training...' : `Based on ${modelOptions.find(o => o.value === model.baseModel)?.label || model.baseModel}`}
-                                    </p>
+                                    <TuningDetails model={model} baseModelLabel={modelOptions.find(o => o.value === model.baseModel)?.label || model.baseModel} />
                                 </div>
                             </button>
-                            {model.status !== TuningStatus.TRAINING && (
-                                <button
-                                    onClick={() => setDeletingModel(model)}
-                                    data-tooltip-text="Delete Model"
-                                    data-tooltip-position="left"
-                                    className="p-1 text-gray-400 hover:text-red-500 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
-                                >
-                                    <Trash2 className="h-4 w-4" />
-                                </button>
-                            )}
+                            <button
+                                onClick={() => setDeletingModel(model)}
+                                data-tooltip-text={model.status === TuningStatus.TRAINING ? 'Stop Tracking & Delete' : 'Delete Model'}
+                                data-tooltip-position="left"
+                                className="p-1 text-gray-400 hover:text-red-500 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                            >
+                                <Trash2 className="h-4 w-4" />
+                            </button>
                         </li>
                     ))}
                 </ul>
@@ -377,6 +408,7 @@ export const FilesSidebar: React.FC<FilesSidebarProps> = ({ isSidebarOpen, messa
     const fileInputRef = useRef<HTMLInputElement>(null);
     const [isDragging, setIsDragging] = useState(false);
     const dragCounter = useRef(0);
+    const trainingData = useMemo(() => trainingFilesToExamples(trainingFiles), [trainingFiles]);
 
     useEffect(() => {
         if (modelToEdit) {
@@ -487,7 +519,7 @@ export const FilesSidebar: React.FC<FilesSidebarProps> = ({ isSidebarOpen, messa
                             : 'border-gray-200 dark:border-gray-700'
                     }`}
                  >
-                    <input type="file" ref={fileInputRef} onChange={handleFileChange} multiple className="hidden" />
+                    <input type="file" ref={fileInputRef} onChange={handleFileChange} multiple accept=".csv,.jsonl,.ndjson,text/csv" className="hidden" />
                     <UploadCloud className="mx-auto h-8 w-8 text-gray-400" />
                     <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
                         <button type="button" onClick={() => fileInputRef.current?.click()} className="font-medium text-blue-600 hover:text-blue-500">
@@ -495,6 +527,7 @@ export const FilesSidebar: React.FC<FilesSidebarProps> = ({ isSidebarOpen, messa
                         </button>
                          {' '}or drag and drop
                     </p>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">CSV or JSONL with input and output columns</p>
                  </div>
                  {trainingFiles.length > 0 && (
                     <ul className="mt-2 space-y-1">
@@ -508,10 +541,27 @@ export const FilesSidebar: React.FC<FilesSidebarProps> = ({ isSidebarOpen, messa
                         ))}
                     </ul>
                  )}
+                 {trainingFiles.length > 0 && (
+                    <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+                        {trainingData.examples.length} training {trainingData.examples.length === 1 ? 'example' : 'examples'} found
+                    </p>
+                 )}
+                 {trainingData.issues.length > 0 && (
+                    <div className="mt-2 p-2 rounded-md border border-yellow-200 dark:border-yellow-800/60 bg-yellow-50 dark:bg-yellow-900/20 text-xs text-yellow-800 dark:text-yellow-200">
+                        <p className="flex items-center gap-1.5 font-medium">
+                            <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+                            {trainingData.issues.length} {trainingData.issues.length === 1 ? 'problem' : 'problems'} in the training data
+                        </p>
+                        <ul className="mt-1 space-y-0.5 list-disc list-inside">
+                            {trainingData.issues.slice(0, MAX_VISIBLE_TRAINING_ISSUES).map((issue, i) => <li key={i}>{issue}</li>)}
+                            {trainingData.issues.length > MAX_VISIBLE_TRAINING_ISSUES && <li>…and {trainingData.issues.length - MAX_VISIBLE_TRAINING_ISSUES} more.</li>}
+                        </ul>
+                    </div>
+                 )}
             </div>
             
             <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 flex justify-end">
-                <button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700">
+                <button type="submit" disabled={trainingData.examples.length === 0} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed">
                     {modelToEdit ? 'Update & Retrain' : 'Save & Train'}
                 </button>
             </div>
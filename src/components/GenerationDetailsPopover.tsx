@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Info, Copy, Check, ChevronDown } from 'lucide-react';
+import { ChatProviderId, GenerationDetails, TokenUsage } from '../types';
+
+interface GenerationDetailsPopoverProps {
+  generation: GenerationDetails;
+  usage?: TokenUsage;
+}
+
+const providerLabels: Record<ChatProviderId, string> = {
+  [ChatProviderId.GEMINI]: 'Gemini',
+  [ChatProviderId.OPENAI_COMPATIBLE]: 'OpenAI-compatible',
+};
+
+const configLabels: Record<string, string> = {
+  temperature: 'Temperature',
+  topP: 'Top P',
+  maxOutputTokens: 'Max output tokens',
+  stopSequences: 'Stop sequences',
+  thinkingConfig: 'Thinking',
+  responseMimeType: 'Response type',
+  responseSchema: 'Response schema',
+  tools: 'Tools',
+  numberOfImages: 'Number of images',
+  negativePrompt: 'Negative prompt',
+  seed: 'Seed',
+  aspectRatio: 'Aspect ratio',
+  personGeneration: 'Person generation',
+};
+
+const formatConfigValue = (key: string, value: unknown): string => {
+  if (key === 'thinkingConfig' && value && typeof value === 'object' && 'thinkingBudget' in value) {
+    const budget = (value as { thinkingBudget: number }).thinkingBudget;
+    return budget === 0 ? 'Off' : `Budget ${budget}`;
+  }
+  if (key === 'tools' && Array.isArray(value)) {
+    return value.flatMap(tool => Object.keys(tool)).join(', ');
+  }
+  if (key === 'responseSchema') return 'Set';
+  if (Array.isArray(value)) return value.join(', ');
+  if (value && typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const GenerationDetailsPopover: React.FC<GenerationDetailsPopoverProps> = ({ generation, usage }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isInstructionExpanded, setIsInstructionExpanded] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(JSON.stringify(generation, null, 2));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const configEntries = Object.entries(generation.config).filter(([, value]) => value !== undefined && value !== '');
+
+  return (
+    <div className="relative" ref={popoverRef}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        aria-label="Generation details"
+        aria-expanded={isOpen}
+        data-tooltip-text="Generation details"
+        data-tooltip-position="top"
+      >
+        <Info className="h-5 w-5" />
+      </button>
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-2 z-20 w-80 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-4 text-sm">
+          <div className="flex items-center justify-between mb-3">
+            <span className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Generation Details</span>
+            <button onClick={handleCopy} className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-500 dark:text-blue-400">
+              {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />} {copied ? 'Copied' : 'Copy JSON'}
+            </button>
+          </div>
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1.5 max-h-64 overflow-y-auto hover-scrollbar">
+            <dt className="text-gray-500 dark:text-gray-400">Model</dt>
+            <dd className="text-gray-800 dark:text-gray-200 break-all">{generation.model}</dd>
+            <dt className="text-gray-500 dark:text-gray-400">Provider</dt>
+            <dd className="text-gray-800 dark:text-gray-200">{providerLabels[generation.provider] ?? generation.provider}</dd>
+            <dt className="text-gray-500 dark:text-gray-400">Generated</dt>
+            <dd className="text-gray-800 dark:text-gray-200">{new Date(generation.createdAt).toLocaleString()}</dd>
+            {usage && (
+              <>
+                <dt className="text-gray-500 dark:text-gray-400">Input tokens</dt>
+                <dd className="text-gray-800 dark:text-gray-200">
+                  {usage.promptTokens.toLocaleString()}{usage.cachedTokens > 0 && ` (${usage.cachedTokens.toLocaleString()} cached)`}
+                </dd>
+                <dt className="text-gray-500 dark:text-gray-400">Output tokens</dt>
+                <dd className="text-gray-800 dark:text-gray-200">{usage.candidatesTokens.toLocaleString()}</dd>
+                {usage.thinkingTokens > 0 && (
+                  <>
+                    <dt className="text-gray-500 dark:text-gray-400">Thinking tokens</dt>
+                    <dd className="text-gray-800 dark:text-gray-200">{usage.thinkingTokens.toLocaleString()}</dd>
+                  </>
+                )}
+              </>
+            )}
+            {configEntries.map(([key, value]) => (
+              <React.Fragment key={key}>
+                <dt className="text-gray-500 dark:text-gray-400">{configLabels[key] ?? key}</dt>
+                <dd className="text-gray-800 dark:text-gray-200 break-all">{formatConfigValue(key, value)}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+          {generation.systemInstruction && (
+            <div className="mt-3 border-t border-gray-200 dark:border-gray-700 pt-2">
+              <button onClick={() => setIsInstructionExpanded(prev => !prev)} className="flex items-center gap-1 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200">
+                System instruction
+                <ChevronDown className={`h-4 w-4 transition-transform ${isInstructionExpanded ? 'rotate-180' : ''}`} />
+              </button>
+              {isInstructionExpanded && (
+                <p className="mt-1 max-h-40 overflow-y-auto hover-scrollbar whitespace-pre-wrap text-xs text-gray-700 dark:text-gray-300">{generation.systemInstruction}</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationDetailsPopover;
@@ -1,11 +1,12 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Model } from '../types';
+import { ChatProviderId, Model, ModelOption } from '../types';
 import { ChevronDown, X } from 'lucide-react';
+import { providerLabels } from '../services/chatProviders';
 
 interface HeaderModelSelectorProps {
   selectedModel: Model | string;
   setSelectedModel: (model: Model | string) => void;
-  modelOptions: { value: Model | string; label: string }[];
+  modelOptions: ModelOption[];
   isMobile: boolean;
 }
 
@@ -32,7 +33,15 @@ export const HeaderModelSelector: React.FC<HeaderModelSelectorProps> = ({
 
   const selectedLabel = modelOptions.find(opt => opt.value === selectedModel)?.label || selectedModel;
   
-  const renderOptions = () => modelOptions.map(option => (
+  const providerGroups = modelOptions.reduce<{ provider: ChatProviderId; options: ModelOption[] }[]>((groups, option) => {
+    const provider = option.provider ?? ChatProviderId.GEMINI;
+    const group = groups.find(g => g.provider === provider);
+    if (group) group.options.push(option);
+    else groups.push({ provider, options: [option] });
+    return groups;
+  }, []);
+
+  const renderOption = (option: ModelOption) => (
     <div
       key={option.value}
       onClick={() => {
@@ -49,7 +58,17 @@ export const HeaderModelSelector: React.FC<HeaderModelSelectorProps> = ({
     >
       <span className="truncate">{option.label}</span>
     </div>
-  ));
+  );
+
+  const renderOptions = () => {
+    if (providerGroups.length <= 1) return modelOptions.map(renderOption);
+    return providerGroups.map(group => (
+      <div key={group.provider} role="group" aria-label={providerLabels[group.provider]}>
+        <div className="px-3 pt-2 pb-1 text-xs font-semibold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{providerLabels[group.provider]}</div>
+        {group.options.map(renderOption)}
+      </div>
+    ));
+  };
 
   if (isMobile && isOpen) {
     return (
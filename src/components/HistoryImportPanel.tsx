@@ -0,0 +1,137 @@
+import React, { useRef, useState } from 'react';
+import { Upload, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { ChatSession } from '../types';
+import { HistoryImportMode, HistoryImportPreview, parseHistoryExport } from '../services/historyImportService';
+
+interface HistoryImportPanelProps {
+  existingSessionIds: string[];
+  onImport: (sessions: ChatSession[], mode: HistoryImportMode) => void;
+}
+
+const MAX_VISIBLE_ISSUES = 5;
+
+const modeOptions: { value: HistoryImportMode; label: string; description: string }[] = [
+  { value: 'merge', label: 'Merge', description: 'Add new chats and overwrite chats that have the same id.' },
+  { value: 'skip-duplicates', label: 'Skip duplicates', description: 'Only add chats whose id is not already in your history.' },
+  { value: 'replace', label: 'Replace', description: 'Delete your current history and use the imported chats instead.' },
+];
+
+export const HistoryImportPanel: React.FC<HistoryImportPanelProps> = ({ existingSessionIds, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<HistoryImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<HistoryImportMode>('merge');
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+
+  const reset = () => {
+    setFileName(null);
+    setPreview(null);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    reset();
+    setResultMessage(null);
+    setFileName(file.name);
+    try {
+      setPreview(parseHistoryExport(await file.text()));
+    } catch (err) {
+      console.error("Failed to read chat history import", err);
+      setError(err instanceof Error ? err.message : "The file could not be read.");
+    }
+  };
+
+  const duplicateCount = preview ? preview.sessions.filter(s => existingSessionIds.includes(s.id)).length : 0;
+  const newCount = preview ? preview.sessions.length - duplicateCount : 0;
+
+  const handleConfirm = () => {
+    if (!preview) return;
+    onImport(preview.sessions, mode);
+    if (mode === 'replace') {
+      setResultMessage(`Replaced your history with ${preview.sessions.length} imported chats.`);
+    } else if (mode === 'merge') {
+      setResultMessage(`Added ${newCount} chats and updated ${duplicateCount}.`);
+    } else {
+      setResultMessage(`Added ${newCount} chats and skipped ${duplicateCount} already in your history.`);
+    }
+    reset();
+  };
+
+  return (
+    <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+      <h4 className="font-semibold text-gray-800 dark:text-gray-200">Import Chat History</h4>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-3">Restore conversations from a JSON file created with Export.</p>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+      <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 flex items-center gap-2">
+        <Upload className="h-4 w-4" />
+        Choose File
+      </button>
+
+      {resultMessage && (
+        <p className="mt-3 flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+          <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+          {resultMessage}
+        </p>
+      )}
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400">{fileName}: {error}</p>
+      )}
+
+      {preview && (
+        <div className="mt-4 space-y-4 text-sm">
+          <div className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-gray-700 dark:text-gray-300">
+            <p className="font-medium text-gray-800 dark:text-gray-200 truncate">{fileName}</p>
+            <p className="mt-1">
+              {preview.sessions.length} chats · {preview.messageCount} messages · {preview.attachmentCount} attachments
+            </p>
+            {duplicateCount > 0 && (
+              <p className="mt-1 text-gray-500 dark:text-gray-400">{duplicateCount} of these chats are already in your history.</p>
+            )}
+          </div>
+
+          {preview.issues.length > 0 && (
+            <div className="p-3 rounded-lg border border-yellow-200 dark:border-yellow-800/60 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200">
+              <p className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                {preview.issues.length} {preview.issues.length === 1 ? 'problem' : 'problems'} found
+              </p>
+              <ul className="mt-2 space-y-1 text-xs list-disc list-inside">
+                {preview.issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, index) => <li key={index}>{issue}</li>)}
+                {preview.issues.length > MAX_VISIBLE_ISSUES && <li>…and {preview.issues.length - MAX_VISIBLE_ISSUES} more.</li>}
+              </ul>
+            </div>
+          )}
+
+          <fieldset className="space-y-2">
+            <legend className="font-medium text-gray-700 dark:text-gray-300 mb-2">When a chat already exists</legend>
+            {modeOptions.map(option => (
+              <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                <input type="radio" name="history-import-mode" value={option.value} checked={mode === option.value} onChange={() => setMode(option.value)} className="mt-1" />
+                <span>
+                  <span className="font-medium text-gray-800 dark:text-gray-200">{option.label}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          <div className="flex gap-2">
+            <button onClick={reset} className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700">Cancel</button>
+            <button
+              onClick={handleConfirm}
+              disabled={preview.sessions.length === 0}
+              className={`px-3 py-1.5 text-sm font-medium text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed ${mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'}`}
+            >
+              Import {preview.sessions.length} chats
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
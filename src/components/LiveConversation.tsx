@@ -4,8 +4,7 @@ import { Mic, Pause, Play, X, Video, VideoOff, ScreenShare, ScreenShareOff, Swit
 import { createBlob, decode, decodeAudioData } from '../lib/audioUtils';
 import { AudioVisualizer } from './AudioVisualizer';
 import { LiveConversationModel } from '../types';
-
-const API_KEY = import.meta.env.VITE_API_KEY;
+import { getApiKey } from '../services/geminiService';
 
 interface LiveConversationProps {
   isOpen: boolean;
@@ -259,13 +258,14 @@ export const LiveConversation: React.FC<LiveConversationProps> = ({ isOpen, onCl
 
     const setup = async () => {
         if (!isMounted) return;
-        if (!API_KEY) {
-          setError('API_KEY not found. This is a required environment variable.');
+        const apiKey = getApiKey();
+        if (!apiKey) {
+          setError('No API key configured. Add one in Settings > Account & API.');
           return;
         }
 
         try {
-            clientRef.current = new GoogleGenAI({ apiKey: API_KEY });
+            clientRef.current = new GoogleGenAI({ apiKey });
 
             // @ts-ignore
             const inputCtx = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: 16000 });
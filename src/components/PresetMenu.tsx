@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Download, Upload, Plus, Trash2, Check } from 'lucide-react';
+import { PresetSettings, RunPreset } from '../types';
+import { exportPresets, isSamePresetSettings, parsePresetsFile } from '../services/presetService';
+
+interface PresetMenuProps {
+  presets: RunPreset[];
+  currentSettings: PresetSettings;
+  onApply: (preset: RunPreset) => void;
+  // Saving under an existing name overwrites that preset.
+  onSave: (name: string) => void;
+  onDelete: (preset: RunPreset) => void;
+  onImport: (presets: RunPreset[]) => void;
+}
+
+export const PresetMenu: React.FC<PresetMenuProps> = ({ presets, currentSettings, onApply, onSave, onDelete, onImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newPresetName, setNewPresetName] = useState('');
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const activePreset = presets.find(preset => isSamePresetSettings(preset.settings, currentSettings));
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newPresetName.trim();
+    if (!name) return;
+    onSave(name);
+    setNewPresetName('');
+    setNotice({ text: `Saved "${name}".`, isError: false });
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { presets: imported, issues } = parsePresetsFile(await file.text());
+      if (imported.length > 0) onImport(imported);
+      const summary = `Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}.`;
+      setNotice({ text: [summary, ...issues.slice(0, 3)].join(' '), isError: imported.length === 0 });
+    } catch (error) {
+      setNotice({ text: error instanceof Error ? error.message : String(error), isError: true });
+    }
+  };
+
+  return (
+    <div className="mb-4 relative" ref={menuRef}>
+      <button
+        onClick={() => { setIsOpen(prev => !prev); setNotice(null); }}
+        className="w-full flex items-center justify-between px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-950 hover:bg-gray-50 dark:hover:bg-gray-800"
+        aria-expanded={isOpen}
+      >
+        <span className="text-sm truncate text-gray-800 dark:text-gray-200">
+          <span className="text-gray-500 dark:text-gray-400">Preset: </span>{activePreset?.name ?? 'Custom'}
+        </span>
+        <ChevronDown className={`h-4 w-4 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="absolute z-20 top-full mt-1 w-full bg-white dark:bg-gray-950 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+          {presets.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">No presets yet. Save the current settings below.</p>
+          ) : (
+            <ul className="max-h-60 overflow-y-auto hover-scrollbar py-1">
+              {presets.map(preset => (
+                <li key={preset.id} className="group flex items-center hover:bg-gray-100 dark:hover:bg-gray-800">
+                  <button
+                    onClick={() => { onApply(preset); setIsOpen(false); }}
+                    className="flex-1 min-w-0 flex items-center gap-2 px-3 py-2 text-left text-sm text-gray-800 dark:text-gray-300"
+                  >
+                    <Check className={`h-4 w-4 flex-shrink-0 ${preset.id === activePreset?.id ? 'text-blue-600' : 'invisible'}`} />
+                    <span className="truncate">{preset.name}</span>
+                  </button>
+                  <button
+                    onClick={() => onDelete(preset)}
+                    className="p-2 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                    aria-label={`Delete preset ${preset.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleSave} className="flex items-center gap-2 p-2 border-t border-gray-200 dark:border-gray-700">
+            <input
+              value={newPresetName}
+              onChange={e => setNewPresetName(e.target.value)}
+              placeholder="Save current as..."
+              className="flex-1 min-w-0 p-1.5 border border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button type="submit" disabled={!newPresetName.trim()} className="p-1.5 text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed" aria-label="Save preset">
+              <Plus className="h-4 w-4" />
+            </button>
+          </form>
+          <div className="flex items-center gap-3 px-3 py-2 border-t border-gray-200 dark:border-gray-700">
+            <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-500 dark:text-blue-400">
+              <Upload className="h-3.5 w-3.5" /> Import
+            </button>
+            <button onClick={() => exportPresets(presets)} disabled={presets.length === 0} className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-500 dark:text-blue-400 disabled:opacity-50 disabled:cursor-not-allowed">
+              <Download className="h-3.5 w-3.5" /> Export
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImportFile} className="hidden" />
+          </div>
+          {notice && (
+            <p className={`px-3 pb-2 text-xs ${notice.isError ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>{notice.text}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
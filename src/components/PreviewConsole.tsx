@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Ban, ChevronLeft, ChevronRight, Info, Search, XCircle } from 'lucide-react';
+import { ConsoleEntry, ConsoleLevel, SerializedValue, formatEntry, formatValue } from '../lib/previewConsole';
+
+interface PreviewConsoleProps {
+  entries: ConsoleEntry[];
+  onClear: () => void;
+  onEvaluate: (code: string) => void;
+}
+
+type LevelFilter = 'all' | 'error' | 'warn' | 'info' | 'log';
+
+const LEVEL_FILTERS: { id: LevelFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'error', label: 'Errors' },
+  { id: 'warn', label: 'Warnings' },
+  { id: 'info', label: 'Info' },
+  { id: 'log', label: 'Logs' },
+];
+
+// REPL lines are always shown; debug output counts as a log.
+const matchesLevel = (entry: ConsoleEntry, filter: LevelFilter): boolean =>
+  filter === 'all' || entry.type === 'input' || (filter === 'log' ? entry.level === 'log' || entry.level === 'debug' : entry.level === filter);
+
+const LEVEL_STYLES: Record<ConsoleLevel, string> = {
+  log: 'text-gray-800 dark:text-gray-200',
+  debug: 'text-gray-500 dark:text-gray-400',
+  info: 'text-blue-700 dark:text-blue-300',
+  warn: 'bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200',
+  error: 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300',
+};
+
+const PRIMITIVE_STYLES: Record<string, string> = {
+  string: 'text-green-700 dark:text-green-400',
+  number: 'text-blue-700 dark:text-blue-400',
+  bigint: 'text-blue-700 dark:text-blue-400',
+  boolean: 'text-purple-700 dark:text-purple-400',
+  symbol: 'text-purple-700 dark:text-purple-400',
+  null: 'text-gray-500',
+  undefined: 'text-gray-500',
+};
+
+const ValueView: React.FC<{ value: SerializedValue; isNested?: boolean }> = ({ value, isNested = false }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  switch (value.kind) {
+    case 'primitive':
+      // Top-level strings are printed as is, like browser consoles do.
+      return <span className={isNested || value.valueType !== 'string' ? PRIMITIVE_STYLES[value.valueType] : ''}>{formatValue(value, isNested)}</span>;
+    case 'text':
+      return <span className="italic text-gray-500 dark:text-gray-400">{value.text}</span>;
+    case 'error':
+      return (
+        <span>
+          <button onClick={() => setIsExpanded(p => !p)} className="inline-flex items-start gap-0.5 text-left">
+            {value.stack && <ChevronRight className={`h-3 w-3 mt-0.5 flex-shrink-0 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />}
+            {value.name}: {value.message}
+          </button>
+          {isExpanded && value.stack && <pre className="pl-4 whitespace-pre-wrap text-[11px] opacity-80">{value.stack}</pre>}
+        </span>
+      );
+    case 'object':
+      return (
+        <span className="inline-block align-top">
+          <button onClick={() => setIsExpanded(p => !p)} className="inline-flex items-start gap-0.5 text-left">
+            <ChevronRight className={`h-3 w-3 mt-0.5 flex-shrink-0 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+            <span className="text-gray-700 dark:text-gray-300">{formatValue(value, true)}</span>
+          </button>
+          {isExpanded && (
+            <div className="pl-4">
+              {value.entries.map(([key, item]) => (
+                <div key={key}>
+                  <span className="text-purple-700 dark:text-purple-400">{key}</span>: <ValueView value={item} isNested />
+                </div>
+              ))}
+              {value.truncated && <div className="italic text-gray-500">…</div>}
+            </div>
+          )}
+        </span>
+      );
+  }
+};
+
+const EntryIcon: React.FC<{ entry: ConsoleEntry }> = ({ entry }) => {
+  const className = "h-3.5 w-3.5 mt-0.5 flex-shrink-0";
+  if (entry.type === 'input') return <ChevronRight className={`${className} text-blue-500`} />;
+  if (entry.type === 'result') return <ChevronLeft className={`${className} text-gray-400`} />;
+  if (entry.level === 'error') return <XCircle className={className} />;
+  if (entry.level === 'warn') return <AlertTriangle className={className} />;
+  if (entry.level === 'info') return <Info className={className} />;
+  return <span className={className} />;
+};
+
+export const PreviewConsole: React.FC<PreviewConsoleProps> = ({ entries, onClear, onEvaluate }) => {
+  const [levelFilter, setLevelFilter] = useState<LevelFilter>('all');
+  const [textFilter, setTextFilter] = useState('');
+  const [input, setInput] = useState('');
+  const [history, setHistory] = useState<string[]>([]);
+  // Position while stepping back through the history with the arrow keys; history.length means the current input.
+  const [historyIndex, setHistoryIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const visibleEntries = useMemo(() => {
+    const query = textFilter.trim().toLowerCase();
+    return entries.filter(entry => matchesLevel(entry, levelFilter) && (!query || formatEntry(entry).toLowerCase().includes(query)));
+  }, [entries, levelFilter, textFilter]);
+
+  const counts = useMemo(() => ({
+    error: entries.filter(entry => entry.type !== 'input' && entry.level === 'error').length,
+    warn: entries.filter(entry => entry.level === 'warn').length,
+  }), [entries]);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [visibleEntries]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && input.trim()) {
+      onEvaluate(input);
+      const nextHistory = [...history.filter(item => item !== input), input];
+      setHistory(nextHistory);
+      setHistoryIndex(nextHistory.length);
+      setInput('');
+    } else if (e.key === 'ArrowUp' && historyIndex > 0) {
+      e.preventDefault();
+      setHistoryIndex(historyIndex - 1);
+      setInput(history[historyIndex - 1]);
+    } else if (e.key === 'ArrowDown' && historyIndex < history.length) {
+      e.preventDefault();
+      setHistoryIndex(historyIndex + 1);
+      setInput(history[historyIndex + 1] ?? '');
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-56 text-xs font-mono">
+      <div className="flex items-center gap-2 px-2 py-1 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50 font-sans">
+        <button onClick={onClear} className="p-1 text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700 rounded" data-tooltip-text="Clear console" data-tooltip-position="top"><Ban className="h-3.5 w-3.5" /></button>
+        <div className="relative">
+          <Search className="absolute left-1.5 top-1/2 -translate-y-1/2 h-3 w-3 text-gray-400" />
+          <input value={textFilter} onChange={e => setTextFilter(e.target.value)} placeholder="Filter" className="w-36 pl-5 pr-1.5 py-0.5 text-xs bg-white dark:bg-gray-950 border border-gray-200 dark:border-gray-700 rounded focus:outline-none focus:border-blue-500 text-gray-800 dark:text-gray-200" />
+        </div>
+        <div className="flex items-center gap-0.5">
+          {LEVEL_FILTERS.map(filter => (
+            <button
+              key={filter.id}
+              onClick={() => setLevelFilter(filter.id)}
+              className={`px-2 py-0.5 rounded ${levelFilter === filter.id ? 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100' : 'text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'}`}
+            >
+              {filter.label}
+              {filter.id === 'error' && counts.error > 0 && <span className="ml-1 text-red-500">{counts.error}</span>}
+              {filter.id === 'warn' && counts.warn > 0 && <span className="ml-1 text-yellow-600">{counts.warn}</span>}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div ref={listRef} className="flex-1 overflow-y-auto hover-scrollbar">
+        {visibleEntries.length === 0 && <p className="px-3 py-2 text-gray-400 dark:text-gray-500 font-sans">{entries.length === 0 ? 'No console output.' : 'No entries match the filter.'}</p>}
+        {visibleEntries.map(entry => (
+          <div key={entry.id} className={`flex items-start gap-1.5 px-2 py-1 border-b border-gray-100 dark:border-gray-800 ${entry.type === 'input' ? 'text-gray-800 dark:text-gray-200' : LEVEL_STYLES[entry.level]}`}>
+            <EntryIcon entry={entry} />
+            <div className="flex-1 min-w-0 whitespace-pre-wrap break-words">
+              {entry.args.map((arg, i) => <React.Fragment key={i}>{i > 0 && ' '}<ValueView value={arg} /></React.Fragment>)}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-1.5 px-2 py-1 border-t border-gray-200 dark:border-gray-700">
+        <ChevronRight className="h-3.5 w-3.5 flex-shrink-0 text-blue-500" />
+        <input
+          value={input}
+          onChange={e => { setInput(e.target.value); setHistoryIndex(history.length); }}
+          onKeyDown={handleKeyDown}
+          placeholder="Evaluate an expression in the preview"
+          className="flex-1 bg-transparent focus:outline-none text-gray-800 dark:text-gray-200 placeholder:text-gray-400"
+          spellCheck={false}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BookOpen, Star } from 'lucide-react';
+import { PromptEntry } from '../types';
+import { extractVariables, fillTemplate } from '../lib/promptTemplates';
+
+interface PromptCommandPaletteProps {
+  templates: PromptEntry[];
+  highlightedIndex: number;
+  hasQuery: boolean;
+  onSelect: (template: PromptEntry) => void;
+  onHighlight: (index: number) => void;
+  onOpenLibrary: () => void;
+}
+
+export const PromptCommandPalette: React.FC<PromptCommandPaletteProps> = ({ templates, highlightedIndex, hasQuery, onSelect, onHighlight, onOpenLibrary }) => {
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    listRef.current?.children[highlightedIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [highlightedIndex]);
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 z-20 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg overflow-hidden" role="listbox" aria-label="Prompt templates">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+        <span className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Prompt Templates</span>
+        <button type="button" onClick={onOpenLibrary} className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-500 dark:text-blue-400">
+          <BookOpen className="h-3.5 w-3.5" /> Manage
+        </button>
+      </div>
+      {templates.length === 0 ? (
+        <p className="px-3 py-3 text-sm text-gray-500 dark:text-gray-400">
+          {hasQuery ? 'No templates match. Press Esc to send the text as typed.' : 'No templates yet. Create one in the prompt library.'}
+        </p>
+      ) : (
+        <ul ref={listRef} className="max-h-64 overflow-y-auto hover-scrollbar py-1">
+          {templates.map((template, index) => (
+            <li
+              key={template.id}
+              role="option"
+              aria-selected={index === highlightedIndex}
+              // mousedown keeps focus in the textarea
+              onMouseDown={e => { e.preventDefault(); onSelect(template); }}
+              onMouseEnter={() => onHighlight(index)}
+              className={`px-3 py-2 cursor-pointer ${index === highlightedIndex ? 'bg-gray-100 dark:bg-gray-800' : ''}`}
+            >
+              <div className="flex items-center gap-1.5">
+                {template.isFavorite && <Star className="h-3.5 w-3.5 text-yellow-500 fill-current flex-shrink-0" />}
+                <span className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{template.name}</span>
+                {template.tags.map(tag => <span key={tag} className="text-xs text-gray-400 dark:text-gray-500">#{tag}</span>)}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{template.content}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+interface TemplateVariablesFormProps {
+  template: PromptEntry;
+  onInsert: (text: string) => void;
+  onCancel: () => void;
+}
+
+export const TemplateVariablesForm: React.FC<TemplateVariablesFormProps> = ({ template, onInsert, onCancel }) => {
+  const variables = extractVariables(template.content);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const isComplete = variables.every(name => values[name]?.trim());
+
+  const handleInsert = () => {
+    if (isComplete) onInsert(fillTemplate(template.content, values));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancel();
+    } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleInsert();
+    }
+  };
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 z-20 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-4">
+      <p className="text-sm font-medium text-gray-800 dark:text-gray-200">{template.name}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">Fill in the variables to insert the prompt. Ctrl+Enter inserts, Esc cancels.</p>
+      <div className="space-y-3 max-h-72 overflow-y-auto hover-scrollbar">
+        {variables.map((name, index) => (
+          <div key={name}>
+            <label className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1 block">{name}</label>
+            <textarea
+              value={values[name] ?? ''}
+              onChange={e => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+              onKeyDown={handleKeyDown}
+              rows={1}
+              autoFocus={index === 0}
+              className="w-full p-2 border border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-950 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-y"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2 mt-3">
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800">Cancel</button>
+        <button type="button" onClick={handleInsert} disabled={!isComplete} className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed">Insert</button>
+      </div>
+    </div>
+  );
+};
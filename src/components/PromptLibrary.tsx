@@ -0,0 +1,301 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Plus, Star, Pencil, Trash2, Search, ArrowLeft } from 'lucide-react';
+import { PromptEntry, PromptKind } from '../types';
+import { createPromptId } from '../services/storageService';
+import { extractVariables, filterPrompts, parseTags } from '../lib/promptTemplates';
+import { ConfirmationModal } from './ConfirmationModal';
+
+interface PromptLibraryProps {
+  isOpen: boolean;
+  // The tab shown when the library opens.
+  initialKind: PromptKind;
+  onClose: () => void;
+  prompts: PromptEntry[];
+  onSavePrompt: (prompt: PromptEntry) => void;
+  onDeletePrompt: (promptId: string) => void;
+  currentSystemInstruction: string;
+  onApplySystemInstruction: (content: string) => void;
+}
+
+interface PromptDraft {
+  id?: string;
+  kind: PromptKind;
+  name: string;
+  content: string;
+  tags: string;
+  isFavorite: boolean;
+}
+
+const kindLabels: Record<PromptKind, string> = {
+  [PromptKind.SYSTEM_INSTRUCTION]: 'System Instructions',
+  [PromptKind.TEMPLATE]: 'Prompt Templates',
+};
+
+const emptyDraft = (kind: PromptKind, content = ''): PromptDraft => ({ kind, name: '', content, tags: '', isFavorite: false });
+
+const PromptForm: React.FC<{
+  draft: PromptDraft;
+  setDraft: (draft: PromptDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}> = ({ draft, setDraft, onSave, onCancel }) => {
+  const variables = draft.kind === PromptKind.TEMPLATE ? extractVariables(draft.content) : [];
+  const canSave = draft.name.trim() !== '' && draft.content.trim() !== '';
+
+  return (
+    <div className="space-y-4">
+      <button onClick={onCancel} className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100">
+        <ArrowLeft className="h-4 w-4" /> Back to library
+      </button>
+      <div>
+        <label className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2 block">Name</label>
+        <input
+          type="text"
+          value={draft.name}
+          onChange={e => setDraft({ ...draft, name: e.target.value })}
+          placeholder={draft.kind === PromptKind.TEMPLATE ? 'Summarize an article' : 'Senior code reviewer'}
+          className="w-full p-2.5 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          autoFocus
+        />
+      </div>
+      <div>
+        <label className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2 block">
+          {draft.kind === PromptKind.TEMPLATE ? 'Prompt' : 'Instruction'}
+        </label>
+        <textarea
+          value={draft.content}
+          onChange={e => setDraft({ ...draft, content: e.target.value })}
+          rows={10}
+          placeholder={draft.kind === PromptKind.TEMPLATE ? 'Summarize the following text in {{length}} bullet points:\n\n{{text}}' : 'You are a helpful assistant.'}
+          className="w-full p-3 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono resize-y"
+        />
+        {draft.kind === PromptKind.TEMPLATE && (
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {variables.length > 0
+              ? <>Variables: {variables.map(name => <code key={name} className="mx-0.5 px-1 rounded bg-gray-100 dark:bg-gray-700">{name}</code>)}</>
+              : <>Add placeholders like <code className="px-1 rounded bg-gray-100 dark:bg-gray-700">{'{{topic}}'}</code> to be asked for values when you use the template.</>}
+          </p>
+        )}
+      </div>
+      <div>
+        <label className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2 block">Tags</label>
+        <input
+          type="text"
+          value={draft.tags}
+          onChange={e => setDraft({ ...draft, tags: e.target.value })}
+          placeholder="writing, code, work"
+          className="w-full p-2.5 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Separate tags with commas.</p>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-600">
+          Cancel
+        </button>
+        <button onClick={onSave} disabled={!canSave} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed">
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const PromptLibrary: React.FC<PromptLibraryProps> = ({ isOpen, initialKind, onClose, prompts, onSavePrompt, onDeletePrompt, currentSystemInstruction, onApplySystemInstruction }) => {
+  const [activeKind, setActiveKind] = useState<PromptKind>(PromptKind.SYSTEM_INSTRUCTION);
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+  const [draft, setDraft] = useState<PromptDraft | null>(null);
+  const [promptToDelete, setPromptToDelete] = useState<PromptEntry | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setActiveKind(initialKind);
+    setActiveTag(null);
+    setDraft(null);
+  }, [isOpen, initialKind]);
+
+  const promptsOfKind = useMemo(() => prompts.filter(prompt => prompt.kind === activeKind), [prompts, activeKind]);
+  const tags = useMemo(() => [...new Set(promptsOfKind.flatMap(prompt => prompt.tags))].sort(), [promptsOfKind]);
+  const visiblePrompts = useMemo(
+    () => filterPrompts(promptsOfKind, query).filter(prompt => (!activeTag || prompt.tags.includes(activeTag)) && (!showFavoritesOnly || prompt.isFavorite)),
+    [promptsOfKind, query, activeTag, showFavoritesOnly]
+  );
+
+  if (!isOpen) return null;
+
+  const handleSelectKind = (kind: PromptKind) => {
+    setActiveKind(kind);
+    setActiveTag(null);
+  };
+
+  const handleEdit = (prompt: PromptEntry) => {
+    setDraft({ id: prompt.id, kind: prompt.kind, name: prompt.name, content: prompt.content, tags: prompt.tags.join(', '), isFavorite: prompt.isFavorite });
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    onSavePrompt({
+      id: draft.id ?? createPromptId(),
+      kind: draft.kind,
+      name: draft.name.trim(),
+      content: draft.content,
+      tags: parseTags(draft.tags),
+      isFavorite: draft.isFavorite,
+      updatedAt: Date.now(),
+    });
+    setDraft(null);
+  };
+
+  const handleApply = (prompt: PromptEntry) => {
+    onApplySystemInstruction(prompt.content);
+    onClose();
+  };
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4"
+        onClick={onClose}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="prompt-library-title"
+      >
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+          <div className="flex justify-between items-center p-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 id="prompt-library-title" className="text-lg font-semibold text-gray-900 dark:text-gray-100">Prompt Library</h2>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200" aria-label="Close prompt library">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="p-6 flex-1 overflow-y-auto hover-scrollbar">
+            {draft ? (
+              <PromptForm draft={draft} setDraft={setDraft} onSave={handleSaveDraft} onCancel={() => setDraft(null)} />
+            ) : (
+              <div className="space-y-4">
+                <div className="p-1 bg-gray-100 dark:bg-gray-700/60 rounded-lg flex">
+                  {Object.values(PromptKind).map(kind => (
+                    <button
+                      key={kind}
+                      onClick={() => handleSelectKind(kind)}
+                      className={`w-1/2 px-4 py-2 text-sm font-medium rounded-md transition-colors ${activeKind === kind ? 'bg-white shadow-sm text-gray-800 dark:bg-gray-600 dark:text-gray-100' : 'text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200'}`}
+                    >
+                      {kindLabels[kind]}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <input
+                      type="text"
+                      value={query}
+                      onChange={e => setQuery(e.target.value)}
+                      placeholder="Search by name, tag or text"
+                      className="w-full pl-9 pr-3 py-2 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <button
+                    onClick={() => setShowFavoritesOnly(prev => !prev)}
+                    data-tooltip-text={showFavoritesOnly ? 'Show all' : 'Show favorites only'}
+                    data-tooltip-position="top"
+                    className={`p-2 rounded-lg border ${showFavoritesOnly ? 'border-yellow-300 bg-yellow-50 text-yellow-600 dark:border-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400' : 'border-gray-200 text-gray-500 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-400 dark:hover:bg-gray-700'}`}
+                    aria-pressed={showFavoritesOnly}
+                  >
+                    <Star className={`h-4 w-4 ${showFavoritesOnly ? 'fill-current' : ''}`} />
+                  </button>
+                  <button
+                    onClick={() => setDraft(emptyDraft(activeKind))}
+                    className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+                  >
+                    <Plus className="h-4 w-4" /> New
+                  </button>
+                </div>
+
+                {activeKind === PromptKind.SYSTEM_INSTRUCTION && currentSystemInstruction.trim() && (
+                  <button
+                    onClick={() => setDraft(emptyDraft(PromptKind.SYSTEM_INSTRUCTION, currentSystemInstruction))}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400"
+                  >
+                    Save the current system instruction to the library
+                  </button>
+                )}
+
+                {tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {tags.map(tag => (
+                      <button
+                        key={tag}
+                        onClick={() => setActiveTag(prev => prev === tag ? null : tag)}
+                        className={`px-2 py-0.5 text-xs rounded-full border ${activeTag === tag ? 'bg-blue-100 text-blue-700 border-blue-200 dark:bg-blue-900/50 dark:text-blue-300 dark:border-blue-700' : 'text-gray-600 border-gray-200 hover:bg-gray-50 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700'}`}
+                      >
+                        #{tag}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {visiblePrompts.length === 0 ? (
+                  <div className="text-center py-10 border-2 border-dashed border-gray-200 dark:border-gray-700 rounded-lg">
+                    <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100">{promptsOfKind.length === 0 ? 'Nothing saved yet' : 'No matches'}</h3>
+                    <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                      {activeKind === PromptKind.TEMPLATE ? 'Templates can be inserted by typing / in the message box.' : 'Saved instructions can be applied with one click.'}
+                    </p>
+                  </div>
+                ) : (
+                  <ul className="space-y-2">
+                    {visiblePrompts.map(prompt => (
+                      <li key={prompt.id} className="group p-3 border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/40">
+                        <div className="flex items-start gap-2">
+                          <button
+                            onClick={() => onSavePrompt({ ...prompt, isFavorite: !prompt.isFavorite })}
+                            className={`mt-0.5 ${prompt.isFavorite ? 'text-yellow-500' : 'text-gray-300 hover:text-yellow-500 dark:text-gray-600'}`}
+                            aria-label={prompt.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                          >
+                            <Star className={`h-4 w-4 ${prompt.isFavorite ? 'fill-current' : ''}`} />
+                          </button>
+                          <div className="min-w-0 flex-1">
+                            <p className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{prompt.name}</p>
+                            <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400 line-clamp-2 whitespace-pre-wrap">{prompt.content}</p>
+                            {prompt.tags.length > 0 && (
+                              <div className="mt-1.5 flex flex-wrap gap-1">
+                                {prompt.tags.map(tag => <span key={tag} className="px-1.5 py-0.5 text-[11px] rounded bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">#{tag}</span>)}
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-1 flex-shrink-0">
+                            {prompt.kind === PromptKind.SYSTEM_INSTRUCTION && (
+                              <button onClick={() => handleApply(prompt)} className="px-2 py-1 text-xs font-medium text-blue-600 rounded-md hover:bg-blue-50 dark:text-blue-400 dark:hover:bg-blue-900/30">
+                                Apply
+                              </button>
+                            )}
+                            <button onClick={() => handleEdit(prompt)} data-tooltip-text="Edit" data-tooltip-position="top" className="p-1 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200">
+                              <Pencil className="h-4 w-4" />
+                            </button>
+                            <button onClick={() => setPromptToDelete(prompt)} data-tooltip-text="Delete" data-tooltip-position="top" className="p-1 text-gray-400 hover:text-red-500 dark:hover:text-red-400">
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+      <ConfirmationModal
+        isOpen={!!promptToDelete}
+        onClose={() => setPromptToDelete(null)}
+        onConfirm={() => promptToDelete && onDeletePrompt(promptToDelete.id)}
+        title="Delete Prompt"
+      >
+        Are you sure you want to delete "{promptToDelete?.name}"? This action cannot be undone.
+      </ConfirmationModal>
+    </>
+  );
+};
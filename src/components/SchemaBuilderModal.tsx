@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { Type } from '@google/genai';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { createSchemaField, fieldToSchema, parseSchemaText, SCHEMA_TYPES, SchemaField, schemaToField } from '../lib/responseSchema';
+
+interface SchemaBuilderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  schema: string;
+  onSave: (schema: string) => void;
+}
+
+type EditorMode = 'builder' | 'json';
+
+const typeLabels: Record<string, string> = {
+  [Type.STRING]: 'String',
+  [Type.NUMBER]: 'Number',
+  [Type.INTEGER]: 'Integer',
+  [Type.BOOLEAN]: 'Boolean',
+  [Type.OBJECT]: 'Object',
+  [Type.ARRAY]: 'Array',
+};
+
+const inputClass = "p-1.5 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const parseEnumValues = (text: string): string[] => text.split(',').map(value => value.trim()).filter(Boolean);
+
+// The text is kept as typed, so a trailing comma or space survives until the next value is entered.
+const EnumValuesInput: React.FC<{ values: string[]; onChange: (values: string[]) => void }> = ({ values, onChange }) => {
+  const [text, setText] = useState(() => values.join(', '));
+
+  useEffect(() => {
+    setText(prev => JSON.stringify(parseEnumValues(prev)) === JSON.stringify(values) ? prev : values.join(', '));
+  }, [values]);
+
+  return (
+    <input
+      value={text}
+      onChange={e => {
+        setText(e.target.value);
+        onChange(parseEnumValues(e.target.value));
+      }}
+      onBlur={() => setText(values.join(', '))}
+      placeholder="allowed values, comma-separated (optional)"
+      className={`${inputClass} w-full mt-2 text-xs`}
+      aria-label="Allowed values"
+    />
+  );
+};
+
+const FieldEditor: React.FC<{
+  field: SchemaField;
+  onChange: (field: SchemaField) => void;
+  onRemove?: () => void;
+  // Root and array items have no name of their own.
+  isNamed: boolean;
+  depth: number;
+}> = ({ field, onChange, onRemove, isNamed, depth }) => {
+  const update = (changes: Partial<SchemaField>) => onChange({ ...field, ...changes });
+
+  const changeType = (type: Type) => update({
+    type,
+    items: type === Type.ARRAY ? field.items ?? createSchemaField() : undefined,
+    enumValues: type === Type.STRING ? field.enumValues : [],
+  });
+
+  return (
+    <div className={depth > 0 ? 'pl-4 border-l-2 border-gray-200 dark:border-gray-700' : ''}>
+      <div className="flex flex-wrap items-center gap-2">
+        {isNamed && (
+          <input value={field.name} onChange={e => update({ name: e.target.value })} placeholder="property name" className={`${inputClass} w-36 font-mono`} aria-label="Property name" />
+        )}
+        <select value={field.type} onChange={e => changeType(e.target.value as Type)} className={inputClass} aria-label="Type">
+          {SCHEMA_TYPES.map(type => <option key={type} value={type}>{typeLabels[type]}</option>)}
+        </select>
+        {isNamed && (
+          <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300">
+            <input type="checkbox" checked={field.required} onChange={e => update({ required: e.target.checked })} /> Required
+          </label>
+        )}
+        <input value={field.description} onChange={e => update({ description: e.target.value })} placeholder="description (optional)" className={`${inputClass} flex-1 min-w-[8rem]`} aria-label="Description" />
+        {onRemove && (
+          <button onClick={onRemove} className="p-1.5 text-gray-400 hover:text-red-600" aria-label={`Remove ${field.name || 'property'}`}>
+            <Trash2 className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+      {field.type === Type.STRING && (
+        <EnumValuesInput values={field.enumValues} onChange={enumValues => update({ enumValues })} />
+      )}
+      {field.type === Type.OBJECT && (
+        <div className="mt-2 space-y-2">
+          {field.properties.map((property, index) => (
+            <FieldEditor
+              key={property.id}
+              field={property}
+              isNamed
+              depth={depth + 1}
+              onChange={changed => update({ properties: field.properties.map((p, i) => i === index ? changed : p) })}
+              onRemove={() => update({ properties: field.properties.filter((_, i) => i !== index) })}
+            />
+          ))}
+          <button onClick={() => update({ properties: [...field.properties, createSchemaField()] })} className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-500 dark:text-blue-400">
+            <Plus className="h-3.5 w-3.5" /> Add property
+          </button>
+        </div>
+      )}
+      {field.type === Type.ARRAY && field.items && (
+        <div className="mt-2">
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Each item:</p>
+          <FieldEditor field={field.items} isNamed={false} depth={depth + 1} onChange={items => update({ items })} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const SchemaBuilderModal: React.FC<SchemaBuilderModalProps> = ({ isOpen, onClose, schema, onSave }) => {
+  const [mode, setMode] = useState<EditorMode>('builder');
+  const [root, setRoot] = useState<SchemaField>(() => createSchemaField(Type.OBJECT));
+  const [jsonDraft, setJsonDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const parsed = parseSchemaText(schema);
+    const field = 'schema' in parsed ? schemaToField(parsed.schema) : null;
+    setJsonDraft(schema);
+    if (field) {
+      setRoot(field);
+      setMode('builder');
+      setError(null);
+    } else {
+      setMode('json');
+      setError('error' in parsed ? parsed.error : "This schema uses features the builder can't edit. Edit it as JSON instead.");
+    }
+  }, [isOpen, schema]);
+
+  if (!isOpen) return null;
+
+  const switchMode = (next: EditorMode) => {
+    if (next === mode) return;
+    if (next === 'json') {
+      setJsonDraft(JSON.stringify(fieldToSchema(root), null, 2));
+      setError(null);
+      setMode('json');
+      return;
+    }
+    const parsed = parseSchemaText(jsonDraft);
+    if ('error' in parsed) {
+      setError(parsed.error);
+      return;
+    }
+    const field = schemaToField(parsed.schema);
+    if (!field) {
+      setError("This schema uses features the builder can't edit. Keep editing it as JSON.");
+      return;
+    }
+    setRoot(field);
+    setError(null);
+    setMode('builder');
+  };
+
+  const handleSave = () => {
+    if (mode === 'builder') {
+      onSave(JSON.stringify(fieldToSchema(root), null, 2));
+      onClose();
+      return;
+    }
+    const parsed = parseSchemaText(jsonDraft);
+    if ('error' in parsed) {
+      setError(parsed.error);
+      return;
+    }
+    onSave(jsonDraft);
+    onClose();
+  };
+
+  const tabClass = (tab: EditorMode) => `px-3 py-1.5 text-sm font-medium rounded-lg ${mode === tab ? 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100' : 'text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'}`;
+
+  return (
+    <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center"
+        onClick={onClose}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="schema-builder-title"
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 id="schema-builder-title" className="text-lg font-semibold text-gray-900 dark:text-gray-100">Edit Structured Output Schema</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200" aria-label="Close modal">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="flex gap-2 px-6 pt-4">
+          <button onClick={() => switchMode('builder')} className={tabClass('builder')}>Builder</button>
+          <button onClick={() => switchMode('json')} className={tabClass('json')}>JSON</button>
+        </div>
+        <div className="p-6 flex-1 overflow-y-auto hover-scrollbar">
+          {mode === 'builder' ? (
+            <FieldEditor field={root} isNamed={false} depth={0} onChange={setRoot} />
+          ) : (
+            <textarea
+              value={jsonDraft}
+              onChange={e => { setJsonDraft(e.target.value); setError(null); }}
+              rows={15}
+              className="w-full p-3 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+              aria-label="Schema JSON"
+            />
+          )}
+          {error && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">The model's reply is constrained to this schema and checked against it when it arrives.</p>
+        </div>
+        <div className="flex justify-end p-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 rounded-b-lg">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 mr-2 dark:bg-gray-700 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-600">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
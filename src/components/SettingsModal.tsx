@@ -1,6 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Sun, Moon, Monitor, User, Key, Database, Info, Trash2, Download, ChevronDown } from 'lucide-react';
-import { LiveConversationModel } from '../types';
+import { Sun, Moon, Monitor, User, Key, Database, Info, Trash2, Download, ChevronDown, Server, BarChart3 } from 'lucide-react';
+import { ApiKeyEntry, ChatSession, LiveConversationModel, ModelPrice, OpenAICompatibleConfig, RetryConfig } from '../types';
+import { ApiKeyForm } from './ApiKeySetup';
+import { HistoryImportPanel } from './HistoryImportPanel';
+import { UsageDashboard } from './UsageDashboard';
+import { HistoryImportMode } from '../services/historyImportService';
+import { maskApiKey } from '../services/apiKeyService';
 
 type Theme = 'light' | 'dark' | 'system';
 
@@ -10,11 +15,101 @@ interface SettingsModalProps {
   theme: Theme;
   setTheme: (theme: Theme) => void;
   onExportHistory: () => void;
+  onImportHistory: (sessions: ChatSession[], mode: HistoryImportMode) => void;
+  existingSessionIds: string[];
   onClearHistory: () => void;
   liveConversationModel: LiveConversationModel;
   setLiveConversationModel: (model: LiveConversationModel) => void;
+  openAICompatibleConfig: OpenAICompatibleConfig;
+  setOpenAICompatibleConfig: (config: OpenAICompatibleConfig) => void;
+  isOpenAICompatibleEnabled: boolean;
+  setIsOpenAICompatibleEnabled: (enabled: boolean) => void;
+  openAICompatibleModelCount: number;
+  openAICompatibleError: string | null;
+  apiKeys: ApiKeyEntry[];
+  activeApiKeyId: string;
+  onSelectApiKey: (id: string) => void;
+  onAddApiKey: (name: string, key: string) => void;
+  onDeleteApiKey: (id: string) => void;
+  retryConfig: RetryConfig;
+  setRetryConfig: (config: RetryConfig) => void;
+  chatHistory: ChatSession[];
+  modelPrices: Record<string, ModelPrice>;
+  setModelPrices: (prices: Record<string, ModelPrice>) => void;
 }
 
+const OpenAICompatibleSettings: React.FC<{
+  config: OpenAICompatibleConfig;
+  onSave: (config: OpenAICompatibleConfig) => void;
+  isEnabled: boolean;
+  setIsEnabled: (enabled: boolean) => void;
+  modelCount: number;
+  error: string | null;
+}> = ({ config, onSave, isEnabled, setIsEnabled, modelCount, error }) => {
+  const [baseUrl, setBaseUrl] = useState(config.baseUrl);
+  const [apiKey, setApiKey] = useState(config.apiKey);
+
+  useEffect(() => {
+    setBaseUrl(config.baseUrl);
+    setApiKey(config.apiKey);
+  }, [config]);
+
+  const isDirty = baseUrl !== config.baseUrl || apiKey !== config.apiKey;
+
+  return (
+    <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-semibold text-gray-800 dark:text-gray-200">OpenAI-compatible endpoint</h4>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Chat with models served by any <code>/v1/chat/completions</code> API, such as Ollama, llama.cpp or LM Studio.</p>
+        </div>
+        <input
+          type="checkbox"
+          checked={isEnabled}
+          onChange={e => setIsEnabled(e.target.checked)}
+          className="h-4 w-4 flex-shrink-0 ml-4"
+          aria-label="Enable OpenAI-compatible endpoint"
+        />
+      </div>
+      {isEnabled && (
+        <>
+          <div>
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 block">Base URL</label>
+            <input
+              type="url"
+              value={baseUrl}
+              onChange={e => setBaseUrl(e.target.value)}
+              placeholder="http://localhost:11434/v1"
+              className="w-full p-2.5 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 block">API Key <span className="font-normal text-gray-500">(optional)</span></label>
+            <input
+              type="password"
+              value={apiKey}
+              onChange={e => setApiKey(e.target.value)}
+              className="w-full p-2.5 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <span className={`text-xs ${error ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+              {error ? error : `${modelCount} model${modelCount === 1 ? '' : 's'} available`}
+            </span>
+            <button
+              onClick={() => onSave({ baseUrl: baseUrl.trim(), apiKey: apiKey.trim() })}
+              disabled={!isDirty || !baseUrl.trim()}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-300 dark:disabled:bg-blue-800 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
 const CustomDropdown: React.FC<{
   label: string;
   options: { value: string; label: string }[];
@@ -68,7 +163,7 @@ const CustomDropdown: React.FC<{
   );
 };
 
-export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, theme, setTheme, onExportHistory, onClearHistory, liveConversationModel, setLiveConversationModel }) => {
+export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, theme, setTheme, onExportHistory, onImportHistory, existingSessionIds, onClearHistory, liveConversationModel, setLiveConversationModel, openAICompatibleConfig, setOpenAICompatibleConfig, isOpenAICompatibleEnabled, setIsOpenAICompatibleEnabled, openAICompatibleModelCount, openAICompatibleError, apiKeys, activeApiKeyId, onSelectApiKey, onAddApiKey, onDeleteApiKey, retryConfig, setRetryConfig, chatHistory, modelPrices, setModelPrices }) => {
   const [activeTab, setActiveTab] = useState('general');
 
   if (!isOpen) return null;
@@ -110,6 +205,13 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, t
     { value: LiveConversationModel.GEMINI_2_0_FLASH_LIVE_001, label: 'Gemini 2.0 Flash Live' },
   ];
 
+  const maxRetriesOptions = [0, 1, 2, 3, 5].map(count => ({
+    value: String(count),
+    label: count === 0 ? 'Off' : `${count} ${count === 1 ? 'retry' : 'retries'}`,
+  }));
+
+  const maxRetryDelayOptions = [10000, 30000, 60000].map(ms => ({ value: String(ms), label: `${ms / 1000} seconds` }));
+
   return (
     <div
       className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4"
@@ -130,6 +232,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, t
           <nav className="space-y-2">
             <NavItem id="general" label="General" Icon={Sun} />
             <NavItem id="account" label="Account & API" Icon={User} />
+            <NavItem id="providers" label="Model Providers" Icon={Server} />
+            <NavItem id="usage" label="Usage" Icon={BarChart3} />
             <NavItem id="data" label="Data & Privacy" Icon={Database} />
             <NavItem id="about" label="About" Icon={Info} />
           </nav>
@@ -167,16 +271,82 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, t
                         <span className="font-medium text-gray-600 dark:text-gray-300">Signed in as</span>
                         <span className="font-semibold text-gray-900 dark:text-gray-100">omniverse1</span>
                     </div>
-                    <div className="flex justify-between items-center p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
-                        <span className="font-medium text-gray-600 dark:text-gray-300">API Key Status</span>
-                        <div className="flex items-center gap-2 px-2 py-1 bg-green-100 dark:bg-green-900/50 text-green-800 dark:text-green-300 rounded-full text-xs">
-                           <Key className="h-3 w-3" />
-                           <span>Loaded from Environment</span>
+                    <div>
+                        <span className="font-medium text-gray-700 dark:text-gray-300 block mb-2">API Keys</span>
+                        <ul className="space-y-2">
+                            {apiKeys.map(entry => (
+                                <li key={entry.id} className="flex justify-between items-center p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                                    <div className="min-w-0">
+                                        <p className="font-medium text-gray-800 dark:text-gray-200 truncate">{entry.name}</p>
+                                        <p className="text-xs font-mono text-gray-500 dark:text-gray-400">{maskApiKey(entry.key)}</p>
+                                    </div>
+                                    <div className="flex items-center gap-2 flex-shrink-0">
+                                        {entry.id === activeApiKeyId ? (
+                                            <div className="flex items-center gap-2 px-2 py-1 bg-green-100 dark:bg-green-900/50 text-green-800 dark:text-green-300 rounded-full text-xs">
+                                                <Key className="h-3 w-3" />
+                                                <span>Active</span>
+                                            </div>
+                                        ) : (
+                                            <button onClick={() => onSelectApiKey(entry.id)} className="px-2 py-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline">Use</button>
+                                        )}
+                                        <button onClick={() => onDeleteApiKey(entry.id)} data-tooltip-text="Remove key" data-tooltip-position="left" className="p-1 text-gray-400 hover:text-red-500 dark:hover:text-red-400" aria-label={`Remove key ${entry.name}`}>
+                                            <Trash2 className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                    <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+                        <h4 className="font-semibold text-gray-800 dark:text-gray-200 mb-3">Add another key</h4>
+                        <ApiKeyForm onAdd={onAddApiKey} />
+                    </div>
+                    <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4">
+                        <div>
+                            <h4 className="font-semibold text-gray-800 dark:text-gray-200">Automatic retries</h4>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Requests that are rate limited (429) or hit an overloaded model (5xx) are retried with a randomized, growing delay. An exhausted quota is reported right away.</p>
                         </div>
+                        <CustomDropdown
+                            label="Maximum retries"
+                            options={maxRetriesOptions}
+                            selectedValue={String(retryConfig.maxRetries)}
+                            onSelect={(val) => setRetryConfig({ ...retryConfig, maxRetries: Number(val) })}
+                        />
+                        <CustomDropdown
+                            label="Longest wait between retries"
+                            options={maxRetryDelayOptions}
+                            selectedValue={String(retryConfig.maxDelayMs)}
+                            onSelect={(val) => setRetryConfig({ ...retryConfig, maxDelayMs: Number(val) })}
+                        />
                     </div>
                 </div>
               </div>
             )}
+            {activeTab === 'providers' && (
+              <div>
+                <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-6">Model Providers</h3>
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm">
+                    <span className="font-medium text-gray-600 dark:text-gray-300">Google Gemini</span>
+                    <span className="text-gray-900 dark:text-gray-100">Always enabled</span>
+                  </div>
+                  <OpenAICompatibleSettings
+                    config={openAICompatibleConfig}
+                    onSave={setOpenAICompatibleConfig}
+                    isEnabled={isOpenAICompatibleEnabled}
+                    setIsEnabled={setIsOpenAICompatibleEnabled}
+                    modelCount={openAICompatibleModelCount}
+                    error={openAICompatibleError}
+                  />
+                </div>
+              </div>
+            )}
+            {activeTab === 'usage' && (
+              <div>
+                <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-6">Usage</h3>
+                <UsageDashboard chatHistory={chatHistory} modelPrices={modelPrices} setModelPrices={setModelPrices} />
+              </div>
+            )}
             {activeTab === 'data' && (
               <div>
                 <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-6">Data & Privacy</h3>
@@ -189,6 +359,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, t
                         Export
                     </button>
                   </div>
+                  <HistoryImportPanel existingSessionIds={existingSessionIds} onImport={onImportHistory} />
                    <div className="p-4 border border-red-300 dark:border-red-700/60 rounded-lg bg-red-50/50 dark:bg-red-900/20">
                     <h4 className="font-semibold text-red-800 dark:text-red-200">Clear Chat History</h4>
                     <p className="text-sm text-red-600 dark:text-red-300/80 mt-1 mb-3">Permanently delete all of your chat history. This action cannot be undone.</p>
@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Model, MediaResolution } from '../types';
-import { ChevronDown } from 'lucide-react';
+import { Model, MediaResolution, PresetSettings, RunPreset, ContextStrategy } from '../types';
+import { ChevronDown, BookOpen } from 'lucide-react';
+import { PresetMenu } from './PresetMenu';
 
 interface SidebarProps {
   selectedModel: Model | string;
@@ -9,6 +10,7 @@ interface SidebarProps {
   modelOptions: { value: Model | string; label: string }[];
   systemInstruction: string;
   setSystemInstruction: (instruction: string) => void;
+  openPromptLibrary: () => void;
   temperature: number;
   setTemperature: (temp: number) => void;
   topP: number;
@@ -21,6 +23,10 @@ interface SidebarProps {
   modelMaxTokens: number;
   mediaResolution: MediaResolution;
   setMediaResolution: (resolution: MediaResolution) => void;
+  contextStrategy: ContextStrategy;
+  setContextStrategy: (strategy: ContextStrategy) => void;
+  contextTurns: number;
+  setContextTurns: (turns: number) => void;
   useThinking: boolean;
   setUseThinking: (enabled: boolean) => void;
   useThinkingBudget: boolean;
@@ -49,6 +55,7 @@ interface SidebarProps {
   useFunctionCalling: boolean;
   setUseFunctionCalling: (enabled: boolean) => void;
   openFunctionModal: () => void;
+  openToolHandlersModal: () => void;
 
   useGoogleSearch: boolean;
   setUseGoogleSearch: (use: boolean) => void;
@@ -59,6 +66,13 @@ interface SidebarProps {
   setUrlContext: (url: string) => void;
   isMobile: boolean;
 
+  runPresets: RunPreset[];
+  currentPresetSettings: PresetSettings;
+  onApplyPreset: (preset: RunPreset) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (preset: RunPreset) => void;
+  onImportPresets: (presets: RunPreset[]) => void;
+
   isGemmaModel: boolean;
   isImageEditModel: boolean;
   isTextToImageModel: boolean;
@@ -214,6 +228,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
   modelOptions,
   systemInstruction,
   setSystemInstruction,
+  openPromptLibrary,
   temperature,
   setTemperature,
   topP,
@@ -226,6 +241,10 @@ export const Sidebar: React.FC<SidebarProps> = ({
   modelMaxTokens,
   mediaResolution,
   setMediaResolution,
+  contextStrategy,
+  setContextStrategy,
+  contextTurns,
+  setContextTurns,
   useThinking,
   setUseThinking,
   useThinkingBudget,
@@ -250,6 +269,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
   useFunctionCalling,
   setUseFunctionCalling,
   openFunctionModal,
+  openToolHandlersModal,
   useGoogleSearch,
   setUseGoogleSearch,
   useUrlContext,
@@ -257,6 +277,12 @@ export const Sidebar: React.FC<SidebarProps> = ({
   urlContext,
   setUrlContext,
   isMobile,
+  runPresets,
+  currentPresetSettings,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
+  onImportPresets,
   isGemmaModel,
   isImageEditModel,
   isTextToImageModel,
@@ -270,6 +296,12 @@ export const Sidebar: React.FC<SidebarProps> = ({
     { value: MediaResolution.MEDIUM, label: 'Medium' },
     { value: MediaResolution.HIGH, label: 'High (Zoomed Reframing)' },
   ];
+
+  const contextStrategyOptions = [
+    { value: ContextStrategy.FULL, label: 'Full conversation' },
+    { value: ContextStrategy.SLIDING_WINDOW, label: 'Recent turns only' },
+    { value: ContextStrategy.SUMMARIZE, label: 'Summarize older turns' },
+  ];
   
   const maxThinkingBudget = isProModel ? 32768 : 24576;
   
@@ -454,9 +486,21 @@ export const Sidebar: React.FC<SidebarProps> = ({
           onSelect={(val) => setSelectedModel(val as Model | string)}
         />
         <div className="mb-4">
-          <label className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2 block px-1">
-            System Instruction
-          </label>
+          <div className="flex items-center justify-between mb-2 px-1">
+            <label className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+              System Instruction
+            </label>
+            <button
+              onClick={openPromptLibrary}
+              disabled={isGemmaModel}
+              data-tooltip-text="Prompt Library"
+              data-tooltip-position="left"
+              className="p-1 text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Open prompt library"
+            >
+              <BookOpen className="h-4 w-4" />
+            </button>
+          </div>
           <textarea
             value={systemInstruction}
             onChange={(e) => setSystemInstruction(e.target.value)}
@@ -494,6 +538,23 @@ export const Sidebar: React.FC<SidebarProps> = ({
               onSelect={(val) => setMediaResolution(val as MediaResolution)}
             />
           )}
+
+          <div>
+            <Dropdown
+              label="Context"
+              options={contextStrategyOptions}
+              selectedValue={contextStrategy}
+              onSelect={(val) => setContextStrategy(val as ContextStrategy)}
+            />
+            {contextStrategy !== ContextStrategy.FULL && (
+              <SliderInput
+                label="Recent turns kept"
+                value={contextTurns}
+                onChange={setContextTurns}
+                min={1} max={50} step={1}
+              />
+            )}
+          </div>
         </div>
 
         {isThinkingModel && (
@@ -546,7 +607,12 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 label="Function calling"
                 enabled={useFunctionCalling}
                 onToggle={setUseFunctionCalling}
-                description={<button onClick={openFunctionModal} className="text-xs text-blue-600 dark:text-blue-500 hover:underline disabled:text-gray-400 disabled:no-underline disabled:cursor-not-allowed" disabled={!useFunctionCalling}>Edit</button>}
+                description={
+                  <span className="flex gap-2">
+                    <button onClick={openFunctionModal} className="text-xs text-blue-600 dark:text-blue-500 hover:underline disabled:text-gray-400 disabled:no-underline disabled:cursor-not-allowed" disabled={!useFunctionCalling}>Edit</button>
+                    <button onClick={openToolHandlersModal} className="text-xs text-blue-600 dark:text-blue-500 hover:underline disabled:text-gray-400 disabled:no-underline disabled:cursor-not-allowed" disabled={!useFunctionCalling}>Handlers</button>
+                  </span>
+                }
             />
             <div>
               <ToggleSwitch
@@ -628,6 +694,9 @@ export const Sidebar: React.FC<SidebarProps> = ({
         p-4 w-[320px] transition-opacity duration-150 ease-in-out overflow-y-auto h-full hover-scrollbar [scrollbar-gutter:stable]
         ${isSidebarOpen ? 'opacity-100' : 'opacity-0'}
       `}>
+        <div className="px-1">
+          <PresetMenu presets={runPresets} currentSettings={currentPresetSettings} onApply={onApplyPreset} onSave={onSavePreset} onDelete={onDeletePreset} onImport={onImportPresets} />
+        </div>
         {renderContent()}
       </div>
     </aside>
@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronRight, Check, Copy, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { formatCellValue, getTableColumns, isTabular, toCsv, validateAgainstSchema } from '../lib/responseSchema';
+
+interface StructuredOutputViewProps {
+  content: string;
+  // The responseSchema the reply was requested with, if any.
+  schema?: unknown;
+  isStreaming: boolean;
+}
+
+type ViewMode = 'tree' | 'table' | 'raw';
+
+const MAX_LISTED_ISSUES = 5;
+
+const JsonValue: React.FC<{ value: unknown }> = ({ value }) => {
+  if (typeof value === 'string') return <span className="text-green-700 dark:text-green-400 break-words">"{value}"</span>;
+  if (typeof value === 'number') return <span className="text-blue-700 dark:text-blue-400">{value}</span>;
+  if (typeof value === 'boolean' || value === null) return <span className="text-purple-700 dark:text-purple-400">{String(value)}</span>;
+  return null;
+};
+
+const JsonTreeNode: React.FC<{ label?: string; value: unknown; depth: number }> = ({ label, value, depth }) => {
+  const [isExpanded, setIsExpanded] = useState(depth < 2);
+  const isContainer = typeof value === 'object' && value !== null;
+  const labelNode = label !== undefined && <span className="text-gray-600 dark:text-gray-400">{label}: </span>;
+
+  if (!isContainer) {
+    return <div className="pl-5">{labelNode}<JsonValue value={value} /></div>;
+  }
+
+  const entries = Array.isArray(value) ? value.map((item, index) => [String(index), item] as const) : Object.entries(value);
+  const summary = Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`;
+  return (
+    <div>
+      <button onClick={() => setIsExpanded(prev => !prev)} className="flex items-center text-left hover:bg-gray-100 dark:hover:bg-gray-800 rounded" aria-expanded={isExpanded}>
+        <ChevronRight className={`h-4 w-4 text-gray-400 flex-shrink-0 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+        {labelNode}<span className="text-gray-400">{summary}</span>
+      </button>
+      {isExpanded && (
+        <div className="ml-2 border-l border-gray-200 dark:border-gray-700">
+          {entries.map(([key, item]) => <JsonTreeNode key={key} label={key} value={item} depth={depth + 1} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const JsonTable: React.FC<{ rows: Record<string, unknown>[] }> = ({ rows }) => {
+  const columns = getTableColumns(rows);
+  return (
+    <div className="overflow-x-auto max-h-96 hover-scrollbar">
+      <table className="min-w-full text-sm border-collapse">
+        <thead>
+          <tr>
+            {columns.map(column => (
+              <th key={column} className="sticky top-0 bg-gray-100 dark:bg-gray-800 text-left font-semibold px-3 py-2 border-b border-gray-200 dark:border-gray-700">{column}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index} className="odd:bg-white even:bg-gray-50 dark:odd:bg-gray-900 dark:even:bg-gray-800/50">
+              {columns.map(column => (
+                <td key={column} className="px-3 py-1.5 border-b border-gray-100 dark:border-gray-800 align-top">{formatCellValue(row[column])}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const StructuredOutputView: React.FC<StructuredOutputViewProps> = ({ content, schema, isStreaming }) => {
+  const parsed = useMemo<{ ok: true; value: unknown } | { ok: false }>(() => {
+    try {
+      return { ok: true, value: JSON.parse(content) };
+    } catch {
+      return { ok: false };
+    }
+  }, [content]);
+  const issues = useMemo(() => parsed.ok && schema ? validateAgainstSchema(parsed.value, schema) : [], [parsed, schema]);
+  const tabular = parsed.ok && isTabular(parsed.value);
+  const [viewMode, setViewMode] = useState<ViewMode | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Partial JSON can't be parsed, so the reply is shown as text until it is complete.
+  if (!parsed.ok) {
+    return (
+      <div className="w-full">
+        <pre className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg text-sm font-mono whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200">{content}</pre>
+        {!isStreaming && content.trim() && (
+          <p className="mt-2 flex items-center gap-1 text-xs text-red-600 dark:text-red-400"><AlertTriangle className="h-3.5 w-3.5" /> The reply is not valid JSON.</p>
+        )}
+      </div>
+    );
+  }
+
+  const activeView = viewMode ?? (tabular ? 'table' : 'tree');
+  const handleCopyCsv = () => {
+    if (!tabular) return;
+    navigator.clipboard.writeText(toCsv(parsed.value as Record<string, unknown>[]));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+  const tabClass = (tab: ViewMode) => `px-2 py-1 text-xs font-medium rounded-md ${activeView === tab ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm' : 'text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'}`;
+
+  return (
+    <div className="w-full border border-gray-200 dark:border-gray-700 rounded-xl overflow-hidden text-gray-800 dark:text-gray-200">
+      <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 bg-gray-50 dark:bg-gray-800/60 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex gap-1 p-0.5 bg-gray-100 dark:bg-gray-900 rounded-lg">
+          <button onClick={() => setViewMode('tree')} className={tabClass('tree')}>Tree</button>
+          {tabular && <button onClick={() => setViewMode('table')} className={tabClass('table')}>Table</button>}
+          <button onClick={() => setViewMode('raw')} className={tabClass('raw')}>Raw</button>
+        </div>
+        <div className="flex items-center gap-3">
+          {schema !== undefined && (
+            issues.length === 0
+              ? <span className="flex items-center gap-1 text-xs text-green-700 dark:text-green-400"><CheckCircle2 className="h-3.5 w-3.5" /> Matches schema</span>
+              : <span className="flex items-center gap-1 text-xs text-red-600 dark:text-red-400"><AlertTriangle className="h-3.5 w-3.5" /> {issues.length} schema issue{issues.length === 1 ? '' : 's'}</span>
+          )}
+          {tabular && (
+            <button onClick={handleCopyCsv} className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-500 dark:text-blue-400">
+              {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />} {copied ? 'Copied' : 'Copy as CSV'}
+            </button>
+          )}
+        </div>
+      </div>
+      {issues.length > 0 && (
+        <ul className="px-4 py-2 text-xs font-mono text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 border-b border-red-200 dark:border-red-900/60">
+          {issues.slice(0, MAX_LISTED_ISSUES).map(issue => <li key={issue}>{issue}</li>)}
+          {issues.length > MAX_LISTED_ISSUES && <li>…and {issues.length - MAX_LISTED_ISSUES} more</li>}
+        </ul>
+      )}
+      <div className="p-3 text-sm font-mono">
+        {activeView === 'table' && tabular ? (
+          <JsonTable rows={parsed.value as Record<string, unknown>[]} />
+        ) : activeView === 'raw' ? (
+          <pre className="whitespace-pre-wrap break-words">{JSON.stringify(parsed.value, null, 2)}</pre>
+        ) : (
+          <JsonTreeNode value={parsed.value} depth={0} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StructuredOutputView;
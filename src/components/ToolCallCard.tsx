@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Wrench, ChevronDown, Loader2, Check, AlertTriangle, Send } from 'lucide-react';
+import { ToolCall, ToolCallStatus } from '../types';
+
+interface ToolCallCardProps {
+  call: ToolCall;
+  // True while the reply is waiting on a typed response for this call.
+  canRespond: boolean;
+  onSubmitResponse: (response: unknown) => void;
+}
+
+const statusBadges: Record<ToolCallStatus, { label: string; className: string }> = {
+  [ToolCallStatus.PENDING]: { label: 'Awaiting response', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300' },
+  [ToolCallStatus.RUNNING]: { label: 'Running handler', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300' },
+  [ToolCallStatus.COMPLETED]: { label: 'Responded', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300' },
+  [ToolCallStatus.FAILED]: { label: 'Failed', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300' },
+};
+
+const StatusIcon: React.FC<{ status: ToolCallStatus }> = ({ status }) => {
+  if (status === ToolCallStatus.RUNNING) return <Loader2 className="h-3.5 w-3.5 animate-spin" />;
+  if (status === ToolCallStatus.COMPLETED) return <Check className="h-3.5 w-3.5" />;
+  if (status === ToolCallStatus.FAILED) return <AlertTriangle className="h-3.5 w-3.5" />;
+  return null;
+};
+
+const ToolCallCard: React.FC<ToolCallCardProps> = ({ call, canRespond, onSubmitResponse }) => {
+  const [isExpanded, setIsExpanded] = useState(call.status === ToolCallStatus.PENDING);
+  const [draft, setDraft] = useState('{\n  \n}');
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const badge = statusBadges[call.status];
+  const showInput = canRespond && call.status === ToolCallStatus.PENDING;
+
+  const handleSubmit = () => {
+    try {
+      onSubmitResponse(JSON.parse(draft));
+      setDraftError(null);
+    } catch {
+      setDraftError("The response must be valid JSON.");
+    }
+  };
+
+  return (
+    <div className="my-3 border border-gray-200 dark:border-gray-700 rounded-xl overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="w-full flex items-center justify-between gap-3 px-4 py-2.5 bg-gray-50 dark:bg-gray-800/60 hover:bg-gray-100 dark:hover:bg-gray-800"
+        aria-expanded={isExpanded || showInput}
+      >
+        <span className="flex items-center gap-2 min-w-0">
+          <Wrench className="h-4 w-4 text-gray-500 dark:text-gray-400 flex-shrink-0" />
+          <code className="text-sm font-semibold text-gray-800 dark:text-gray-200 truncate">{call.name}</code>
+        </span>
+        <span className="flex items-center gap-2 flex-shrink-0">
+          <span className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded-full ${badge.className}`}>
+            <StatusIcon status={call.status} /> {badge.label}
+          </span>
+          <ChevronDown className={`h-4 w-4 text-gray-400 transition-transform ${isExpanded || showInput ? 'rotate-180' : ''}`} />
+        </span>
+      </button>
+      {(isExpanded || showInput) && (
+        <div className="px-4 py-3 space-y-3 text-sm">
+          <div>
+            <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Arguments</p>
+            <pre className="p-2 bg-gray-100 dark:bg-gray-900 rounded-lg text-xs text-gray-800 dark:text-gray-200 overflow-x-auto">{JSON.stringify(call.args, null, 2)}</pre>
+          </div>
+          {call.error && <p className="text-xs text-red-600 dark:text-red-400">{call.error}</p>}
+          {call.response && (
+            <div>
+              <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Response</p>
+              <pre className="p-2 bg-gray-100 dark:bg-gray-900 rounded-lg text-xs text-gray-800 dark:text-gray-200 overflow-x-auto">{JSON.stringify(call.response, null, 2)}</pre>
+            </div>
+          )}
+          {showInput && (
+            <div>
+              <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Mock response (JSON)</p>
+              <textarea
+                value={draft}
+                onChange={e => { setDraft(e.target.value); setDraftError(null); }}
+                onKeyDown={e => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) { e.preventDefault(); handleSubmit(); } }}
+                rows={4}
+                autoFocus
+                className="w-full p-2 border border-gray-200 dark:border-gray-700 rounded-lg text-xs font-mono text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-950 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-y"
+                aria-label={`Response for ${call.name}`}
+              />
+              <div className="flex items-center justify-between mt-2">
+                <span className="text-xs text-red-600 dark:text-red-400">{draftError}</span>
+                <button onClick={handleSubmit} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700">
+                  <Send className="h-3.5 w-3.5" /> Send response
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolCallCard;
@@ -0,0 +1,102 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+
+interface ToolHandlersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  functionDeclarations: string;
+  // Handler bodies keyed by function name.
+  handlers: Record<string, string>;
+  onSave: (handlers: Record<string, string>) => void;
+}
+
+interface DeclarationSummary {
+  name: string;
+  description?: string;
+  parameterNames: string[];
+}
+
+const parseDeclarations = (json: string): DeclarationSummary[] => {
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter(declaration => typeof declaration?.name === 'string')
+      .map(declaration => ({
+        name: declaration.name,
+        description: typeof declaration.description === 'string' ? declaration.description : undefined,
+        parameterNames: Object.keys(declaration.parameters?.properties ?? {}),
+      }));
+  } catch {
+    return [];
+  }
+};
+
+export const ToolHandlersModal: React.FC<ToolHandlersModalProps> = ({ isOpen, onClose, functionDeclarations, handlers, onSave }) => {
+  const declarations = useMemo(() => parseDeclarations(functionDeclarations), [functionDeclarations]);
+  const [drafts, setDrafts] = useState<Record<string, string>>(handlers);
+
+  useEffect(() => {
+    if (isOpen) setDrafts(handlers);
+  }, [isOpen, handlers]);
+
+  if (!isOpen) return null;
+
+  const handleSave = () => {
+    // Handlers of functions that are no longer declared are kept in case the declaration comes back.
+    const cleaned = Object.fromEntries(Object.entries({ ...handlers, ...drafts }).filter(([, code]) => code.trim()));
+    onSave(cleaned);
+    onClose();
+  };
+
+  return (
+    <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center"
+        onClick={onClose}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="tool-handlers-title"
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 id="tool-handlers-title" className="text-lg font-semibold text-gray-900 dark:text-gray-100">Function Handlers</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200" aria-label="Close modal">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="p-6 flex-1 overflow-y-auto hover-scrollbar space-y-5">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Write a JavaScript function body for each declaration. It receives the call's arguments as <code>args</code> and can <code>return</code> (or <code>await</code>) a JSON value, which is sent back to the model.
+            Handlers run in a sandboxed worker that can't reach the app's storage or the network, and time out after 10 seconds. Leave a handler empty to type a mock response in the chat instead.
+          </p>
+          {declarations.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No valid function declarations. Add some with "Edit" next to the Function calling toggle.</p>
+          ) : declarations.map(declaration => (
+            <div key={declaration.name}>
+              <label className="block mb-1">
+                <code className="text-sm font-semibold text-gray-800 dark:text-gray-200">{declaration.name}({declaration.parameterNames.join(', ')})</code>
+                {declaration.description && <span className="block text-xs text-gray-500 dark:text-gray-400">{declaration.description}</span>}
+              </label>
+              <textarea
+                value={drafts[declaration.name] ?? ''}
+                onChange={e => setDrafts(prev => ({ ...prev, [declaration.name]: e.target.value }))}
+                placeholder={`// e.g. return { ok: true, received: args${declaration.parameterNames[0] ? `.${declaration.parameterNames[0]}` : ''} };`}
+                rows={5}
+                className="w-full p-3 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+                aria-label={`Handler for ${declaration.name}`}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end p-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 rounded-b-lg">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 mr-2 dark:bg-gray-700 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-600">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, RotateCcw, Trash2 } from 'lucide-react';
+import { ChatSession, ModelPrice } from '../types';
+import { addUsage, aggregateUsage, collectUsageRecords, DEFAULT_MODEL_PRICES, EMPTY_USAGE, estimateCost, formatCost, UsageGroupBy } from '../lib/usage';
+
+interface UsageDashboardProps {
+  chatHistory: ChatSession[];
+  modelPrices: Record<string, ModelPrice>;
+  setModelPrices: (prices: Record<string, ModelPrice>) => void;
+}
+
+const groupByLabels: Record<UsageGroupBy, string> = { day: 'Day', model: 'Model', chat: 'Chat' };
+
+const priceColumns: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'inputPerMillion', label: 'Input' },
+  { key: 'cachedInputPerMillion', label: 'Cached input' },
+  { key: 'outputPerMillion', label: 'Output' },
+];
+
+const formatTokens = (count: number) => count.toLocaleString();
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ chatHistory, modelPrices, setModelPrices }) => {
+  const [groupBy, setGroupBy] = useState<UsageGroupBy>('day');
+  const records = useMemo(() => collectUsageRecords(chatHistory), [chatHistory]);
+  const groups = useMemo(() => aggregateUsage(records, groupBy, modelPrices), [records, groupBy, modelPrices]);
+  const totals = useMemo(() => records.reduce((sum, record) => addUsage(sum, record.usage), EMPTY_USAGE), [records]);
+  const totalCost = useMemo(() => records.reduce((sum, record) => sum + (estimateCost(record.usage, modelPrices[record.model]) ?? 0), 0), [records, modelPrices]);
+  // Models that were used but have no price yet get an empty row so they can be priced.
+  const pricedModels = useMemo(() => [...new Set([...Object.keys(modelPrices), ...records.map(record => record.model)])], [modelPrices, records]);
+
+  const updatePrice = (model: string, key: keyof ModelPrice, value: string) => {
+    const current = modelPrices[model] ?? { inputPerMillion: 0, outputPerMillion: 0, cachedInputPerMillion: 0 };
+    setModelPrices({ ...modelPrices, [model]: { ...current, [key]: Math.max(0, Number(value) || 0) } });
+  };
+
+  const removePrice = (model: string) => {
+    const { [model]: _removed, ...rest } = modelPrices;
+    setModelPrices(rest);
+  };
+
+  const tabClass = (tab: UsageGroupBy) => `px-3 py-1.5 text-sm font-medium rounded-lg ${groupBy === tab ? 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100' : 'text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'}`;
+
+  return (
+    <div className="space-y-6 text-sm">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {[
+          { label: 'Input tokens', value: formatTokens(totals.promptTokens) },
+          { label: 'Output tokens', value: formatTokens(totals.candidatesTokens) },
+          { label: 'Thinking tokens', value: formatTokens(totals.thinkingTokens) },
+          { label: 'Estimated cost', value: formatCost(totalCost) },
+        ].map(stat => (
+          <div key={stat.label} className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+            <p className="text-xs text-gray-500 dark:text-gray-400">{stat.label}</p>
+            <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="font-medium text-gray-700 dark:text-gray-300">Breakdown</span>
+          <div className="flex gap-1">
+            {(Object.keys(groupByLabels) as UsageGroupBy[]).map(tab => (
+              <button key={tab} onClick={() => setGroupBy(tab)} className={tabClass(tab)}>{groupByLabels[tab]}</button>
+            ))}
+          </div>
+        </div>
+        {groups.length === 0 ? (
+          <p className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-gray-500 dark:text-gray-400">No token usage recorded yet. Usage is stored with each reply from now on.</p>
+        ) : (
+          <div className="overflow-x-auto max-h-64 hover-scrollbar border border-gray-200 dark:border-gray-700 rounded-lg">
+            <table className="min-w-full">
+              <thead className="text-xs text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="sticky top-0 bg-gray-50 dark:bg-gray-800 text-left font-medium px-3 py-2">{groupByLabels[groupBy]}</th>
+                  <th className="sticky top-0 bg-gray-50 dark:bg-gray-800 text-right font-medium px-3 py-2">Replies</th>
+                  <th className="sticky top-0 bg-gray-50 dark:bg-gray-800 text-right font-medium px-3 py-2">Input</th>
+                  <th className="sticky top-0 bg-gray-50 dark:bg-gray-800 text-right font-medium px-3 py-2">Output</th>
+                  <th className="sticky top-0 bg-gray-50 dark:bg-gray-800 text-right font-medium px-3 py-2">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-800 dark:text-gray-200">
+                {groups.map(group => (
+                  <tr key={group.key} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="px-3 py-1.5 max-w-[14rem] truncate" title={group.label}>{group.label}</td>
+                    <td className="px-3 py-1.5 text-right">{group.replies}</td>
+                    <td className="px-3 py-1.5 text-right">{formatTokens(group.usage.promptTokens)}</td>
+                    <td className="px-3 py-1.5 text-right">{formatTokens(group.usage.candidatesTokens + group.usage.thinkingTokens)}</td>
+                    <td className="px-3 py-1.5 text-right">
+                      <span className="inline-flex items-center gap-1">
+                        {group.hasUnpricedReplies && (
+                          <span data-tooltip-text="Some replies used a model without a price" data-tooltip-position="left">
+                            <AlertTriangle className="h-3.5 w-3.5 text-amber-500" />
+                          </span>
+                        )}
+                        {formatCost(group.cost)}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+        <div className="flex items-start justify-between mb-3">
+          <div>
+            <h4 className="font-semibold text-gray-800 dark:text-gray-200">Prices</h4>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">USD per million tokens. Thinking tokens are billed as output. Costs are estimates.</p>
+          </div>
+          <button onClick={() => setModelPrices(DEFAULT_MODEL_PRICES)} className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-500 dark:text-blue-400 flex-shrink-0">
+            <RotateCcw className="h-3.5 w-3.5" /> Reset
+          </button>
+        </div>
+        <table className="w-full">
+          <thead className="text-xs text-gray-500 dark:text-gray-400">
+            <tr>
+              <th className="text-left font-medium pb-1">Model</th>
+              {priceColumns.map(column => <th key={column.key} className="text-left font-medium pb-1 px-1">{column.label}</th>)}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {pricedModels.map(model => (
+              <tr key={model}>
+                <td className="py-1 pr-2 font-mono text-xs text-gray-800 dark:text-gray-200 break-all">{model}</td>
+                {priceColumns.map(column => (
+                  <td key={column.key} className="py-1 px-1">
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={modelPrices[model]?.[column.key] ?? ''}
+                      placeholder="—"
+                      onChange={e => updatePrice(model, column.key, e.target.value)}
+                      className="w-20 p-1.5 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      aria-label={`${column.label} price for ${model}`}
+                    />
+                  </td>
+                ))}
+                <td className="py-1 text-right">
+                  {modelPrices[model] && !(model in DEFAULT_MODEL_PRICES) && (
+                    <button onClick={() => removePrice(model)} className="p-1 text-gray-400 hover:text-red-500 dark:hover:text-red-400" aria-label={`Remove price for ${model}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import { BatchRow, BatchRowStatus } from '../types';
+import { parseCsv } from './tuningData';
+
+export type BatchFormat = 'csv' | 'jsonl';
+
+export interface BatchDataset {
+  columns: string[];
+  rows: Record<string, string>[];
+  // Human-readable notes about lines that could not be used.
+  issues: string[];
+}
+
+export const batchFormatOf = (fileName: string): BatchFormat | null => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.csv')) return 'csv';
+  if (name.endsWith('.jsonl') || name.endsWith('.ndjson')) return 'jsonl';
+  return null;
+};
+
+const cellText = (value: unknown): string =>
+  typeof value === 'string' ? value : value === null || value === undefined ? '' : JSON.stringify(value);
+
+const csvToDataset = (text: string): BatchDataset => {
+  const [header = [], ...dataRows] = parseCsv(text);
+  if (header.length === 0) return { columns: [], rows: [], issues: ['The file is empty.'] };
+  // Blank or repeated headers get a positional name so every column can still be referenced.
+  const columns = header.map((cell, index) => {
+    const name = cell.trim();
+    return name && header.findIndex(other => other.trim() === name) === index ? name : `column_${index + 1}`;
+  });
+  const rows = dataRows.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ''])));
+  return { columns, rows, issues: [] };
+};
+
+const jsonlToDataset = (text: string): BatchDataset => {
+  const columns: string[] = [];
+  const rows: Record<string, string>[] = [];
+  const issues: string[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      const record = JSON.parse(line);
+      if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+        issues.push(`Line ${index + 1} was skipped because it isn't a JSON object.`);
+        return;
+      }
+      Object.keys(record).forEach(key => { if (!columns.includes(key)) columns.push(key); });
+      rows.push(Object.fromEntries(Object.entries(record).map(([key, value]) => [key, cellText(value)])));
+    } catch {
+      issues.push(`Line ${index + 1} was skipped because it isn't valid JSON.`);
+    }
+  });
+  // Records may have different keys; the missing ones read as empty.
+  return { columns, rows: rows.map(row => Object.fromEntries(columns.map(column => [column, row[column] ?? '']))), issues };
+};
+
+export function parseBatchDataset(text: string, format: BatchFormat): BatchDataset {
+  const content = text.replace(/^\uFEFF/, '');
+  const dataset = format === 'csv' ? csvToDataset(content) : jsonlToDataset(content);
+  if (dataset.rows.length === 0 && dataset.issues.length === 0) dataset.issues.push('The file has no data rows.');
+  return dataset;
+}
+
+export const createBatchRows = (dataset: BatchDataset): BatchRow[] =>
+  dataset.rows.map((values, index) => ({ index, values, status: BatchRowStatus.PENDING, attempts: 0 }));
+
+// Structured output is usually fenced or wrapped in prose by models that ignore the response MIME type.
+export function parseJsonOutput(output: string): unknown {
+  const fenced = output.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  try {
+    return JSON.parse(fenced ? fenced[1] : output.trim());
+  } catch {
+    return undefined;
+  }
+}
+
+const csvCell = (value: string): string => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Serializes the input columns followed by the result. With `isJsonOutput`, JSONL rows embed the parsed output and
+ * CSV rows get an `output.<key>` column for each top-level key of the parsed objects.
+ */
+export function formatBatchResults(rows: BatchRow[], columns: string[], format: BatchFormat, isJsonOutput: boolean): string {
+  const parsedOutputs = rows.map(row => isJsonOutput && row.output ? parseJsonOutput(row.output) : undefined);
+  const statusOf = (row: BatchRow) => ({ status: row.status, error: row.error?.message ?? '' });
+
+  if (format === 'jsonl') {
+    return rows.map((row, index) => JSON.stringify({
+      ...row.values,
+      output: parsedOutputs[index] ?? row.output ?? '',
+      ...statusOf(row),
+    })).join('\n') + '\n';
+  }
+
+  const outputKeys: string[] = [];
+  parsedOutputs.forEach(parsed => {
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return;
+    Object.keys(parsed).forEach(key => { if (!outputKeys.includes(key)) outputKeys.push(key); });
+  });
+  const header = [...columns, 'output', ...outputKeys.map(key => `output.${key}`), 'status', 'error'];
+  const lines = rows.map((row, index) => {
+    const parsed = parsedOutputs[index] as Record<string, unknown> | undefined;
+    const { status, error } = statusOf(row);
+    return [
+      ...columns.map(column => row.values[column] ?? ''),
+      row.output ?? '',
+      ...outputKeys.map(key => cellText(typeof parsed === 'object' && parsed !== null ? parsed[key] : undefined)),
+      status,
+      error,
+    ].map(csvCell).join(',');
+  });
+  return [header.map(csvCell).join(','), ...lines].join('\r\n') + '\r\n';
+}
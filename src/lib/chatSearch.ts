@@ -0,0 +1,80 @@
+import { ChatSession, FileSystemNode, Role } from '../types';
+
+export type SearchMatchKind = 'title' | 'user' | 'model' | 'reasoning' | 'attachment' | 'file';
+
+export interface SearchResult {
+  key: string;
+  chatId: string;
+  chatTitle: string;
+  kind: SearchMatchKind;
+  messageId?: string;
+  filePath?: string;
+  snippet: string;
+}
+
+interface SearchEntry extends Omit<SearchResult, 'snippet'> {
+  text: string;
+}
+
+const SNIPPET_RADIUS = 60;
+const MAX_RESULTS = 100;
+
+export const toSearchTerms = (query: string): string[] => query.toLowerCase().split(/\s+/).filter(Boolean);
+
+const flattenFiles = (nodes: { [key: string]: FileSystemNode }, basePath = ''): { path: string; content: string }[] =>
+  Object.values(nodes).flatMap(node => {
+    const path = basePath ? `${basePath}/${node.name}` : node.name;
+    return node.children ? flattenFiles(node.children, path) : [{ path, content: node.encoding === 'base64' ? '' : node.content ?? '' }];
+  });
+
+// Every message of every branch is indexed, so results can point into branches that are not currently shown.
+const buildEntries = (chat: ChatSession): SearchEntry[] => {
+  const base = { chatId: chat.id, chatTitle: chat.title };
+  const entries: SearchEntry[] = [{ ...base, key: `${chat.id}:title`, kind: 'title', text: chat.title }];
+
+  chat.messages.forEach(msg => {
+    const messageBase = { ...base, messageId: msg.id };
+    entries.push({ ...messageBase, key: `${msg.id}:content`, kind: msg.role === Role.USER ? 'user' : 'model', text: msg.content });
+    if (msg.reasoning) {
+      entries.push({ ...messageBase, key: `${msg.id}:reasoning`, kind: 'reasoning', text: msg.reasoning });
+    }
+    msg.attachments?.forEach(att => {
+      entries.push({ ...messageBase, key: `${msg.id}:${att.id}`, kind: 'attachment', text: att.name });
+    });
+  });
+
+  if (chat.project) {
+    flattenFiles(chat.project.files).forEach(file => {
+      entries.push({ ...base, key: `${chat.id}:file:${file.path}`, kind: 'file', filePath: file.path, text: `${file.path}\n${file.content}` });
+    });
+  }
+  return entries;
+};
+
+const makeSnippet = (text: string, terms: string[]): string => {
+  const lower = text.toLowerCase();
+  const matchIndex = lower.indexOf(terms[0]);
+  const start = Math.max(0, matchIndex - SNIPPET_RADIUS);
+  const end = Math.min(text.length, matchIndex + terms[0].length + SNIPPET_RADIUS);
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Case-insensitive search where every term of the query has to appear in the same field.
+ */
+export function searchChats(chatHistory: ChatSession[], query: string): SearchResult[] {
+  const terms = toSearchTerms(query);
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  for (const chat of chatHistory) {
+    for (const { text, ...entry } of buildEntries(chat)) {
+      const lower = text.toLowerCase();
+      if (!terms.every(term => lower.includes(term))) continue;
+      results.push({ ...entry, snippet: makeSnippet(text, terms) });
+      if (results.length >= MAX_RESULTS) return results;
+    }
+  }
+  return results;
+}
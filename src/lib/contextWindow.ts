@@ -0,0 +1,53 @@
+import { Attachment, ChatMessage, ContextSummary, Role } from '../types';
+
+// Attachments in older turns are replaced by a short note when their data URL is longer than this.
+const LARGE_ATTACHMENT_LENGTH = 1_000_000;
+// Attachments of the most recent messages are always sent as they are.
+const RECENT_MESSAGES_WITH_ATTACHMENTS = 4;
+
+export const isLargeAttachment = (attachment: Attachment): boolean =>
+  attachment.mimeType.startsWith('video/') || attachment.dataUrl.length > LARGE_ATTACHMENT_LENGTH;
+
+/**
+ * Index of the first message kept when only the last `turns` user turns (each with its replies) are sent.
+ * Returns 0 when the conversation fits and `messages.length` when `turns` is 0.
+ */
+export function findContextStart(messages: ChatMessage[], turns: number): number {
+  if (turns <= 0) return messages.length;
+  let seen = 0;
+  for (let index = messages.length - 1; index >= 0; index--) {
+    if (messages[index].role === Role.USER && ++seen === turns) return index;
+  }
+  return 0;
+}
+
+export const compactOldAttachments = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.map((msg, index) => {
+    const omitted = msg.attachments?.filter(isLargeAttachment) ?? [];
+    if (index >= messages.length - RECENT_MESSAGES_WITH_ATTACHMENTS || omitted.length === 0) return msg;
+    const note = omitted.map(attachment => `[Attachment "${attachment.name}" (${attachment.mimeType}) omitted from the context]`).join('\n');
+    return {
+      ...msg,
+      content: msg.content ? `${msg.content}\n\n${note}` : note,
+      attachments: msg.attachments!.filter(attachment => !isLargeAttachment(attachment)),
+    };
+  });
+
+/**
+ * Works out which dropped messages still need summarizing. A cached summary is extended when it ends on one of
+ * the dropped messages, and ignored otherwise (e.g. after switching to another branch).
+ */
+export function getPendingSummaryMessages(dropped: ChatMessage[], summary?: ContextSummary): { previousSummary?: string; pending: ChatMessage[] } {
+  const coveredIndex = summary ? dropped.findIndex(msg => msg.id === summary.throughMessageId) : -1;
+  return coveredIndex >= 0
+    ? { previousSummary: summary!.text, pending: dropped.slice(coveredIndex + 1) }
+    : { pending: dropped };
+}
+
+export const formatTranscript = (messages: ChatMessage[]): string =>
+  messages.map(msg => {
+    const speaker = msg.role === Role.USER ? 'User' : 'Assistant';
+    const toolText = msg.toolTurns?.map(turn => [turn.text, ...turn.calls.map(call => `[Called ${call.name}(${JSON.stringify(call.args)}) → ${JSON.stringify(call.response ?? null)}]`)].filter(Boolean).join('\n')) ?? [];
+    const attachmentNote = msg.attachments?.length ? `[Attachments: ${msg.attachments.map(attachment => attachment.name).join(', ')}]` : '';
+    return `${speaker}: ${[...toolText, msg.content, attachmentNote].filter(Boolean).join('\n')}`;
+  }).join('\n\n');
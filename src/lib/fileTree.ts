@@ -0,0 +1,189 @@
+import { FileSystemNode } from '../types';
+
+export type FileTree = { [key: string]: FileSystemNode };
+
+// Every edit returns a new tree so the project can be stored as is; the error is shown to the user.
+export type FileTreeResult = { files: FileTree } | { error: string };
+
+export const joinPath = (folderPath: string, name: string): string => folderPath ? `${folderPath}/${name}` : name;
+
+export const parentPath = (path: string): string => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+export const baseName = (path: string): string => path.slice(path.lastIndexOf('/') + 1);
+
+/**
+ * File contents keyed by full path. Folders are left out.
+ */
+export function flattenFiles(nodes: FileTree, basePath = ''): { [path: string]: string } {
+  const flat: { [path: string]: string } = {};
+  for (const key in nodes) {
+    const path = joinPath(basePath, key);
+    const node = nodes[key];
+    if (typeof node.content === 'string') flat[path] = node.content;
+    if (node.children) Object.assign(flat, flattenFiles(node.children, path));
+  }
+  return flat;
+}
+
+export function getNode(files: FileTree, path: string): FileSystemNode | null {
+  if (!path) return null;
+  let level: FileTree | undefined = files;
+  let node: FileSystemNode | null = null;
+  for (const part of path.split('/')) {
+    node = level?.[part] ?? null;
+    if (!node) return null;
+    level = node.children;
+  }
+  return node;
+}
+
+export const isFolder = (node: FileSystemNode | null): boolean => !!node?.children;
+
+export type FileData = Pick<FileSystemNode, 'content' | 'encoding'>;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large files don't exceed the argument limit of String.fromCharCode.
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Keeps UTF-8 text as is and base64-encodes anything else, such as images or fonts.
+ */
+export function decodeFileData(bytes: Uint8Array): FileData {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    if (!text.includes('\0')) return { content: text };
+  } catch {
+    // Not valid UTF-8, so it's stored as binary.
+  }
+  return { content: toBase64(bytes), encoding: 'base64' };
+}
+
+/**
+ * The project's files as one text block for the model. Binary files are listed without their content.
+ */
+export function formatProjectFiles(files: FileTree, basePath = ''): string {
+  return Object.entries(files).map(([key, node]) => {
+    const path = joinPath(basePath, key);
+    if (node.children) return formatProjectFiles(node.children, path);
+    if (node.encoding === 'base64') return `--- ${path} (binary file, not shown) ---`;
+    return `--- ${path} ---\n${node.content ?? ''}`;
+  }).filter(Boolean).join('\n\n');
+}
+
+export function validateName(name: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return "The name can't be empty.";
+  if (trimmed.includes('/') || trimmed.includes('\\')) return "The name can't contain slashes.";
+  if (trimmed === '.' || trimmed === '..') return `"${trimmed}" isn't a valid name.`;
+  return null;
+}
+
+// Copies the folders along `folderPath` so the returned level can be changed without touching `files`.
+const withLevel = (files: FileTree, folderPath: string, update: (level: FileTree) => string | null): FileTreeResult => {
+  const root: FileTree = { ...files };
+  let level = root;
+  if (folderPath) {
+    for (const part of folderPath.split('/')) {
+      const node = level[part];
+      if (!node?.children) return { error: `The folder "${folderPath}" doesn't exist.` };
+      const copy = { ...node, children: { ...node.children } };
+      level[part] = copy;
+      level = copy.children;
+    }
+  }
+  const error = update(level);
+  return error ? { error } : { files: root };
+};
+
+const addNode = (files: FileTree, folderPath: string, node: FileSystemNode): FileTreeResult => {
+  const nameError = validateName(node.name);
+  if (nameError) return { error: nameError };
+  return withLevel(files, folderPath, level => {
+    if (level[node.name]) return `"${joinPath(folderPath, node.name)}" already exists.`;
+    level[node.name] = node;
+    return null;
+  });
+};
+
+export const createFile = (files: FileTree, folderPath: string, name: string, data: FileData = { content: '' }): FileTreeResult =>
+  addNode(files, folderPath, { name: name.trim(), ...data });
+
+export const createFolder = (files: FileTree, folderPath: string, name: string): FileTreeResult =>
+  addNode(files, folderPath, { name: name.trim(), children: {} });
+
+/**
+ * Sets the content of the file at `path`, creating the file and any missing folders.
+ */
+export function writeFile(files: FileTree, path: string, content: string): FileTreeResult {
+  const folders = path.split('/');
+  const name = folders.pop()!;
+  const nameError = validateName(name);
+  if (nameError) return { error: nameError };
+  let result: FileTreeResult = { files };
+  for (let i = 0; i < folders.length && 'files' in result; i++) {
+    const folderPath = folders.slice(0, i).join('/');
+    if (!getNode(result.files, joinPath(folderPath, folders[i]))) result = createFolder(result.files, folderPath, folders[i]);
+  }
+  if ('error' in result) return result;
+  return withLevel(result.files, folders.join('/'), level => {
+    if (level[name]?.children) return `"${path}" is a folder.`;
+    level[name] = { name, content };
+    return null;
+  });
+}
+
+export const deletePath = (files: FileTree, path: string): FileTreeResult =>
+  withLevel(files, parentPath(path), level => {
+    const name = baseName(path);
+    if (!level[name]) return `"${path}" doesn't exist.`;
+    delete level[name];
+    return null;
+  });
+
+export function renamePath(files: FileTree, path: string, newName: string): FileTreeResult {
+  const node = getNode(files, path);
+  if (!node) return { error: `"${path}" doesn't exist.` };
+  const name = newName.trim();
+  if (name === node.name) return { files };
+  const removed = deletePath(files, path);
+  return 'error' in removed ? removed : addNode(removed.files, parentPath(path), { ...node, name });
+}
+
+export function movePath(files: FileTree, path: string, targetFolderPath: string): FileTreeResult {
+  const node = getNode(files, path);
+  if (!node) return { error: `"${path}" doesn't exist.` };
+  if (parentPath(path) === targetFolderPath) return { files };
+  if (targetFolderPath === path || targetFolderPath.startsWith(`${path}/`)) return { error: "A folder can't be moved into itself." };
+  const removed = deletePath(files, path);
+  return 'error' in removed ? removed : addNode(removed.files, targetFolderPath, node);
+}
+
+/**
+ * Where `path` ends up after `from` is renamed or moved to `to`, for paths inside a moved folder too.
+ */
+export function remapPath(path: string, from: string, to: string): string {
+  if (path === from) return to;
+  return path.startsWith(`${from}/`) ? `${to}${path.slice(from.length)}` : path;
+}
+
+export const getLanguageFromPath = (path: string): string => {
+  switch (path.split('.').pop()) {
+    case 'py': return 'python';
+    case 'tsx': return 'typescript';
+    case 'jsx': return 'javascript';
+    case 'js': return 'javascript';
+    case 'ts': return 'typescript';
+    case 'html': return 'html';
+    case 'css': return 'css';
+    case 'json': return 'json';
+    case 'md': return 'markdown';
+    default: return 'plaintext';
+  }
+};
+
+export const isWithin = (path: string, folderPath: string): boolean => path === folderPath || path.startsWith(`${folderPath}/`);
@@ -0,0 +1,43 @@
+import { MessagePart, ResponsePart } from '../types';
+
+/**
+ * Appends streamed response parts to a reply's ordered parts. Consecutive text is merged so a
+ * streamed paragraph stays one part; `addImage` stores inline image data and returns its attachment id.
+ */
+export function appendResponseParts(parts: MessagePart[], incoming: ResponsePart[], addImage: (mimeType: string, data: string) => string): MessagePart[] {
+  const result = [...parts];
+  for (const part of incoming) {
+    if ('text' in part) {
+      const last = result[result.length - 1];
+      if (last?.type === 'text') result[result.length - 1] = { type: 'text', text: last.text + part.text };
+      else if (part.text) result.push({ type: 'text', text: part.text });
+    } else if ('executableCode' in part) {
+      result.push({ type: 'executableCode', ...part.executableCode });
+    } else if ('codeExecutionResult' in part) {
+      result.push({ type: 'codeExecutionResult', ...part.codeExecutionResult });
+    } else if ('inlineData' in part) {
+      result.push({ type: 'image', attachmentId: addImage(part.inlineData.mimeType, part.inlineData.data) });
+    }
+    // Function calls are tracked separately as tool turns.
+  }
+  return result;
+}
+
+// Plain-text replies are rendered from `content`; only mixed replies need their parts kept.
+export const hasRichParts = (parts: MessagePart[]): boolean => parts.some(part => part.type !== 'text');
+
+/**
+ * Markdown for exports: code runs become fenced blocks and images are rendered by `imageMarkdown`
+ * (or skipped when it is omitted).
+ */
+export function partsToMarkdown(parts: MessagePart[], imageMarkdown?: (attachmentId: string) => string): string {
+  return parts.flatMap(part => {
+    if (part.type === 'text') return part.text.trim() ? [part.text.trim()] : [];
+    if (part.type === 'executableCode') return ['```' + part.language + '\n' + part.code.replace(/\n$/, '') + '\n```'];
+    if (part.type === 'codeExecutionResult') {
+      const label = part.outcome === 'OUTCOME_OK' ? 'Output' : `Output (${part.outcome})`;
+      return [`**${label}**`, '```\n' + part.output.replace(/\n$/, '') + '\n```'];
+    }
+    return imageMarkdown ? [imageMarkdown(part.attachmentId)] : [];
+  }).join('\n\n');
+}
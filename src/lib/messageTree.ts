@@ -0,0 +1,84 @@
+import { ChatMessage, ChatSession } from '../types';
+
+export const ROOT_BRANCH_KEY = 'root';
+
+export interface BranchInfo {
+  index: number;
+  count: number;
+}
+
+const branchKey = (parentId: string | null | undefined): string => parentId ?? ROOT_BRANCH_KEY;
+
+const groupByParent = (messages: ChatMessage[]): Map<string, ChatMessage[]> => {
+  const children = new Map<string, ChatMessage[]>();
+  messages.forEach(msg => {
+    const key = branchKey(msg.parentId);
+    const siblings = children.get(key);
+    if (siblings) siblings.push(msg);
+    else children.set(key, [msg]);
+  });
+  return children;
+};
+
+/**
+ * Chats saved before branching existed are a flat list; link each message to the one before it.
+ */
+export function linkMessages(messages: ChatMessage[]): ChatMessage[] {
+  if (messages.every(msg => msg.parentId !== undefined)) return messages;
+  return messages.map((msg, index) => msg.parentId !== undefined ? msg : { ...msg, parentId: index > 0 ? messages[index - 1].id : null });
+}
+
+/**
+ * Follows the selected child at every branch point, falling back to the newest child.
+ */
+export function getActivePath(session: ChatSession): ChatMessage[] {
+  const children = groupByParent(session.messages);
+  const path: ChatMessage[] = [];
+  let key = ROOT_BRANCH_KEY;
+  while (true) {
+    const siblings = children.get(key);
+    if (!siblings) break;
+    const selectedId = session.selectedChildIds?.[key];
+    const next = siblings.find(msg => msg.id === selectedId) ?? siblings[siblings.length - 1];
+    path.push(next);
+    key = next.id;
+  }
+  return path;
+}
+
+/**
+ * The conversation from the root up to and including `messageId`; empty for null.
+ */
+export function getPathTo(messages: ChatMessage[], messageId: string | null): ChatMessage[] {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  const path: ChatMessage[] = [];
+  let current = messageId ? byId.get(messageId) : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+export function getSiblings(messages: ChatMessage[], message: ChatMessage): ChatMessage[] {
+  const key = branchKey(message.parentId);
+  return messages.filter(msg => branchKey(msg.parentId) === key);
+}
+
+export function getBranchInfo(session: ChatSession, path: ChatMessage[]): Record<string, BranchInfo> {
+  const children = groupByParent(session.messages);
+  const info: Record<string, BranchInfo> = {};
+  path.forEach(msg => {
+    const siblings = children.get(branchKey(msg.parentId)) ?? [msg];
+    info[msg.id] = { index: siblings.findIndex(s => s.id === msg.id), count: siblings.length };
+  });
+  return info;
+}
+
+export function selectChild(session: ChatSession, parentId: string | null | undefined, childId: string): ChatSession {
+  return { ...session, selectedChildIds: { ...session.selectedChildIds, [branchKey(parentId)]: childId } };
+}
+
+export function selectPathTo(session: ChatSession, messageId: string): ChatSession {
+  return getPathTo(session.messages, messageId).reduce((updated, msg) => selectChild(updated, msg.parentId, msg.id), session);
+}
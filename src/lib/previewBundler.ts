@@ -0,0 +1,268 @@
+import { FileTree, flattenFiles, getNode } from './fileTree';
+
+const BABEL_URL = 'https://cdn.jsdelivr.net/npm/@babel/standalone@7/babel.min.js';
+const PACKAGE_CDN = 'https://esm.sh';
+
+// Files a module can import. Extensionless imports are tried in this order, like a bundler would.
+const MODULE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mjs', '.cjs', '.json', '.css'];
+const RESOLVE_SUFFIXES = ['', ...MODULE_EXTENSIONS, ...MODULE_EXTENSIONS.map(ext => `/index${ext}`)];
+const TRANSFORMED_EXTENSIONS = ['.ts', '.tsx', '.jsx', '.mjs'];
+// Imported for their URL, the way bundlers handle images and fonts.
+const ASSET_TYPES: { [extension: string]: string } = {
+  '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.gif': 'image/gif', '.webp': 'image/webp',
+  '.avif': 'image/avif', '.svg': 'image/svg+xml', '.ico': 'image/x-icon', '.bmp': 'image/bmp',
+  '.woff': 'font/woff', '.woff2': 'font/woff2', '.ttf': 'font/ttf', '.otf': 'font/otf',
+  '.mp3': 'audio/mpeg', '.wav': 'audio/wav', '.ogg': 'audio/ogg', '.mp4': 'video/mp4', '.webm': 'video/webm',
+};
+
+const IMPORT_PATTERN = /(?:^|[^.\w$])(?:import|export)\s+(?!type\s)(?:[\w$*{}\s,]+?\s+from\s+)?['"]([^'"]+)['"]|(?:^|[^.\w$])(?:import|require)\s*\(\s*['"]([^'"]+)['"]\s*\)/g;
+
+interface PreviewModule {
+  source: string;
+  // Project path of each relative import.
+  deps: { [specifier: string]: string };
+  // Data URL that an asset module exports instead of running its source.
+  url?: string;
+}
+
+const isLocalReference = (ref: string): boolean => !/^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(ref);
+
+const isRelative = (specifier: string): boolean => specifier.startsWith('.') || specifier.startsWith('/');
+
+const normalizePath = (path: string): string => {
+  const parts: string[] = [];
+  path.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const assetType = (path: string): string | undefined => {
+  const extension = path.includes('.') ? path.slice(path.lastIndexOf('.')).toLowerCase() : '';
+  return ASSET_TYPES[extension];
+};
+
+const resolvePath = (sources: { [path: string]: string }, fromDir: string, ref: string): string | null => {
+  const cleanRef = ref.split(/[?#]/)[0];
+  const target = normalizePath(cleanRef.startsWith('/') ? cleanRef : `${fromDir}/${cleanRef}`);
+  const suffix = RESOLVE_SUFFIXES.find(ext => sources[target + ext] !== undefined);
+  return suffix === undefined ? null : target + suffix;
+};
+
+const dirOf = (path: string): string => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+const packageOf = (specifier: string): { name: string; subpath: string } => {
+  const parts = specifier.split('/');
+  const nameLength = specifier.startsWith('@') ? 2 : 1;
+  return { name: parts.slice(0, nameLength).join('/'), subpath: parts.slice(nameLength).map(part => `/${part}`).join('') };
+};
+
+const readDependencies = (sources: { [path: string]: string }): { [name: string]: string } => {
+  try {
+    const pkg = JSON.parse(sources['package.json'] ?? '{}');
+    return { ...pkg.devDependencies, ...pkg.dependencies };
+  } catch {
+    return {};
+  }
+};
+
+// Packages that use React get it from the import map too, so the page doesn't end up with two copies.
+const packageUrl = (specifier: string, versions: { [name: string]: string }, reactPackages: string[]): string => {
+  const { name, subpath } = packageOf(specifier);
+  const version = versions[name] ? `@${encodeURIComponent(versions[name])}` : '';
+  const externals = reactPackages.filter(pkg => pkg !== name);
+  return `${PACKAGE_CDN}/${name}${version}${subpath}${externals.length > 0 ? `?external=${externals.join(',')}` : ''}`;
+};
+
+// Serialized into an inline script, so `<` is escaped to keep `</script>` in a source file from ending it.
+const toScriptJson = (value: unknown): string => JSON.stringify(value).replace(/</g, '\\u003c');
+
+// Script text is inlined as it is, so only `</script` is escaped; `<\/script` reads the same in JS strings and regexes.
+const escapeScriptText = (code: string): string => code.replace(/<\/(script)/gi, '<\\/$1');
+
+// Runs in the preview. Modules are compiled to CommonJS with Babel and linked through the table built below;
+// packages are imported once up front, through the import map. CommonJS has no top-level await or import.meta,
+// so modules that use them are reported at their location instead of failing with a bare SyntaxError.
+const moduleRuntime = (modules: { [path: string]: PreviewModule }, entries: string[], externals: string[], jsxRuntime: 'automatic' | 'classic') => `
+(async () => {
+  const modules = ${toScriptJson(modules)};
+  const externals = {};
+  const cache = {};
+  const loadScript = src => new Promise((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = src;
+    script.onload = resolve;
+    script.onerror = () => reject(new Error('Failed to load ' + src));
+    document.head.appendChild(script);
+  });
+  const rejectModuleOnlySyntax = () => ({
+    visitor: {
+      MetaProperty(node) {
+        if (node.get('meta').isIdentifier({ name: 'import' })) throw node.buildCodeFrameError("import.meta isn't supported in the preview.");
+      },
+      AwaitExpression(node) {
+        if (!node.getFunctionParent()) throw node.buildCodeFrameError("Top-level await isn't supported in the preview. Move it into an async function.");
+      },
+      ForOfStatement(node) {
+        if (node.node.await && !node.getFunctionParent()) throw node.buildCodeFrameError("Top-level await isn't supported in the preview. Move it into an async function.");
+      },
+    },
+  });
+  const load = path => {
+    if (cache[path]) return cache[path].exports;
+    const module = cache[path] = { exports: {} };
+    const { source, deps, url } = modules[path];
+    if (url) {
+      module.exports = { __esModule: true, default: url };
+    } else if (path.endsWith('.json')) {
+      module.exports = JSON.parse(source);
+    } else if (path.endsWith('.css')) {
+      const style = document.createElement('style');
+      style.dataset.source = path;
+      style.textContent = source;
+      document.head.appendChild(style);
+    } else {
+      const { code } = Babel.transform(source, {
+        filename: path,
+        presets: [['react', { runtime: ${JSON.stringify(jsxRuntime)} }], 'typescript'],
+        plugins: [rejectModuleOnlySyntax, 'transform-modules-commonjs'],
+      });
+      const require = specifier => {
+        if (specifier in deps) return load(deps[specifier]);
+        if (specifier in externals) return externals[specifier];
+        throw new Error("Cannot find module '" + specifier + "' imported from " + path);
+      };
+      new Function('require', 'module', 'exports', code + '\\n//# sourceURL=' + path)(require, module, module.exports);
+    }
+    return module.exports;
+  };
+  try {
+    if (!window.Babel) await loadScript(${JSON.stringify(BABEL_URL)});
+    await Promise.all(${toScriptJson(externals)}.map(async specifier => {
+      externals[specifier] = Object.assign({ __esModule: true }, await import(specifier));
+    }));
+    ${toScriptJson(entries)}.forEach(load);
+  } catch (error) {
+    console.error(error);
+  }
+})();
+`;
+
+/**
+ * Builds the preview page from the project's entry HTML. Local stylesheets and classic scripts are inlined, and
+ * module scripts are bundled from the project files: TS and JSX are compiled in the page, relative imports are
+ * resolved from the tree, and bare imports go through an import map to esm.sh, pinned to the versions in
+ * `package.json` when it lists them. Returns null when the project has no HTML file.
+ */
+export function buildPreviewHtml(files: FileTree): string | null {
+  const sources = flattenFiles(files);
+  const assetUrls: { [path: string]: string } = {};
+  Object.keys(sources).forEach(path => {
+    const isBinary = getNode(files, path)?.encoding === 'base64';
+    const mimeType = assetType(path);
+    if (mimeType) {
+      assetUrls[path] = isBinary ? `data:${mimeType};base64,${sources[path]}` : `data:${mimeType};charset=utf-8,${encodeURIComponent(sources[path])}`;
+    }
+    // Binary files can't be inlined as text.
+    if (isBinary) delete sources[path];
+  });
+  const htmlPath = sources['index.html'] !== undefined ? 'index.html' : Object.keys(sources).find(path => path.endsWith('.html'));
+  if (!htmlPath) return null;
+
+  const doc = new DOMParser().parseFromString(sources[htmlPath], 'text/html');
+  const htmlDir = dirOf(htmlPath);
+  const resolveReference = (ref: string | null) => ref && isLocalReference(ref) ? resolvePath(sources, htmlDir, ref) : null;
+
+  doc.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"][href]').forEach(link => {
+    const path = resolveReference(link.getAttribute('href'));
+    if (!path) return;
+    const style = doc.createElement('style');
+    style.dataset.source = path;
+    style.textContent = sources[path];
+    link.replaceWith(style);
+  });
+
+  const importMap: { [specifier: string]: string } = {};
+  const entries: string[] = [];
+  doc.querySelectorAll('script').forEach((script, index) => {
+    const type = script.getAttribute('type') ?? '';
+    if (type === 'importmap') {
+      try {
+        Object.assign(importMap, JSON.parse(script.textContent ?? '{}').imports);
+      } catch {
+        // An invalid import map is ignored, like the browser would.
+      }
+      script.remove();
+      return;
+    }
+    const src = script.getAttribute('src');
+    const path = resolveReference(src);
+    if (src && !path) return;
+    const isModule = type === 'module' || (!!path && TRANSFORMED_EXTENSIONS.some(ext => path.endsWith(ext)));
+    if (isModule) {
+      const entry = path ?? `${htmlDir ? `${htmlDir}/` : ''}__inline_${index}.js`;
+      if (!path) sources[entry] = script.textContent ?? '';
+      entries.push(entry);
+      script.remove();
+    } else if (path) {
+      script.removeAttribute('src');
+      script.textContent = escapeScriptText(sources[path]);
+    }
+  });
+
+  if (entries.length > 0) {
+    const modules: { [path: string]: PreviewModule } = {};
+    const externals = new Set<string>();
+    const importable = { ...sources, ...assetUrls };
+    const visit = (path: string) => {
+      if (modules[path]) return;
+      if (assetUrls[path]) {
+        modules[path] = { source: '', deps: {}, url: assetUrls[path] };
+        return;
+      }
+      const module: PreviewModule = { source: sources[path], deps: {} };
+      modules[path] = module;
+      if (path.endsWith('.json') || path.endsWith('.css')) return;
+      for (const match of module.source.matchAll(IMPORT_PATTERN)) {
+        const specifier = match[1] ?? match[2];
+        if (!isRelative(specifier)) {
+          externals.add(specifier);
+          continue;
+        }
+        const dep = resolvePath(importable, dirOf(path), specifier);
+        if (dep) {
+          module.deps[specifier] = dep;
+          visit(dep);
+        }
+      }
+    };
+    entries.forEach(visit);
+
+    const usesReact = [...externals].some(specifier => packageOf(specifier).name === 'react');
+    if (usesReact) externals.add('react/jsx-runtime');
+    const versions = readDependencies(sources);
+    const reactPackages = usesReact ? ['react', 'react-dom'].filter(name => name === 'react' || [...externals].some(specifier => packageOf(specifier).name === name)) : [];
+    const imports: { [specifier: string]: string } = {};
+    externals.forEach(specifier => {
+      if (!isLocalReference(specifier)) return;
+      imports[specifier] = packageUrl(specifier, versions, reactPackages);
+    });
+
+    const mapScript = doc.createElement('script');
+    mapScript.type = 'importmap';
+    mapScript.textContent = JSON.stringify({ imports: { ...imports, ...importMap } }, null, 2);
+    doc.head.prepend(mapScript);
+
+    const runtimeScript = doc.createElement('script');
+    runtimeScript.textContent = moduleRuntime(modules, entries, [...externals], usesReact ? 'automatic' : 'classic');
+    doc.body.appendChild(runtimeScript);
+  } else if (Object.keys(importMap).length > 0) {
+    const mapScript = doc.createElement('script');
+    mapScript.type = 'importmap';
+    mapScript.textContent = JSON.stringify({ imports: importMap });
+    doc.head.prepend(mapScript);
+  }
+
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+}
@@ -0,0 +1,155 @@
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+// A value from the preview, converted so it can be posted to the panel. Objects are cut off a few levels deep.
+export type SerializedValue =
+  | { kind: 'primitive'; valueType: 'string' | 'number' | 'boolean' | 'null' | 'undefined' | 'bigint' | 'symbol'; text: string }
+  // Functions, DOM nodes, dates and anything cut off, shown as a short description.
+  | { kind: 'text'; text: string }
+  | { kind: 'error'; name: string; message: string; stack?: string }
+  | { kind: 'object'; className: string; isArray: boolean; size?: number; entries: [string, SerializedValue][]; truncated: boolean };
+
+export interface ConsoleEntry {
+  id: number;
+  // 'input' and 'result' are lines of the REPL.
+  type: 'log' | 'input' | 'result';
+  level: ConsoleLevel;
+  args: SerializedValue[];
+}
+
+export const MAX_CONSOLE_ENTRIES = 500;
+
+/**
+ * Injected at the top of the preview's `<head>`. Forwards console calls, uncaught errors, unhandled rejections,
+ * failed resource loads and failed requests as `preview_console` messages, and answers `preview_eval` messages
+ * by evaluating the code in the page. Each answer carries the id of the request it belongs to.
+ */
+export const PREVIEW_CONSOLE_SCRIPT = `
+(() => {
+  const MAX_DEPTH = 3;
+  const MAX_KEYS = 100;
+  const serialize = (value, depth = 0, seen = new WeakSet()) => {
+    const type = typeof value;
+    if (value === null) return { kind: 'primitive', valueType: 'null', text: 'null' };
+    if (type === 'string') return { kind: 'primitive', valueType: 'string', text: value };
+    if (type === 'bigint') return { kind: 'primitive', valueType: 'bigint', text: value + 'n' };
+    if (type === 'symbol') return { kind: 'primitive', valueType: 'symbol', text: value.toString() };
+    if (type !== 'object' && type !== 'function') return { kind: 'primitive', valueType: type, text: String(value) };
+    if (type === 'function') return { kind: 'text', text: 'ƒ ' + (value.name || 'anonymous') + '()' };
+    if (value instanceof Error) return { kind: 'error', name: value.name, message: value.message, stack: value.stack };
+    if (value instanceof Date) return { kind: 'text', text: isNaN(value) ? 'Invalid Date' : value.toISOString() };
+    if (value instanceof RegExp) return { kind: 'text', text: String(value) };
+    if (value instanceof Element) {
+      const classes = typeof value.className === 'string' && value.className.trim() ? '.' + value.className.trim().split(/\\s+/).join('.') : '';
+      return { kind: 'text', text: '<' + value.tagName.toLowerCase() + (value.id ? '#' + value.id : '') + classes + '>' };
+    }
+    if (value instanceof Node) return { kind: 'text', text: value.nodeName };
+    const className = (value.constructor && value.constructor.name) || 'Object';
+    if (seen.has(value)) return { kind: 'text', text: '[Circular ' + className + ']' };
+    if (depth >= MAX_DEPTH) return { kind: 'text', text: Array.isArray(value) ? 'Array(' + value.length + ')' : className };
+    let pairs;
+    if (value instanceof Map) pairs = [...value.entries()].map(([key, item]) => [typeof key === 'string' ? key : String(key), item]);
+    else if (value instanceof Set) pairs = [...value].map((item, i) => [String(i), item]);
+    else pairs = Object.keys(value).map(key => [key, value[key]]);
+    seen.add(value);
+    const entries = pairs.slice(0, MAX_KEYS).map(([key, item]) => {
+      try {
+        return [key, serialize(item, depth + 1, seen)];
+      } catch (error) {
+        return [key, { kind: 'text', text: '[Unreadable]' }];
+      }
+    });
+    // Only ancestors count as circular, so the same object can still appear twice side by side.
+    seen.delete(value);
+    const size = Array.isArray(value) ? value.length : value instanceof Map || value instanceof Set ? value.size : undefined;
+    return { kind: 'object', className, isArray: Array.isArray(value), size, entries, truncated: pairs.length > MAX_KEYS };
+  };
+  const post = (level, args) => {
+    try {
+      window.parent.postMessage({ type: 'preview_console', entry: { type: 'log', level, args: args.map(arg => serialize(arg)) } }, '*');
+    } catch (error) {
+      // The panel is gone; nothing to report to.
+    }
+  };
+
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(level => {
+    const original = console[level];
+    console[level] = (...args) => {
+      post(level, args);
+      original.apply(console, args);
+    };
+  });
+
+  window.addEventListener('error', event => {
+    const target = event.target;
+    if (target && target !== window) {
+      post('error', ['Failed to load ' + target.tagName.toLowerCase() + ': ' + (target.src || target.href || '')]);
+    } else {
+      post('error', ['Uncaught', event.error || event.message]);
+    }
+  }, true);
+  window.addEventListener('unhandledrejection', event => post('error', ['Uncaught (in promise)', event.reason]));
+
+  const originalFetch = window.fetch;
+  window.fetch = (input, init) => {
+    const method = ((init && init.method) || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    const url = input instanceof Request ? input.url : String(input);
+    return originalFetch.call(window, input, init).then(response => {
+      if (!response.ok) post('error', [method + ' ' + url + ' ' + response.status + ' ' + response.statusText]);
+      return response;
+    }, error => {
+      post('error', [method + ' ' + url + ' failed:', error]);
+      throw error;
+    });
+  };
+  const originalOpen = XMLHttpRequest.prototype.open;
+  XMLHttpRequest.prototype.open = function (method, url, ...rest) {
+    this.addEventListener('loadend', () => {
+      if (this.status === 0 || this.status >= 400) post('error', [String(method).toUpperCase() + ' ' + url + ' ' + (this.status ? this.status + ' ' + this.statusText : 'failed')]);
+    });
+    return originalOpen.call(this, method, url, ...rest);
+  };
+
+  window.addEventListener('message', async event => {
+    if (event.source !== window.parent || !event.data || event.data.type !== 'preview_eval') return;
+    const { id, code } = event.data;
+    const reply = result => window.parent.postMessage({ type: 'preview_eval_result', id, ...result }, '*');
+    try {
+      let value;
+      // Like browser consoles, a leading { is read as an object literal rather than a block.
+      try {
+        value = (0, eval)(/^\\s*\\{/.test(code) ? '(' + code + '\\n)' : code);
+      } catch (error) {
+        if (!(error instanceof SyntaxError) || !/^\\s*\\{/.test(code)) throw error;
+        value = (0, eval)(code);
+      }
+      reply({ value: serialize(value instanceof Promise ? await value : value) });
+    } catch (error) {
+      reply({ error: serialize(error) });
+    }
+  });
+})();
+`;
+
+/**
+ * A one-line rendering of a value, used for collapsed objects and for filtering.
+ */
+export function formatValue(value: SerializedValue, isNested = false): string {
+  switch (value.kind) {
+    case 'primitive':
+      return isNested && value.valueType === 'string' ? JSON.stringify(value.text) : value.text;
+    case 'text':
+      return value.text;
+    case 'error':
+      return `${value.name}: ${value.message}`;
+    case 'object': {
+      const items = value.entries.map(([key, item]) => value.isArray ? formatValue(item, true) : `${key}: ${formatValue(item, true)}`);
+      if (value.truncated) items.push('…');
+      const body = items.join(', ');
+      if (value.isArray) return `[${body}]`;
+      const prefix = value.className === 'Object' ? '' : `${value.className}${value.size !== undefined ? `(${value.size})` : ''} `;
+      return `${prefix}{${body}}`;
+    }
+  }
+}
+
+export const formatEntry = (entry: ConsoleEntry): string => entry.args.map(arg => formatValue(arg)).join(' ');
@@ -0,0 +1,194 @@
+import { FileChange } from '../types';
+import { FileTree, FileTreeResult, deletePath, getNode, writeFile } from './fileTree';
+
+/**
+ * One entry of the `files` array in a Code Interpreter reply. Besides `path` it carries one of the other fields.
+ */
+export interface ProjectFileUpdate {
+  path: string;
+  content?: string;
+  edits?: { search: string; replace: string }[];
+  diff?: string;
+  delete?: boolean;
+}
+
+// A hunk as Monaco's diff editor reports it. Line numbers are 1-based; an end of 0 means that side has no
+// lines and the hunk sits after the start line.
+export interface LineChange {
+  originalStartLineNumber: number;
+  originalEndLineNumber: number;
+  modifiedStartLineNumber: number;
+  modifiedEndLineNumber: number;
+}
+
+export interface ReviewResult {
+  files: FileTree;
+  // Changes still waiting for a decision.
+  changes: FileChange[];
+  errors: string[];
+}
+
+type ContentResult = { content: string } | { error: string };
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+const findBlock = (lines: string[], block: string[], expected: number): number => {
+  const matchesAt = (index: number) => block.every((line, i) => lines[index + i] === line);
+  if (expected >= 0 && matchesAt(expected)) return expected;
+  // Models often get the line numbers wrong, so the context is matched at the nearest place it fits.
+  let best = -1;
+  for (let index = 0; index + block.length <= lines.length; index++) {
+    if (matchesAt(index) && (best === -1 || Math.abs(index - expected) < Math.abs(best - expected))) best = index;
+  }
+  return best;
+};
+
+/**
+ * Applies a unified diff to one file. Hunk line counts are ignored and context lines are matched by content.
+ * Diffs from the model use "\n", so a file with CRLF line endings is matched without them and written back with them.
+ */
+export function applyUnifiedDiff(original: string, diff: string): ContentResult {
+  const eol = original.includes('\r\n') ? '\r\n' : '\n';
+  const lines = original.split(/\r?\n/);
+  const diffLines = diff.replace(/\r\n/g, '\n').replace(/\n+$/, '').split('\n');
+  let offset = 0;
+  let hunkCount = 0;
+  for (let i = 0; i < diffLines.length; i++) {
+    const header = diffLines[i].match(HUNK_HEADER);
+    if (!header) continue;
+    hunkCount++;
+    const oldLines: string[] = [];
+    const newLines: string[] = [];
+    for (; i + 1 < diffLines.length && !HUNK_HEADER.test(diffLines[i + 1]); i++) {
+      const line = diffLines[i + 1];
+      if (line.startsWith('\\')) continue;
+      if (!line.startsWith('+')) oldLines.push(line.slice(1));
+      if (!line.startsWith('-')) newLines.push(line.slice(1));
+    }
+    const oldStart = Number(header[1]);
+    const expected = (oldLines.length === 0 ? oldStart : oldStart - 1) + offset;
+    const index = oldLines.length === 0 ? Math.min(Math.max(expected, 0), lines.length) : findBlock(lines, oldLines, expected);
+    if (index === -1) return { error: `Hunk ${hunkCount} of the diff doesn't match the current file.` };
+    lines.splice(index, oldLines.length, ...newLines);
+    offset += index - expected + newLines.length - oldLines.length;
+  }
+  if (hunkCount === 0) return { error: "The diff doesn't contain any hunks." };
+  return { content: lines.join(eol) };
+}
+
+const toLf = (text: string): string => text.replace(/\r\n/g, '\n');
+
+/**
+ * Replaces each `search` block, which has to appear exactly once in the file, with its `replace` text.
+ * Like diffs, the blocks are matched with "\n" line endings and a CRLF file is written back with CRLF.
+ */
+export function applySearchReplace(original: string, edits: { search: string; replace: string }[]): ContentResult {
+  const eol = original.includes('\r\n') ? '\r\n' : '\n';
+  let content = toLf(original);
+  for (const [i, edit] of edits.entries()) {
+    const search = toLf(edit.search ?? '');
+    const replace = toLf(edit.replace ?? '');
+    if (!search) {
+      if (content) return { error: `Edit ${i + 1} has an empty search block.` };
+      content = replace;
+      continue;
+    }
+    const index = content.indexOf(search);
+    if (index === -1) return { error: `Edit ${i + 1} doesn't match the current file.` };
+    if (content.indexOf(search, index + 1) !== -1) return { error: `Edit ${i + 1} matches more than one place in the file.` };
+    content = content.slice(0, index) + replace + content.slice(index + search.length);
+  }
+  return { content: eol === '\n' ? content : content.replace(/\n/g, eol) };
+}
+
+const toFileChange = (files: FileTree, update: ProjectFileUpdate): { change: FileChange } | { error: string } => {
+  const path = typeof update.path === 'string' ? update.path.trim().replace(/^\.?\//, '') : '';
+  if (!path) return { error: 'A file update is missing its path.' };
+  const node = getNode(files, path);
+  if (node?.children) return { error: `"${path}" is a folder.` };
+  const original = node?.encoding === 'base64' ? '' : node?.content ?? '';
+  if (update.delete) {
+    return node ? { change: { path, original, proposed: '', isDeleted: true } } : { error: `"${path}" can't be deleted because it doesn't exist.` };
+  }
+
+  let result: ContentResult;
+  if (typeof update.content === 'string') result = { content: update.content };
+  else if (node?.encoding === 'base64') return { error: `"${path}" is a binary file and can only be replaced as a whole.` };
+  else if (Array.isArray(update.edits)) result = applySearchReplace(original, update.edits);
+  else if (typeof update.diff === 'string') result = applyUnifiedDiff(original, update.diff);
+  else return { error: `The update for "${path}" has no content, edits, diff or delete.` };
+  return 'error' in result ? { error: `${path}: ${result.error}` } : { change: { path, original, proposed: result.content, isNew: !node } };
+};
+
+/**
+ * Turns the updates from a reply into changes to review. Updates that can't be applied are returned as errors,
+ * and ones that leave a file as it is are dropped.
+ */
+export function collectFileChanges(files: FileTree, updates: ProjectFileUpdate[]): { changes: FileChange[]; errors: string[] } {
+  const changes = new Map<string, FileChange>();
+  const errors: string[] = [];
+  updates.forEach(update => {
+    const result = toFileChange(files, update);
+    if ('error' in result) errors.push(result.error);
+    else if (result.change.isNew || result.change.isDeleted || result.change.original !== result.change.proposed) changes.set(result.change.path, result.change);
+  });
+  return { changes: [...changes.values()], errors };
+}
+
+const linesIn = (text: string, start: number, end: number): string[] => end === 0 ? [] : text.split('\n').slice(start - 1, end);
+
+const spliceLines = (text: string, start: number, end: number, replacement: string[]): string => {
+  const lines = text.split('\n');
+  lines.splice(end === 0 ? start : start - 1, end === 0 ? 0 : end - start + 1, ...replacement);
+  return lines.join('\n');
+};
+
+// Accepting a hunk copies it into the original side and rejecting it copies the original back; either way it stops being a difference.
+export const acceptHunk = (change: FileChange, hunk: LineChange): FileChange => ({
+  ...change,
+  original: spliceLines(change.original, hunk.originalStartLineNumber, hunk.originalEndLineNumber, linesIn(change.proposed, hunk.modifiedStartLineNumber, hunk.modifiedEndLineNumber)),
+});
+
+export const rejectHunk = (change: FileChange, hunk: LineChange): FileChange => ({
+  ...change,
+  proposed: spliceLines(change.proposed, hunk.modifiedStartLineNumber, hunk.modifiedEndLineNumber, linesIn(change.original, hunk.originalStartLineNumber, hunk.originalEndLineNumber)),
+});
+
+const applyChange = (files: FileTree, change: FileChange, accept: boolean): FileTreeResult => {
+  if (change.isDeleted) return accept ? deletePath(files, change.path) : { files };
+  const content = accept ? change.proposed : change.original;
+  // A rejected new file is only created if some of its hunks were accepted.
+  if (change.isNew && !accept && !content) return { files };
+  return writeFile(files, change.path, content);
+};
+
+/**
+ * Accepts or rejects the changes to `paths` as a whole, writing the result into `files`.
+ */
+export function resolveChanges(files: FileTree, changes: FileChange[], paths: string[], accept: boolean): ReviewResult {
+  let updated = files;
+  const errors: string[] = [];
+  const remaining = changes.filter(change => {
+    if (!paths.includes(change.path)) return true;
+    const result = applyChange(updated, change, accept);
+    if ('error' in result) {
+      errors.push(result.error);
+      return true;
+    }
+    updated = result.files;
+    return false;
+  });
+  return { files: updated, changes: remaining, errors };
+}
+
+/**
+ * Accepts or rejects one hunk. The file is resolved once no differences are left in it.
+ */
+export function reviewHunk(files: FileTree, changes: FileChange[], path: string, hunk: LineChange, accept: boolean): ReviewResult {
+  const change = changes.find(c => c.path === path);
+  if (!change || change.isDeleted) return { files, changes, errors: [] };
+  const updated = accept ? acceptHunk(change, hunk) : rejectHunk(change, hunk);
+  const next = changes.map(c => c.path === path ? updated : c);
+  if (updated.original !== updated.proposed) return { files, changes: next, errors: [] };
+  return resolveChanges(files, next, [path], !updated.isNew || !!updated.proposed);
+}
@@ -0,0 +1,33 @@
+import { PromptEntry } from '../types';
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/**
+ * Distinct variable names in the order they first appear.
+ */
+export function extractVariables(content: string): string[] {
+  const names = new Set<string>();
+  for (const match of content.matchAll(VARIABLE_PATTERN)) names.add(match[1]);
+  return [...names];
+}
+
+// Placeholders without a value are left in place so nothing is silently dropped.
+export function fillTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+export const parseTags = (value: string): string[] =>
+  [...new Set(value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+/**
+ * Case-insensitive match on name, tags and content. Favorites come first, then the most recently edited.
+ */
+export function filterPrompts(prompts: PromptEntry[], query: string): PromptEntry[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return prompts
+    .filter(prompt => {
+      const haystack = `${prompt.name}\n${prompt.tags.join(' ')}\n${prompt.content}`.toLowerCase();
+      return terms.every(term => haystack.includes(term));
+    })
+    .sort((a, b) => Number(b.isFavorite) - Number(a.isFavorite) || b.updatedAt - a.updatedAt);
+}
@@ -0,0 +1,170 @@
+import { Type } from '@google/genai';
+
+// Editable form of a `responseSchema` node used by the schema builder.
+export interface SchemaField {
+  id: string;
+  // Property name; unused for the root and for array items.
+  name: string;
+  type: Type;
+  description: string;
+  required: boolean;
+  // Allowed values of a STRING field; empty means any string.
+  enumValues: string[];
+  properties: SchemaField[];
+  items?: SchemaField;
+}
+
+export const SCHEMA_TYPES: Type[] = [Type.STRING, Type.NUMBER, Type.INTEGER, Type.BOOLEAN, Type.OBJECT, Type.ARRAY];
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+let fieldCounter = 0;
+
+export const createSchemaField = (type: Type = Type.STRING, name = ''): SchemaField => ({
+  id: `field_${Date.now()}_${++fieldCounter}`,
+  name,
+  type,
+  description: '',
+  required: true,
+  enumValues: [],
+  properties: [],
+  items: type === Type.ARRAY ? createSchemaField(Type.STRING) : undefined,
+});
+
+// The API accepts type names in either case.
+const normalizeType = (value: unknown): Type | null => {
+  if (typeof value !== 'string') return null;
+  const upper = value.toUpperCase() as Type;
+  return SCHEMA_TYPES.includes(upper) ? upper : null;
+};
+
+export function fieldToSchema(field: SchemaField): UnknownRecord {
+  const schema: UnknownRecord = { type: field.type };
+  if (field.description.trim()) schema.description = field.description.trim();
+  if (field.type === Type.STRING && field.enumValues.length > 0) schema.enum = field.enumValues;
+  if (field.type === Type.OBJECT) {
+    const named = field.properties.filter(property => property.name.trim());
+    schema.properties = Object.fromEntries(named.map(property => [property.name.trim(), fieldToSchema(property)]));
+    const required = named.filter(property => property.required).map(property => property.name.trim());
+    if (required.length > 0) schema.required = required;
+    // Gemini otherwise orders properties alphabetically in its output.
+    if (named.length > 1) schema.propertyOrdering = named.map(property => property.name.trim());
+  }
+  if (field.type === Type.ARRAY) schema.items = fieldToSchema(field.items ?? createSchemaField());
+  return schema;
+}
+
+/**
+ * Loads a schema into the builder. Returns null when it uses something the builder can't edit
+ * (e.g. `anyOf` or a missing type), so the caller can fall back to the JSON editor.
+ */
+export function schemaToField(schema: unknown, name = '', required = true): SchemaField | null {
+  if (!isRecord(schema)) return null;
+  const type = normalizeType(schema.type);
+  if (!type) return null;
+  const field = createSchemaField(type, name);
+  field.required = required;
+  if (typeof schema.description === 'string') field.description = schema.description;
+  if (Array.isArray(schema.enum)) field.enumValues = schema.enum.map(String);
+
+  if (type === Type.OBJECT) {
+    const properties = isRecord(schema.properties) ? schema.properties : {};
+    const requiredNames = Array.isArray(schema.required) ? schema.required : [];
+    const ordering = Array.isArray(schema.propertyOrdering) ? schema.propertyOrdering.filter(key => key in properties) : [];
+    const names = [...new Set([...ordering, ...Object.keys(properties)])];
+    for (const propertyName of names) {
+      const property = schemaToField(properties[propertyName], propertyName, requiredNames.includes(propertyName));
+      if (!property) return null;
+      field.properties.push(property);
+    }
+  }
+  if (type === Type.ARRAY) {
+    const items = schemaToField(schema.items);
+    if (!items) return null;
+    field.items = items;
+  }
+  return field;
+}
+
+/**
+ * Parses the schema editor's text. The error message is meant to be shown to the user as-is.
+ */
+export function parseSchemaText(text: string): { schema: UnknownRecord } | { error: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { error: `The schema is not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  if (!isRecord(parsed)) return { error: "The schema must be a JSON object." };
+  if (!normalizeType(parsed.type)) return { error: `The schema needs a "type" of ${SCHEMA_TYPES.join(', ')}.` };
+  return { schema: parsed };
+}
+
+/**
+ * Checks a parsed reply against a response schema. Returns one message per problem, each prefixed with its JSON path.
+ */
+export function validateAgainstSchema(value: unknown, schema: unknown, path = '$'): string[] {
+  if (!isRecord(schema)) return [];
+  if (value === null) return schema.nullable === true ? [] : [`${path}: must not be null`];
+  const type = normalizeType(schema.type);
+
+  switch (type) {
+    case Type.STRING:
+      if (typeof value !== 'string') return [`${path}: expected a string`];
+      if (Array.isArray(schema.enum) && schema.enum.length > 0 && !schema.enum.map(String).includes(value)) {
+        return [`${path}: "${value}" is not one of ${schema.enum.join(', ')}`];
+      }
+      return [];
+    case Type.NUMBER:
+      return typeof value === 'number' ? [] : [`${path}: expected a number`];
+    case Type.INTEGER:
+      return Number.isInteger(value) ? [] : [`${path}: expected an integer`];
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [`${path}: expected true or false`];
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return [`${path}: expected an array`];
+      const errors: string[] = [];
+      const minItems = Number(schema.minItems);
+      const maxItems = Number(schema.maxItems);
+      if (Number.isFinite(minItems) && value.length < minItems) errors.push(`${path}: expected at least ${minItems} items`);
+      if (Number.isFinite(maxItems) && value.length > maxItems) errors.push(`${path}: expected at most ${maxItems} items`);
+      value.forEach((item, index) => errors.push(...validateAgainstSchema(item, schema.items, `${path}[${index}]`)));
+      return errors;
+    }
+    case Type.OBJECT: {
+      if (!isRecord(value)) return [`${path}: expected an object`];
+      const errors: string[] = [];
+      const properties = isRecord(schema.properties) ? schema.properties : {};
+      const required = Array.isArray(schema.required) ? schema.required : [];
+      required.forEach(key => { if (!(key in value)) errors.push(`${path}: missing required property "${key}"`); });
+      Object.entries(value).forEach(([key, propertyValue]) => {
+        if (key in properties) errors.push(...validateAgainstSchema(propertyValue, properties[key], `${path}.${key}`));
+      });
+      return errors;
+    }
+    default:
+      return [];
+  }
+}
+
+// An array whose entries are all plain objects can be shown as a table.
+export const isTabular = (value: unknown): value is UnknownRecord[] =>
+  Array.isArray(value) && value.length > 0 && value.every(isRecord);
+
+export const getTableColumns = (rows: UnknownRecord[]): string[] => [...new Set(rows.flatMap(row => Object.keys(row)))];
+
+export const formatCellValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export function toCsv(rows: UnknownRecord[]): string {
+  const columns = getTableColumns(rows);
+  const escape = (cell: string) => /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  return [columns, ...rows.map(row => columns.map(column => formatCellValue(row[column])))]
+    .map(line => line.map(escape).join(','))
+    .join('\r\n');
+}
@@ -0,0 +1,85 @@
+const DEFAULT_TIMEOUT_MS = 10000;
+
+const WORKER_SOURCE = `
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+self.onmessage = async (event) => {
+  try {
+    const handler = new AsyncFunction('args', event.data.code);
+    const result = await handler(event.data.args);
+    self.postMessage({ ok: true, result: result === undefined ? null : JSON.parse(JSON.stringify(result)) });
+  } catch (error) {
+    self.postMessage({ ok: false, error: error && error.message ? error.message : String(error) });
+  }
+};
+`;
+
+// The handler runs in a worker owned by a sandboxed frame. Without allow-same-origin the frame has an opaque
+// origin, so neither it nor its workers can open the app's IndexedDB, caches or cookies. Its CSP blocks every
+// network request, and nested workers and blob modules inherit that policy. Removing the frame ends the worker.
+const SANDBOX_HTML = `<!DOCTYPE html>
+<html>
+<head>
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:; worker-src blob:">
+</head>
+<body>
+<script>
+window.addEventListener('message', event => {
+  const worker = new Worker(URL.createObjectURL(new Blob([${JSON.stringify(WORKER_SOURCE)}], { type: 'text/javascript' })));
+  worker.onmessage = e => parent.postMessage(e.data, '*');
+  worker.onerror = e => {
+    e.preventDefault();
+    parent.postMessage({ ok: false, error: e.message || 'The handler could not be run.' }, '*');
+  };
+  worker.postMessage(event.data);
+}, { once: true });
+</script>
+</body>
+</html>`;
+
+/**
+ * Runs a user-written function handler body in a throwaway worker inside a sandboxed frame.
+ * The body receives the call's arguments as `args` and may `return` (or resolve to) any JSON-serializable value.
+ */
+export function runToolHandler(code: string, args: Record<string, unknown>, signal: AbortSignal, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new DOMException('Aborted by user', 'AbortError'));
+      return;
+    }
+    const frame = document.createElement('iframe');
+    frame.sandbox.add('allow-scripts');
+    frame.style.display = 'none';
+    frame.srcdoc = SANDBOX_HTML;
+
+    const finish = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+      window.removeEventListener('message', onMessage);
+      frame.remove();
+    };
+    const onAbort = () => {
+      finish();
+      reject(new DOMException('Aborted by user', 'AbortError'));
+    };
+    const onMessage = (event: MessageEvent<{ ok: boolean; result?: unknown; error?: string }>) => {
+      if (event.source !== frame.contentWindow) return;
+      finish();
+      if (event.data.ok) resolve(event.data.result);
+      else reject(new Error(event.data.error));
+    };
+    const timer = setTimeout(() => {
+      finish();
+      reject(new Error(`The handler did not finish within ${timeoutMs / 1000} seconds.`));
+    }, timeoutMs);
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    window.addEventListener('message', onMessage);
+    // The frame's origin is opaque, so messages to it can only be sent to '*'.
+    frame.onload = () => frame.contentWindow?.postMessage({ code, args }, '*');
+    document.body.appendChild(frame);
+  });
+}
+
+// The Gemini API expects a functionResponse to be an object; other values are wrapped.
+export const toFunctionResponse = (value: unknown): Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : { result: value };
@@ -0,0 +1,190 @@
+import { TrainingFile } from '../types';
+
+export interface TuningExample {
+  textInput: string;
+  output: string;
+}
+
+export interface TrainingDataResult {
+  examples: TuningExample[];
+  // Human-readable notes about rows and files that could not be used.
+  issues: string[];
+}
+
+const INPUT_COLUMNS = ['text_input', 'textinput', 'input', 'prompt', 'question'];
+const OUTPUT_COLUMNS = ['output', 'completion', 'response', 'answer'];
+
+const decodeDataUrl = (dataUrl: string): string => {
+  const base64 = dataUrl.substring(dataUrl.indexOf(',') + 1);
+  const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+const fileFormat = (file: TrainingFile): 'csv' | 'jsonl' | null => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.csv') || file.mimeType === 'text/csv') return 'csv';
+  if (name.endsWith('.jsonl') || name.endsWith('.ndjson') || file.mimeType === 'application/jsonl') return 'jsonl';
+  return null;
+};
+
+/**
+ * RFC 4180 parsing: quoted fields may contain commas, newlines and doubled quotes.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+const csvToExamples = (text: string, fileName: string, issues: string[]): TuningExample[] => {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) {
+    issues.push(`${fileName}: the file is empty.`);
+    return [];
+  }
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  let inputIndex = header.findIndex(cell => INPUT_COLUMNS.includes(cell));
+  let outputIndex = header.findIndex(cell => OUTPUT_COLUMNS.includes(cell));
+  let firstRowNumber = 2;
+  let dataRows = rows.slice(1);
+  // Without recognised headers the first two columns are used and the first row is treated as data.
+  if (inputIndex === -1 || outputIndex === -1) {
+    inputIndex = 0;
+    outputIndex = 1;
+    dataRows = rows;
+    firstRowNumber = 1;
+  }
+
+  return dataRows.flatMap((cells, index) => {
+    const textInput = cells[inputIndex]?.trim();
+    const output = cells[outputIndex]?.trim();
+    if (!textInput || !output) {
+      issues.push(`${fileName}: row ${index + firstRowNumber} was skipped because it has no input or output.`);
+      return [];
+    }
+    return [{ textInput, output }];
+  });
+};
+
+const textOf = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  // Gemini `parts` arrays and OpenAI content arrays both carry their text in `text` fields.
+  if (Array.isArray(value)) {
+    const text = value.map(part => (typeof part === 'object' && part !== null && typeof (part as any).text === 'string') ? (part as any).text : '').join('');
+    return text || undefined;
+  }
+  return undefined;
+};
+
+// Multi-turn records are reduced to their last user turn and the model reply that follows it.
+const conversationToExample = (turns: unknown[]): TuningExample | null => {
+  let textInput: string | undefined;
+  let output: string | undefined;
+  turns.forEach(turn => {
+    if (typeof turn !== 'object' || turn === null) return;
+    const { role, parts, content } = turn as Record<string, unknown>;
+    const text = textOf(parts ?? content);
+    if (!text) return;
+    if (role === 'user') {
+      textInput = text;
+      output = undefined;
+    } else if ((role === 'model' || role === 'assistant') && textInput) {
+      output = text;
+    }
+  });
+  return textInput && output ? { textInput, output } : null;
+};
+
+const recordToExample = (record: Record<string, unknown>): TuningExample | null => {
+  if (Array.isArray(record.contents)) return conversationToExample(record.contents);
+  if (Array.isArray(record.messages)) return conversationToExample(record.messages);
+
+  const keys = Object.keys(record);
+  const inputKey = keys.find(key => INPUT_COLUMNS.includes(key.toLowerCase()));
+  const outputKey = keys.find(key => OUTPUT_COLUMNS.includes(key.toLowerCase()));
+  const textInput = inputKey ? textOf(record[inputKey])?.trim() : undefined;
+  const output = outputKey ? textOf(record[outputKey])?.trim() : undefined;
+  return textInput && output ? { textInput, output } : null;
+};
+
+const jsonlToExamples = (text: string, fileName: string, issues: string[]): TuningExample[] =>
+  text.split(/\r?\n/).flatMap((line, index) => {
+    if (!line.trim()) return [];
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      issues.push(`${fileName}: line ${index + 1} is not valid JSON.`);
+      return [];
+    }
+    const example = typeof record === 'object' && record !== null && !Array.isArray(record)
+      ? recordToExample(record as Record<string, unknown>)
+      : null;
+    if (!example) {
+      issues.push(`${fileName}: line ${index + 1} has no recognisable input and output.`);
+      return [];
+    }
+    return [example];
+  });
+
+/**
+ * Converts uploaded training files into input/output pairs.
+ *
+ * CSV files need an input column (text_input, input, prompt or question) and an output column
+ * (output, completion, response or answer); otherwise the first two columns are used.
+ * JSONL lines may use the same keys, or Gemini `contents` / OpenAI `messages` conversations.
+ */
+export function trainingFilesToExamples(files: TrainingFile[]): TrainingDataResult {
+  const issues: string[] = [];
+  const examples = files.flatMap(file => {
+    const format = fileFormat(file);
+    if (!format) {
+      issues.push(`${file.name}: only CSV and JSONL files can be used for tuning.`);
+      return [];
+    }
+    let text: string;
+    try {
+      text = decodeDataUrl(file.dataUrl);
+    } catch (error) {
+      console.error(`Failed to read training file ${file.name}`, error);
+      issues.push(`${file.name}: the file could not be read.`);
+      return [];
+    }
+    return format === 'csv' ? csvToExamples(text, file.name, issues) : jsonlToExamples(text, file.name, issues);
+  });
+  return { examples, issues };
+}
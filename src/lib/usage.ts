@@ -0,0 +1,96 @@
+import { ChatSession, Model, ModelPrice, Role, TokenUsage } from '../types';
+
+export type UsageGroupBy = 'day' | 'model' | 'chat';
+
+export interface UsageRecord {
+  chatId: string;
+  chatTitle: string;
+  model: string;
+  // Local calendar day of the reply, as YYYY-MM-DD.
+  day: string;
+  usage: TokenUsage;
+}
+
+export interface UsageGroup {
+  key: string;
+  label: string;
+  replies: number;
+  usage: TokenUsage;
+  cost: number;
+  // True when some replies in the group used a model without a price, so `cost` is a lower bound.
+  hasUnpricedReplies: boolean;
+}
+
+// Paid-tier list prices in USD per million tokens, for prompts up to 200k tokens.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  [Model.GEMINI_2_5_PRO]: { inputPerMillion: 1.25, outputPerMillion: 10, cachedInputPerMillion: 0.31 },
+  [Model.GEMINI_2_5_FLASH]: { inputPerMillion: 0.3, outputPerMillion: 2.5, cachedInputPerMillion: 0.075 },
+  [Model.GEMINI_2_5_FLASH_LITE]: { inputPerMillion: 0.1, outputPerMillion: 0.4, cachedInputPerMillion: 0.025 },
+  [Model.GEMINI_2_0_FLASH]: { inputPerMillion: 0.1, outputPerMillion: 0.4, cachedInputPerMillion: 0.025 },
+  [Model.GEMINI_2_0_FLASH_LITE]: { inputPerMillion: 0.075, outputPerMillion: 0.3, cachedInputPerMillion: 0.01875 },
+};
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, candidatesTokens: 0, thinkingTokens: 0, cachedTokens: 0, totalTokens: 0 };
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  candidatesTokens: a.candidatesTokens + b.candidatesTokens,
+  thinkingTokens: a.thinkingTokens + b.thinkingTokens,
+  cachedTokens: a.cachedTokens + b.cachedTokens,
+  totalTokens: a.totalTokens + b.totalTokens,
+});
+
+// Returns null when there is no price for the model.
+export function estimateCost(usage: TokenUsage, price: ModelPrice | undefined): number | null {
+  if (!price) return null;
+  const cached = Math.min(usage.cachedTokens, usage.promptTokens);
+  return (
+    (usage.promptTokens - cached) * price.inputPerMillion +
+    cached * price.cachedInputPerMillion +
+    (usage.candidatesTokens + usage.thinkingTokens) * price.outputPerMillion
+  ) / 1_000_000;
+}
+
+const toLocalDay = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Every reply on every branch counts, since each one was billed.
+export const collectUsageRecords = (chats: ChatSession[]): UsageRecord[] =>
+  chats.flatMap(chat => chat.messages
+    .filter(msg => msg.role === Role.MODEL && msg.usage && msg.generation)
+    .map(msg => ({
+      chatId: chat.id,
+      chatTitle: chat.title,
+      model: msg.generation!.model,
+      day: toLocalDay(msg.generation!.createdAt),
+      usage: msg.usage!,
+    })));
+
+/**
+ * Sums usage records per day, model or chat. Days are sorted newest first, everything else by cost and then tokens.
+ */
+export function aggregateUsage(records: UsageRecord[], groupBy: UsageGroupBy, prices: Record<string, ModelPrice>): UsageGroup[] {
+  const groups = new Map<string, UsageGroup>();
+  for (const record of records) {
+    const key = groupBy === 'day' ? record.day : groupBy === 'model' ? record.model : record.chatId;
+    const label = groupBy === 'chat' ? record.chatTitle : key;
+    const group = groups.get(key) ?? { key, label, replies: 0, usage: EMPTY_USAGE, cost: 0, hasUnpricedReplies: false };
+    const cost = estimateCost(record.usage, prices[record.model]);
+    groups.set(key, {
+      ...group,
+      replies: group.replies + 1,
+      usage: addUsage(group.usage, record.usage),
+      cost: group.cost + (cost ?? 0),
+      hasUnpricedReplies: group.hasUnpricedReplies || cost === null,
+    });
+  }
+  const sorted = [...groups.values()];
+  return groupBy === 'day'
+    ? sorted.sort((a, b) => b.key.localeCompare(a.key))
+    : sorted.sort((a, b) => b.cost - a.cost || b.usage.totalTokens - a.usage.totalTokens);
+}
+
+export const formatCost = (cost: number): string => cost > 0 && cost < 0.01 ? `<$0.01` : `$${cost.toFixed(2)}`;
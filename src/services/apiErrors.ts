@@ -0,0 +1,156 @@
+import { ApiErrorKind, MessageError } from '../types';
+
+// Per-minute rate limits and overloaded servers clear on their own. A hard quota (also a 429) does not, so it isn't retried.
+const RETRYABLE_KINDS = [ApiErrorKind.RATE_LIMITED, ApiErrorKind.UNAVAILABLE];
+
+interface ApiRequestErrorOptions {
+  status?: number;
+  retryAfterMs?: number;
+}
+
+export class ApiRequestError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  // Server-suggested wait before retrying, parsed from google.rpc.RetryInfo when present.
+  readonly retryAfterMs?: number;
+
+  constructor(kind: ApiErrorKind, message: string, options: ApiRequestErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  toMessageError(): MessageError {
+    return { kind: this.kind, message: this.message };
+  }
+}
+
+export class RateLimitedError extends ApiRequestError {
+  constructor(message: string, options?: ApiRequestErrorOptions) {
+    super(ApiErrorKind.RATE_LIMITED, message, options);
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class QuotaExhaustedError extends ApiRequestError {
+  constructor(message: string, options?: ApiRequestErrorOptions) {
+    super(ApiErrorKind.QUOTA_EXHAUSTED, message, options);
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+export class SafetyBlockedError extends ApiRequestError {
+  constructor(message: string, options?: ApiRequestErrorOptions) {
+    super(ApiErrorKind.SAFETY_BLOCKED, message, options);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class InvalidArgumentError extends ApiRequestError {
+  constructor(message: string, options?: ApiRequestErrorOptions) {
+    super(ApiErrorKind.INVALID_ARGUMENT, message, options);
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+export class ContextTooLongError extends ApiRequestError {
+  constructor(message: string, options?: ApiRequestErrorOptions) {
+    super(ApiErrorKind.CONTEXT_TOO_LONG, message, options);
+    this.name = 'ContextTooLongError';
+  }
+}
+
+export class UnauthenticatedError extends ApiRequestError {
+  constructor(message: string, options?: ApiRequestErrorOptions) {
+    super(ApiErrorKind.UNAUTHENTICATED, message, options);
+    this.name = 'UnauthenticatedError';
+  }
+}
+
+export class ServiceUnavailableError extends ApiRequestError {
+  constructor(message: string, options?: ApiRequestErrorOptions) {
+    super(ApiErrorKind.UNAVAILABLE, message, options);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+export class NetworkError extends ApiRequestError {
+  constructor(message: string) {
+    super(ApiErrorKind.NETWORK, message);
+    this.name = 'NetworkError';
+  }
+}
+
+interface ErrorBody {
+  message?: string;
+  status?: string;
+  details?: { '@type'?: string; retryDelay?: string }[];
+}
+
+// SDK errors carry the JSON error body in their message, sometimes behind a "got status: ..." prefix.
+const parseErrorBody = (message: string): ErrorBody | null => {
+  const start = message.indexOf('{');
+  if (start === -1) return null;
+  try {
+    const parsed = JSON.parse(message.slice(start));
+    return parsed?.error && typeof parsed.error === 'object' ? parsed.error : null;
+  } catch {
+    return null;
+  }
+};
+
+const parseRetryDelay = (body: ErrorBody | null): number | undefined => {
+  const retryInfo = body?.details?.find(detail => detail['@type']?.endsWith('RetryInfo'));
+  const seconds = retryInfo?.retryDelay ? parseFloat(retryInfo.retryDelay) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+};
+
+export function apiErrorFromStatus(status: number, rawMessage: string): ApiRequestError {
+  const body = parseErrorBody(rawMessage);
+  const message = body?.message || rawMessage || `Request failed with status ${status}`;
+  const options = { status, retryAfterMs: parseRetryDelay(body) };
+  const detailsText = JSON.stringify(body?.details ?? []);
+
+  if (status === 429) {
+    // Per-minute limits clear on their own; daily or zero limits need a plan change or another key.
+    const isHardQuota = /PerDay|limit: 0|billing/i.test(detailsText) || /per day|billing details/i.test(message);
+    return isHardQuota ? new QuotaExhaustedError(message, options) : new RateLimitedError(message, options);
+  }
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID/.test(rawMessage)) {
+    return new UnauthenticatedError(message, options);
+  }
+  if (status === 413 || /token count.*exceeds|exceeds the maximum number of tokens|context length/i.test(message)) {
+    return new ContextTooLongError(message, options);
+  }
+  if (status === 400 || status === 404 || status === 422) {
+    return new InvalidArgumentError(message, options);
+  }
+  if (status >= 500) {
+    return new ServiceUnavailableError(message, options);
+  }
+  return new ApiRequestError(ApiErrorKind.UNKNOWN, message, options);
+}
+
+export function toApiError(error: unknown): ApiRequestError {
+  if (error instanceof ApiRequestError) return error;
+
+  if (error instanceof Error) {
+    const status = (error as { status?: unknown }).status;
+    if (typeof status === 'number') {
+      return apiErrorFromStatus(status, error.message);
+    }
+    // fetch rejects with a TypeError whose wording depends on the browser when the request never reaches the server.
+    if (error instanceof TypeError && /Failed to fetch|NetworkError|Load failed|fetch failed/i.test(error.message)) {
+      return new NetworkError(error.message);
+    }
+    return new ApiRequestError(ApiErrorKind.UNKNOWN, error.message);
+  }
+
+  return new ApiRequestError(ApiErrorKind.UNKNOWN, String(error));
+}
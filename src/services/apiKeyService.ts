@@ -0,0 +1,39 @@
+import { ApiKeyEntry } from '../types';
+
+const API_KEYS_KEY = 'apiKeys';
+const ACTIVE_API_KEY_ID_KEY = 'activeApiKeyId';
+const ENV_API_KEY_ID = 'env';
+
+export const createApiKeyEntry = (name: string, key: string): ApiKeyEntry => ({
+  id: `key_${Date.now()}`,
+  name: name.trim() || 'Untitled key',
+  key: key.trim(),
+  addedAt: Date.now(),
+});
+
+export const maskApiKey = (key: string): string => key.length <= 8 ? '••••••••' : `${key.slice(0, 4)}••••${key.slice(-4)}`;
+
+export function loadApiKeys(): ApiKeyEntry[] {
+  try {
+    const savedKeys = localStorage.getItem(API_KEYS_KEY);
+    if (savedKeys) return JSON.parse(savedKeys);
+  } catch (error) {
+    console.error("Failed to load API keys from localStorage", error);
+  }
+  // A build-time key is still honoured, but only as a starting point the user can replace.
+  const envKey = import.meta.env.VITE_API_KEY;
+  return envKey ? [{ id: ENV_API_KEY_ID, name: 'Environment', key: envKey, addedAt: 0 }] : [];
+}
+
+export function saveApiKeys(keys: ApiKeyEntry[]): void {
+  localStorage.setItem(API_KEYS_KEY, JSON.stringify(keys));
+}
+
+export function loadActiveApiKeyId(): string | null {
+  return localStorage.getItem(ACTIVE_API_KEY_ID_KEY);
+}
+
+export function saveActiveApiKeyId(id: string | null): void {
+  if (id) localStorage.setItem(ACTIVE_API_KEY_ID_KEY, id);
+  else localStorage.removeItem(ACTIVE_API_KEY_ID_KEY);
+}
@@ -0,0 +1,111 @@
+import { ApiErrorKind, BatchRow, BatchRowStatus, RetryConfig, Role, TokenUsage } from '../types';
+import type { ChatProvider, GenerateOptions } from './chatProviders';
+import { ApiRequestError, toApiError } from './apiErrors';
+import { backoffDelay, sleep } from './retry';
+import { fillTemplate } from '../lib/promptTemplates';
+import { BatchFormat, formatBatchResults } from '../lib/batchData';
+import { downloadBlob } from '../lib/download';
+
+export interface BatchRunOptions {
+    provider: ChatProvider;
+    modelName: string;
+    generateOptions: GenerateOptions;
+    // Prompt with `{{column}}` placeholders filled from each row.
+    template: string;
+    concurrency: number;
+    // Spaces out request starts; 0 sends as fast as the concurrency allows.
+    requestsPerMinute: number;
+    retryConfig: RetryConfig;
+    signal: AbortSignal;
+    onRowChange: (row: BatchRow) => void;
+}
+
+// Every later row would fail the same way, so the run stops instead of burning through the queue.
+const STOPPING_ERROR_KINDS = [ApiErrorKind.QUOTA_EXHAUSTED, ApiErrorKind.UNAUTHENTICATED];
+// Transient failures: rate limits, overloaded servers and dropped connections.
+const REQUEUED_ERROR_KINDS = [ApiErrorKind.RATE_LIMITED, ApiErrorKind.UNAVAILABLE, ApiErrorKind.NETWORK];
+
+/**
+ * Runs every row that isn't done yet. A row that is rate limited or hits an unavailable server or network
+ * pauses the whole queue before it is requeued, so concurrent requests back off together rather than each
+ * hitting the same failure again.
+ * Rejects with the error that stopped the run, if any; rows left unsent stay pending.
+ */
+export async function runBatch(rows: BatchRow[], options: BatchRunOptions): Promise<void> {
+    const { provider, modelName, generateOptions, template, retryConfig, signal, onRowChange } = options;
+    const queue = rows.filter(row => row.status !== BatchRowStatus.DONE);
+    const startInterval = options.requestsPerMinute > 0 ? 60000 / options.requestsPerMinute : 0;
+    let nextStartAt = 0;
+    let pausedUntil = 0;
+    let stopError: ApiRequestError | null = null;
+
+    const waitForTurn = async () => {
+        // A pause can be extended by another worker while this one waits.
+        for (let wait = Math.max(nextStartAt, pausedUntil) - Date.now(); wait > 0; wait = Math.max(nextStartAt, pausedUntil) - Date.now()) {
+            await sleep(wait, signal);
+        }
+        nextStartAt = Date.now() + startInterval;
+    };
+
+    const runRow = async (row: BatchRow): Promise<BatchRow> => {
+        let output = '';
+        let usage: TokenUsage | undefined;
+        const startedAt = performance.now();
+        await provider.generateChatResponse(
+            [{ id: `batch-row-${row.index}-${Date.now()}`, role: Role.USER, content: fillTemplate(template, row.values) }],
+            modelName,
+            // The queue handles transient failures itself; retrying inside each worker would keep every worker hitting them.
+            { ...generateOptions, retryConfig: { ...retryConfig, maxRetries: 0 } },
+            chunk => {
+                output += chunk.text;
+                if (chunk.usage) usage = chunk.usage;
+            },
+            signal
+        );
+        return { ...row, status: BatchRowStatus.DONE, output, error: undefined, usage, latencyMs: Math.round(performance.now() - startedAt) };
+    };
+
+    const worker = async () => {
+        while (queue.length > 0 && !stopError) {
+            await waitForTurn();
+            const next = queue.shift();
+            if (!next || stopError) return;
+            const row: BatchRow = { ...next, status: BatchRowStatus.RUNNING, attempts: next.attempts + 1, output: undefined, error: undefined };
+            onRowChange(row);
+            try {
+                onRowChange(await runRow(row));
+            } catch (error) {
+                if (error instanceof Error && error.name === 'AbortError') {
+                    onRowChange({ ...row, status: BatchRowStatus.PENDING });
+                    throw error;
+                }
+                const apiError = toApiError(error);
+                if (REQUEUED_ERROR_KINDS.includes(apiError.kind) && row.attempts <= retryConfig.maxRetries) {
+                    const delay = Math.min(retryConfig.maxDelayMs, apiError.retryAfterMs ?? backoffDelay(row.attempts, retryConfig));
+                    console.warn(`Batch row ${row.index + 1} failed with ${apiError.name}, pausing the queue for ${delay}ms.`);
+                    pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+                    queue.unshift(row);
+                    onRowChange({ ...row, status: BatchRowStatus.PENDING });
+                    continue;
+                }
+                if (STOPPING_ERROR_KINDS.includes(apiError.kind)) stopError = apiError;
+                onRowChange({ ...row, status: BatchRowStatus.FAILED, error: apiError.toMessageError() });
+            }
+        }
+    };
+
+    try {
+        await Promise.all(Array.from({ length: Math.max(1, Math.min(options.concurrency, queue.length)) }, worker));
+    } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+            console.log('Batch run aborted.');
+        }
+        throw error;
+    }
+    if (stopError) throw stopError;
+}
+
+export function exportBatchResults(rows: BatchRow[], columns: string[], format: BatchFormat, isJsonOutput: boolean, sourceName: string) {
+    const content = formatBatchResults(rows, columns, format, isJsonOutput);
+    downloadBlob(new Blob([content], { type: format === 'csv' ? 'text/csv' : 'application/jsonl' }), `${sourceName.replace(/\.[^.]+$/, '') || 'batch'}-results.${format}`);
+}
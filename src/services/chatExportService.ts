@@ -0,0 +1,213 @@
+import { createElement } from 'react';
+import katexCss from 'katex/dist/katex.min.css?inline';
+import { GroundingChunk } from '@google/genai';
+import { Attachment, ChatMessage, ChatSession, Role } from '../types';
+import { getActivePath } from '../lib/messageTree';
+import { partsToMarkdown } from '../lib/messageParts';
+import { downloadBlob, toFileSlug } from '../lib/download';
+
+export type ChatExportFormat = 'markdown' | 'html' | 'print';
+
+// KaTeX's stylesheet references its fonts relatively. The print view loads them from the app, and the HTML export
+// embeds them so it renders math offline.
+const KATEX_FONT_URLS = import.meta.glob<string>('/node_modules/katex/dist/fonts/*.woff2', { query: '?url', import: 'default', eager: true });
+const KATEX_FONT_SRC = /src:url\(fonts\/([\w-]+)\.woff2\)[^;}]*/g;
+
+const TRANSCRIPT_CSS = `
+  body { margin: 0; background: #fff; color: #1f2937; font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; line-height: 1.6; }
+  .transcript { max-width: 56rem; margin: 0 auto; padding: 2rem 1.5rem; }
+  header { border-bottom: 1px solid #e5e7eb; margin-bottom: 2rem; }
+  h1 { font-size: 1.75rem; margin: 0 0 0.25rem; }
+  .meta { color: #6b7280; font-size: 0.875rem; margin: 0 0 1rem; }
+  .message { margin-bottom: 2rem; break-inside: avoid-page; }
+  .role { font-size: 0.75rem; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; color: #6b7280; margin-bottom: 0.5rem; }
+  .user .user-text { background: #f3f4f6; border-radius: 0.75rem; padding: 0.75rem 1rem; white-space: pre-wrap; }
+  .reasoning { background: #f3f4f6; border-radius: 0.5rem; padding: 0.75rem 1rem; margin-bottom: 1rem; }
+  .reasoning summary { font-size: 0.75rem; color: #6b7280; cursor: pointer; }
+  .inline-code { background: #f1f5f9; border-radius: 0.375rem; padding: 0.1rem 0.35rem; font-size: 0.875rem; }
+  .code-block { border: 1px solid #e5e7eb; border-radius: 0.5rem; background: #f9fafb; margin: 1rem 0; overflow: hidden; break-inside: avoid; }
+  .code-language { background: #f3f4f6; border-bottom: 1px solid #e5e7eb; padding: 0.3rem 1rem; font-size: 0.75rem; font-weight: 600; color: #6b7280; }
+  table { border-collapse: collapse; width: 100%; margin: 1rem 0; font-size: 0.875rem; }
+  th, td { border: 1px solid #e5e7eb; padding: 0.5rem 1rem; text-align: left; }
+  blockquote { border-left: 4px solid #d1d5db; margin: 1rem 0; padding-left: 1rem; color: #374151; font-style: italic; }
+  img { max-width: 100%; }
+  .attachments { display: flex; flex-wrap: wrap; gap: 1rem; margin-top: 1rem; }
+  .attachment-media { max-height: 24rem; max-width: 100%; border-radius: 0.5rem; border: 1px solid #e5e7eb; }
+  .attachment-file { display: inline-block; background: #e5e7eb; border-radius: 0.5rem; padding: 0.5rem; font-size: 0.75rem; color: inherit; }
+  .sources { border-top: 1px solid #e5e7eb; margin-top: 1rem; padding-top: 0.75rem; }
+  .sources h4 { margin: 0 0 0.5rem; font-size: 0.875rem; }
+  .sources ul { margin: 0; padding-left: 1.25rem; font-size: 0.8rem; }
+  .error { color: #b91c1c; }
+  .project { color: #6b7280; font-size: 0.875rem; }
+  a { color: #2563eb; }
+  @media print {
+    .transcript { max-width: none; padding: 0; }
+    .reasoning summary { list-style: none; }
+    a { color: inherit; }
+    video { display: none; }
+  }
+`;
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+const katexFontUrl = (name: string): string | undefined =>
+  Object.entries(KATEX_FONT_URLS).find(([path]) => path.endsWith(`/${name}.woff2`))?.[1];
+
+// Only the woff2 files are kept; every browser that runs the app supports them.
+const katexCssWithFonts = (fontUrls: Map<string, string>): string =>
+  katexCss.replace(KATEX_FONT_SRC, (match, name: string) => fontUrls.has(name) ? `src:url(${fontUrls.get(name)}) format("woff2")` : match);
+
+const appFontUrls = (): Map<string, string> => {
+  const fontUrls = new Map<string, string>();
+  for (const [, name] of katexCss.matchAll(KATEX_FONT_SRC)) {
+    const url = katexFontUrl(name);
+    if (url) fontUrls.set(name, new URL(url, window.location.href).href);
+  }
+  return fontUrls;
+};
+
+const embeddedFontUrls = async (): Promise<Map<string, string>> => {
+  const fontUrls = new Map<string, string>();
+  await Promise.all([...appFontUrls()].map(async ([name, url]) => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Failed to load the math font ${name} (${response.status}).`);
+    fontUrls.set(name, await blobToDataUrl(await response.blob()));
+  }));
+  return fontUrls;
+};
+
+// The renderer and the transcript are only needed here, so they are loaded on demand instead of with the app.
+const buildHtmlDocument = async (chat: ChatSession, messages: ChatMessage[], fontUrls: Map<string, string>, autoPrint: boolean): Promise<string> => {
+  const [{ renderToStaticMarkup }, { ChatTranscript }] = await Promise.all([import('react-dom/server'), import('../components/ChatTranscript')]);
+  const body = renderToStaticMarkup(createElement(ChatTranscript, { title: chat.title, messages, exportedAt: new Date() }));
+  const css = katexCssWithFonts(fontUrls);
+  const printScript = autoPrint ? `<script>window.addEventListener('load', () => setTimeout(() => window.print(), 300));</script>` : '';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(chat.title)}</title>
+<style>${css}</style>
+<style>${TRANSCRIPT_CSS}</style>
+${printScript}
+</head>
+<body>
+${body}
+</body>
+</html>`;
+};
+
+// Attachment file names are not unique within a chat, so they are numbered in conversation order.
+const attachmentFileNames = (messages: ChatMessage[]): Map<string, string> => {
+  const names = new Map<string, string>();
+  messages.flatMap(msg => msg.attachments ?? []).forEach((att, index) => {
+    names.set(att.id, `attachments/${index + 1}-${att.name.replace(/[\\/]/g, '_')}`);
+  });
+  return names;
+};
+
+const attachmentMarkdown = (attachment: Attachment, path: string): string => {
+  const target = encodeURI(path);
+  return attachment.mimeType.startsWith('image/') ? `![${attachment.name}](${target})` : `[${attachment.name}](${target})`;
+};
+
+const buildMarkdown = (chat: ChatSession, messages: ChatMessage[], fileNames: Map<string, string>): string => {
+  const lines: string[] = [`# ${chat.title}`, '', `_Exported from REXPro AI on ${new Date().toLocaleString()}_`, ''];
+
+  messages.forEach(msg => {
+    lines.push(`## ${msg.role === Role.USER ? 'You' : 'Model'}`, '');
+    if (msg.reasoning && msg.reasoning.trim()) {
+      lines.push('<details>', '<summary>Thinking</summary>', '', msg.reasoning.trim(), '', '</details>', '');
+    }
+    const inlineImageIds = new Set<string>();
+    if (msg.parts && msg.parts.length > 0) {
+      lines.push(partsToMarkdown(msg.parts, attachmentId => {
+        const attachment = msg.attachments?.find(att => att.id === attachmentId);
+        if (!attachment) return '';
+        inlineImageIds.add(attachmentId);
+        return attachmentMarkdown(attachment, fileNames.get(attachment.id)!);
+      }), '');
+    } else if (msg.content.trim()) {
+      lines.push(msg.content.trim(), '');
+    }
+    if (msg.error) lines.push(`> **Error:** ${msg.error.message}`, '');
+    msg.attachments?.filter(att => !inlineImageIds.has(att.id)).forEach(att => lines.push(attachmentMarkdown(att, fileNames.get(att.id)!), ''));
+    // Chunks from a retrieval store have no web link to list.
+    const webSources = (msg.groundingChunks ?? []).filter((chunk: GroundingChunk) => chunk.web?.uri);
+    if (webSources.length > 0) {
+      lines.push('**Sources**', '');
+      webSources.forEach((chunk: GroundingChunk) => lines.push(`- [${chunk.web!.title || chunk.web!.uri}](${chunk.web!.uri})`));
+      lines.push('');
+    }
+    if (msg.projectFilesUpdate && msg.project) lines.push(`_Code project: ${msg.project.name}_`, '');
+  });
+
+  return lines.join('\n');
+};
+
+const dataUrlToBase64 = (dataUrl: string): string => dataUrl.substring(dataUrl.indexOf(',') + 1);
+
+/**
+ * Markdown is downloaded on its own, or zipped with an attachments/ folder when the chat has files.
+ */
+export async function exportChatAsMarkdown(chat: ChatSession): Promise<void> {
+  const messages = getActivePath(chat);
+  const fileNames = attachmentFileNames(messages);
+  const markdown = buildMarkdown(chat, messages, fileNames);
+  const slug = toFileSlug(chat.title, 'chat');
+
+  if (fileNames.size === 0) {
+    downloadBlob(new Blob([markdown], { type: 'text/markdown' }), `${slug}.md`);
+    return;
+  }
+
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+  zip.file(`${slug}.md`, markdown);
+  messages.flatMap(msg => msg.attachments ?? []).forEach(att => {
+    zip.file(fileNames.get(att.id)!, dataUrlToBase64(att.dataUrl), { base64: true });
+  });
+  downloadBlob(await zip.generateAsync({ type: 'blob' }), `${slug}.zip`);
+}
+
+// Attachments and math fonts are embedded as data URLs, so the file has no local or network dependencies.
+export async function exportChatAsHtml(chat: ChatSession): Promise<void> {
+  const html = await buildHtmlDocument(chat, getActivePath(chat), await embeddedFontUrls(), false);
+  downloadBlob(new Blob([html], { type: 'text/html' }), `${toFileSlug(chat.title, 'chat')}.html`);
+}
+
+// The tab is opened before anything is awaited, while the browser still counts it as a response to the click.
+export async function openChatPrintView(chat: ChatSession): Promise<void> {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error("The print view was blocked by the browser. Allow pop-ups for this site and try again.");
+  }
+  let html: string;
+  try {
+    html = await buildHtmlDocument(chat, getActivePath(chat), appFontUrls(), true);
+  } catch (error) {
+    printWindow.close();
+    throw error;
+  }
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+  printWindow.location.href = url;
+  // The new tab needs the URL until it has loaded the document.
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+}
+
+export async function exportChat(chat: ChatSession, format: ChatExportFormat): Promise<void> {
+  if (format === 'markdown') return exportChatAsMarkdown(chat);
+  if (format === 'html') return exportChatAsHtml(chat);
+  return openChatPrintView(chat);
+}
@@ -0,0 +1,88 @@
+import { Tool } from "@google/genai";
+import { Attachment, ChatMessage, ChatProviderId, Model, ModelOption, OpenAICompatibleConfig, ResponseChunk, RetryConfig } from '../types';
+import * as gemini from './geminiService';
+import * as openAICompatible from './openAICompatibleService';
+
+export interface GenerateOptions {
+  systemInstruction: string;
+  config: {
+    temperature?: number;
+    topP?: number;
+    maxOutputTokens?: number;
+    stopSequences?: string[];
+    responseMimeType?: "application/json";
+    responseSchema?: any;
+    tools?: Tool[];
+    responseModalities?: ('IMAGE' | 'TEXT')[];
+    thinkingConfig?: { thinkingBudget: number };
+    // FIX: Add systemInstruction to the config object's type to allow assignment.
+    systemInstruction?: string;
+  };
+  // Replaces the retry settings from Settings for this request. Callers that handle rate limits themselves pass maxRetries: 0.
+  retryConfig?: RetryConfig;
+}
+
+export interface ChatProvider {
+  id: ChatProviderId;
+  label: string;
+  listModels: () => Promise<ModelOption[]>;
+  generateChatResponse: (
+    messages: ChatMessage[],
+    modelName: string,
+    options: GenerateOptions,
+    onChunk: (chunk: ResponseChunk) => void,
+    signal: AbortSignal
+  ) => Promise<void>;
+  // Resolves to null when the provider has no token counting endpoint.
+  countTokens: (messages: ChatMessage[], modelName: string) => Promise<number | null>;
+  // Uploads attachments that are too large to send inline and resolves to the ones it (re)uploaded.
+  prepareAttachments?: (messages: ChatMessage[], signal: AbortSignal) => Promise<Attachment[]>;
+}
+
+export const OPENAI_COMPATIBLE_MODEL_PREFIX = 'openai-compatible/';
+
+export const DEFAULT_OPENAI_COMPATIBLE_CONFIG: OpenAICompatibleConfig = {
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+};
+
+export const providerLabels: Record<ChatProviderId, string> = {
+  [ChatProviderId.GEMINI]: 'Google Gemini',
+  [ChatProviderId.OPENAI_COMPATIBLE]: 'OpenAI-compatible',
+};
+
+const geminiChatModelNames: Partial<Record<Model, string>> = {
+  [Model.GEMINI_2_5_PRO]: 'Gemini 2.5 Pro', [Model.GEMINI_2_5_FLASH]: 'Gemini 2.5 Flash', [Model.GEMINI_2_5_FLASH_LITE]: 'Gemini 2.5 Flash-Lite',
+  [Model.GEMINI_2_0_FLASH]: 'Gemini 2.0 Flash', [Model.GEMINI_2_0_FLASH_LITE]: 'Gemini 2.0 Flash-Lite',
+  [Model.GEMMA_3N_E2B]: 'Gemma 3n E2B', [Model.GEMMA_3N_E4B]: 'Gemma 3n E4B', [Model.GEMMA_3_1B]: 'Gemma 3 1B', [Model.GEMMA_3_4B]: 'Gemma 3 4B', [Model.GEMMA_3_12B]: 'Gemma 3 12B', [Model.GEMMA_3_27B]: 'Gemma 3 27B',
+};
+
+export const geminiChatModelOptions: { value: Model; label: string; provider: ChatProviderId }[] =
+  (Object.keys(geminiChatModelNames) as Model[]).map(value => ({ value, label: geminiChatModelNames[value]!, provider: ChatProviderId.GEMINI }));
+
+export const geminiProvider: ChatProvider = {
+  id: ChatProviderId.GEMINI,
+  label: providerLabels[ChatProviderId.GEMINI],
+  listModels: async () => geminiChatModelOptions,
+  generateChatResponse: (messages, modelName, options, onChunk, signal) =>
+    gemini.generateChatResponse(messages, modelName as Model, options, onChunk, signal),
+  countTokens: (messages, modelName) => gemini.countTokens(messages, modelName as Model),
+  prepareAttachments: (messages, signal) => gemini.uploadLargeAttachments(messages, signal),
+};
+
+export const isOpenAICompatibleModel = (modelName: string): boolean => modelName.startsWith(OPENAI_COMPATIBLE_MODEL_PREFIX);
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): ChatProvider => ({
+  id: ChatProviderId.OPENAI_COMPATIBLE,
+  label: providerLabels[ChatProviderId.OPENAI_COMPATIBLE],
+  listModels: async () => {
+    const modelIds = await openAICompatible.listModels(config);
+    return modelIds.map(id => ({ value: `${OPENAI_COMPATIBLE_MODEL_PREFIX}${id}`, label: id, provider: ChatProviderId.OPENAI_COMPATIBLE }));
+  },
+  generateChatResponse: (messages, modelName, options, onChunk, signal) =>
+    openAICompatible.generateChatResponse(config, messages, modelName.slice(OPENAI_COMPATIBLE_MODEL_PREFIX.length), options, onChunk, signal),
+  countTokens: async () => null,
+});
+
+export const getProviderForModel = (modelName: string, openAICompatibleConfig: OpenAICompatibleConfig): ChatProvider =>
+  isOpenAICompatibleModel(modelName) ? createOpenAICompatibleProvider(openAICompatibleConfig) : geminiProvider;
@@ -0,0 +1,34 @@
+import { ChatMessage, Role } from '../types';
+import type { ChatProvider } from './chatProviders';
+import { formatTranscript } from '../lib/contextWindow';
+
+const SUMMARY_INSTRUCTION = `You condense conversations so they can be continued without the full transcript.
+Keep every fact, decision, name, number, file or code identifier and open question that either side may refer back to.
+Write concise bullet points in the third person ("The user asked...", "The assistant suggested..."), with no preamble.`;
+
+/**
+ * Summarizes turns that no longer fit in the context window, extending `previousSummary` when there is one.
+ * Uses the chat's own model so no other provider or key is needed.
+ */
+export async function summarizeTurns(
+    provider: ChatProvider,
+    modelName: string,
+    messages: ChatMessage[],
+    previousSummary: string | undefined,
+    signal: AbortSignal
+): Promise<string> {
+    const transcript = formatTranscript(messages);
+    const prompt = previousSummary
+        ? `Here is a summary of the start of a conversation:\n\n${previousSummary}\n\nRewrite it so it also covers these later turns:\n\n${transcript}`
+        : `Summarize this conversation:\n\n${transcript}`;
+
+    let summary = '';
+    await provider.generateChatResponse(
+        [{ id: `summary-request-${Date.now()}`, role: Role.USER, content: prompt }],
+        modelName,
+        { systemInstruction: SUMMARY_INSTRUCTION, config: {} },
+        chunk => { summary += chunk.text; },
+        signal
+    );
+    return summary.trim();
+}
@@ -1,32 +1,35 @@
-import { GoogleGenAI, GenerateContentParameters, Tool, GenerateContentResponse, Content } from "@google/genai";
-import { Model, ChatMessage, Attachment } from '../types';
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse, Content, FileState, FinishReason } from "@google/genai";
+import { Model, ChatMessage, Role, Attachment, ResponseChunk, ResponsePart, RetryConfig, ToolTurn, TuningStatus, UploadedFile } from '../types';
+import type { GenerateOptions } from './chatProviders';
+import type { TuningJobRequest, TuningJobStatus } from './tuningService';
+import { SafetyBlockedError, apiErrorFromStatus, toApiError } from './apiErrors';
+import { DEFAULT_RETRY_CONFIG, sleep, withRetry } from './retry';
+
+let apiKey: string | null = null;
+let ai: GoogleGenAI | null = null;
+let retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG;
+
+export function setApiKey(key: string | null): void {
+  apiKey = key;
+  ai = key ? new GoogleGenAI({ apiKey: key }) : null;
+}
 
-const API_KEY = import.meta.env.VITE_API_KEY;
+export function getApiKey(): string | null {
+  return apiKey;
+}
 
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set.");
+export function configureRetry(config: RetryConfig): void {
+  retryConfig = config;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+const getClient = (): GoogleGenAI => {
+  if (!ai) {
+    throw new Error("No Gemini API key configured. Add one in Settings > Account & API.");
+  }
+  return ai;
+};
 const DEFAULT_SYSTEM_INSTRUCTION = "You are a helpful assistant.";
 
-interface GenerateOptions {
-  systemInstruction: string;
-  config: {
-    temperature?: number;
-    topP?: number;
-    maxOutputTokens?: number;
-    stopSequences?: string[];
-    responseMimeType?: "application/json";
-    responseSchema?: any;
-    tools?: Tool[];
-    responseModalities?: ('IMAGE' | 'TEXT')[];
-    thinkingConfig?: { thinkingBudget: number };
-    // FIX: Add systemInstruction to the config object's type to allow assignment.
-    systemInstruction?: string;
-  };
-}
-
 interface ImageConfig {
     numberOfImages: number;
     negativePrompt?: string;
@@ -39,8 +42,99 @@ const dataUrlToBase64 = (dataUrl: string): string => {
     return dataUrl.substring(dataUrl.indexOf(',') + 1);
 };
 
+// Attachments larger than this go through the Files API; a whole inline request is limited to 20 MB.
+const INLINE_ATTACHMENT_LIMIT_BYTES = 8 * 1024 * 1024;
+// Uploaded files are deleted after 48 hours. One that expires within this margin is uploaded again.
+const FILE_EXPIRY_MARGIN_MS = 10 * 60 * 1000;
+const FILE_PROCESSING_POLL_MS = 2000;
+
+// FNV-1a, so cached uploads can be tied to a key without storing the key itself.
+const fingerprintKey = (key: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+};
+
+const needsUpload = (attachment: Attachment): boolean =>
+    dataUrlToBase64(attachment.dataUrl).length * 3 / 4 > INLINE_ATTACHMENT_LIMIT_BYTES;
+
+const isUsableUpload = (file: UploadedFile | undefined): file is UploadedFile =>
+    !!file && !!apiKey && file.keyFingerprint === fingerprintKey(apiKey) && file.expiresAt - FILE_EXPIRY_MARGIN_MS > Date.now();
+
+const BLOCKING_FINISH_REASONS: FinishReason[] = [
+    FinishReason.SAFETY,
+    FinishReason.RECITATION,
+    FinishReason.BLOCKLIST,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.SPII,
+    FinishReason.IMAGE_SAFETY,
+];
+
+// Blocked prompts and responses arrive as successful responses, so they have to be detected from the payload.
+const assertNotBlocked = (response: GenerateContentResponse): void => {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new SafetyBlockedError(response.promptFeedback?.blockReasonMessage || `The prompt was blocked (${blockReason}).`);
+    }
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason)) {
+        throw new SafetyBlockedError(`The response was stopped by the model (${finishReason}).`);
+    }
+};
+
+const toResponseChunk = (response: GenerateContentResponse): ResponseChunk => {
+    const candidate = response.candidates?.[0];
+    const parts: ResponsePart[] = [];
+    candidate?.content?.parts?.forEach(part => {
+        if (part.inlineData?.data && part.inlineData.mimeType) {
+            parts.push({ inlineData: { mimeType: part.inlineData.mimeType, data: part.inlineData.data } });
+        } else if (part.executableCode?.code) {
+            parts.push({ executableCode: { language: (part.executableCode.language ?? 'PYTHON').toLowerCase(), code: part.executableCode.code } });
+        } else if (part.codeExecutionResult) {
+            parts.push({ codeExecutionResult: { outcome: part.codeExecutionResult.outcome ?? 'OUTCOME_UNSPECIFIED', output: part.codeExecutionResult.output ?? '' } });
+        } else if (part.functionCall?.name) {
+            parts.push({ functionCall: { id: part.functionCall.id, name: part.functionCall.name, args: part.functionCall.args ?? {} } });
+        } else if (typeof part.text === 'string' && !part.thought) {
+            parts.push({ text: part.text });
+        }
+    });
+
+    const usageMetadata = response.usageMetadata;
+    return {
+        text: response.text ?? '',
+        parts,
+        groundingChunks: candidate?.groundingMetadata?.groundingChunks,
+        usage: usageMetadata ? {
+            promptTokens: usageMetadata.promptTokenCount ?? 0,
+            candidatesTokens: usageMetadata.candidatesTokenCount ?? 0,
+            thinkingTokens: usageMetadata.thoughtsTokenCount ?? 0,
+            cachedTokens: usageMetadata.cachedContentTokenCount ?? 0,
+            totalTokens: usageMetadata.totalTokenCount ?? 0,
+        } : undefined,
+    };
+};
+
+// A function-calling round becomes the model's call followed by a user turn carrying the responses.
+const buildToolTurnContents = (turns: ToolTurn[]): Content[] => turns.flatMap(turn => [
+    {
+        role: Role.MODEL,
+        parts: [
+            ...(turn.text.trim() ? [{ text: turn.text }] : []),
+            ...turn.calls.map(call => ({ functionCall: { id: call.id, name: call.name, args: call.args } })),
+        ],
+    },
+    {
+        role: Role.USER,
+        parts: turn.calls.map(call => ({ functionResponse: { id: call.id, name: call.name, response: call.response ?? {} } })),
+    },
+]);
+
 const buildContents = (messages: ChatMessage[]): Content[] => {
-    return messages.map(msg => {
+    return messages.flatMap(msg => {
+        const toolTurnContents = msg.toolTurns ? buildToolTurnContents(msg.toolTurns) : [];
         const parts = [];
 
         if (msg.content.trim()) {
@@ -49,6 +143,10 @@ const buildContents = (messages: ChatMessage[]): Content[] => {
 
         if (msg.attachments) {
             msg.attachments.forEach(file => {
+                if (isUsableUpload(file.uploadedFile)) {
+                    parts.push({ fileData: { fileUri: file.uploadedFile.uri, mimeType: file.mimeType } });
+                    return;
+                }
                 parts.push({
                     inlineData: {
                         mimeType: file.mimeType,
@@ -58,13 +156,57 @@ const buildContents = (messages: ChatMessage[]): Content[] => {
             });
         }
         
-        return {
+        // A reply that is still waiting on its next round has no content of its own yet.
+        if (toolTurnContents.length > 0 && parts.length === 0) return toolTurnContents;
+        return [...toolTurnContents, {
             role: msg.role,
             parts: parts,
-        };
+        }];
     });
 };
 
+const uploadAttachment = async (attachment: Attachment, signal: AbortSignal): Promise<Attachment> => {
+    const blob = await (await fetch(attachment.dataUrl)).blob();
+    const keyFingerprint = fingerprintKey(apiKey ?? '');
+    let file = await withRetry(() => getClient().files.upload({
+        file: blob,
+        config: { mimeType: attachment.mimeType, displayName: attachment.name, abortSignal: signal },
+    }), retryConfig, signal);
+    // Video and audio have to be processed before a request can reference them.
+    while (file.state === FileState.PROCESSING) {
+        await sleep(FILE_PROCESSING_POLL_MS, signal);
+        const fileName = file.name!;
+        file = await withRetry(() => getClient().files.get({ name: fileName, config: { abortSignal: signal } }), retryConfig, signal);
+    }
+    if (file.state === FileState.FAILED || !file.name || !file.uri) {
+        throw new Error(`The Files API could not process "${attachment.name}"${file.error?.message ? `: ${file.error.message}` : '.'}`);
+    }
+    const expiresAt = file.expirationTime ? Date.parse(file.expirationTime) : Date.now() + 47 * 60 * 60 * 1000;
+    return { ...attachment, uploadedFile: { name: file.name, uri: file.uri, expiresAt, keyFingerprint } };
+};
+
+/**
+ * Uploads every attachment that is too large to send inline and has no usable upload yet (none, expired,
+ * or made with another key). Resolves to the uploaded attachments so the caller can cache their file URIs.
+ */
+export async function uploadLargeAttachments(messages: ChatMessage[], signal: AbortSignal): Promise<Attachment[]> {
+    const pending = new Map<string, Attachment>();
+    messages.forEach(msg => msg.attachments?.forEach(attachment => {
+        if (needsUpload(attachment) && !isUsableUpload(attachment.uploadedFile)) pending.set(attachment.id, attachment);
+    }));
+    if (pending.size === 0) return [];
+    try {
+        return await Promise.all([...pending.values()].map(attachment => uploadAttachment(attachment, signal)));
+    } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+            console.log('Attachment upload aborted.');
+            throw error;
+        }
+        console.error("Error uploading attachments:", error);
+        throw toApiError(error);
+    }
+}
+
 export async function countTokens(messages: ChatMessage[], modelName: Model): Promise<number> {
   try {
     if (messages.length === 0) {
@@ -72,7 +214,7 @@ export async function countTokens(messages: ChatMessage[], modelName: Model): Pr
     }
     const contents = buildContents(messages);
 
-    const response = await ai.models.countTokens({
+    const response = await getClient().models.countTokens({
       model: modelName,
       contents: contents,
     });
@@ -85,12 +227,21 @@ export async function countTokens(messages: ChatMessage[], modelName: Model): Pr
   }
 }
 
+export async function validateApiKey(key: string): Promise<void> {
+  // A token count is the cheapest authenticated call; it fails fast for invalid or disabled keys.
+  const client = new GoogleGenAI({ apiKey: key });
+  await client.models.countTokens({
+    model: Model.GEMINI_2_5_FLASH_LITE,
+    contents: [{ role: 'user', parts: [{ text: 'ping' }] }],
+  });
+}
+
 export async function generateImage(
   prompt: string,
   modelName: Model.IMAGEN_4_0_GENERATE_001 | Model.IMAGEN_4_0_ULTRA_GENERATE_001 | Model.IMAGEN_4_0_FAST_GENERATE_001 | Model.IMAGEN_3_0_GENERATE_002,
   config: ImageConfig,
   signal: AbortSignal
-): Promise<GenerateContentResponse> {
+): Promise<ResponseChunk> {
     try {
         if (signal.aborted) {
             throw new DOMException('Aborted by user', 'AbortError');
@@ -108,17 +259,22 @@ export async function generateImage(
             requestConfig.seed = config.seed;
         }
 
-        const response = await ai.models.generateImages({
+        const response = await withRetry(() => getClient().models.generateImages({
             model: modelName,
             prompt: prompt,
             config: requestConfig,
-        });
+        }), retryConfig, signal);
 
         if (signal.aborted) {
             throw new DOMException('Aborted by user', 'AbortError');
         }
+
+        const filteredReason = response.generatedImages?.find(img => img.raiFilteredReason)?.raiFilteredReason;
+        if (filteredReason && !response.generatedImages?.some(img => img.image?.imageBytes)) {
+            throw new SafetyBlockedError(filteredReason);
+        }
         
-        const imageParts = response.generatedImages?.map(img => {
+        const imageParts: ResponsePart[] = response.generatedImages?.map(img => {
             if (img.image?.imageBytes) {
                 return {
                     inlineData: {
@@ -132,13 +288,8 @@ export async function generateImage(
 
         return {
             text: '', // No text from this API
-            candidates: [{
-                content: {
-                    role: 'model',
-                    parts: imageParts
-                },
-            }]
-        } as unknown as GenerateContentResponse;
+            parts: imageParts,
+        };
 
     } catch (error) {
         if (error instanceof Error && error.name === 'AbortError') {
@@ -146,7 +297,7 @@ export async function generateImage(
           throw error;
         }
         console.error("Error generating image:", error);
-        throw new Error("Failed to get image from Gemini API.");
+        throw toApiError(error);
     }
 }
 
@@ -156,7 +307,7 @@ export async function generateVideo(
   attachments: Attachment[],
   modelName: Model.VEO_2_0_GENERATE_001 | Model.VEO_3_0_GENERATE_PREVIEW | Model.VEO_3_0_FAST_GENERATE_PREVIEW,
   signal: AbortSignal
-): Promise<GenerateContentResponse> {
+): Promise<ResponseChunk> {
     try {
         if (signal.aborted) throw new DOMException('Aborted by user', 'AbortError');
 
@@ -174,7 +325,7 @@ export async function generateVideo(
             };
         }
 
-        let operation = await ai.models.generateVideos(request);
+        let operation = await withRetry(() => getClient().models.generateVideos(request), retryConfig, signal);
 
         while (!operation.done) {
             if (signal.aborted) {
@@ -182,10 +333,19 @@ export async function generateVideo(
                  throw new DOMException('Aborted by user', 'AbortError');
             }
             await new Promise(resolve => setTimeout(resolve, 10000)); // Poll every 10 seconds
-            operation = await ai.operations.getVideosOperation({ operation: operation });
+            const pendingOperation = operation;
+            operation = await withRetry(() => getClient().operations.getVideosOperation({ operation: pendingOperation }), retryConfig, signal);
         }
 
         if (signal.aborted) throw new DOMException('Aborted by user', 'AbortError');
+
+        if (operation.error) {
+            throw new Error(`Video generation failed: ${operation.error.message ?? JSON.stringify(operation.error)}`);
+        }
+        const filteredReason = operation.response?.raiMediaFilteredReasons?.[0];
+        if (filteredReason && !operation.response?.generatedVideos?.length) {
+            throw new SafetyBlockedError(filteredReason);
+        }
         
         const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
 
@@ -193,9 +353,9 @@ export async function generateVideo(
             throw new Error("Video generation succeeded, but no download link was provided.");
         }
 
-        const videoResponse = await fetch(`${downloadLink}&key=${API_KEY}`);
+        const videoResponse = await fetch(`${downloadLink}&key=${apiKey}`);
         if (!videoResponse.ok) {
-            throw new Error(`Failed to download the video: ${videoResponse.statusText}`);
+            throw apiErrorFromStatus(videoResponse.status, `Failed to download the video: ${videoResponse.statusText}`);
         }
 
         const videoBlob = await videoResponse.blob();
@@ -209,7 +369,7 @@ export async function generateVideo(
         
         const base64Data = dataUrlToBase64(videoDataUrl);
 
-        const videoPart = {
+        const videoPart: ResponsePart = {
             inlineData: {
                 mimeType: 'video/mp4',
                 data: base64Data,
@@ -218,21 +378,96 @@ export async function generateVideo(
 
         return {
             text: 'Your video has been generated.',
-            candidates: [{
-                content: {
-                    role: 'model',
-                    parts: [videoPart]
-                },
-            }]
-        } as unknown as GenerateContentResponse;
+            parts: [videoPart],
+        };
 
     } catch (error) {
         if (error instanceof Error && error.name === 'AbortError') {
           console.log('Video generation aborted.');
-        } else {
-          console.error("Error generating video:", error);
+          throw error;
+        }
+        console.error("Error generating video:", error);
+        throw toApiError(error);
+    }
+}
+
+const GEMINI_API_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+const DEFAULT_TUNING_EPOCHS = 5;
+const DEFAULT_TUNING_BATCH_SIZE = 4;
+
+interface TuningSnapshot {
+    step?: number;
+    epoch?: number;
+    meanLoss?: number;
+}
+
+interface TunedModelResource {
+    state?: 'STATE_UNSPECIFIED' | 'CREATING' | 'ACTIVE' | 'FAILED';
+    tuningTask?: {
+        snapshots?: TuningSnapshot[];
+        hyperparameters?: { epochCount?: number; batchSize?: number };
+    };
+}
+
+export async function startTuningJob(request: TuningJobRequest): Promise<string> {
+    try {
+        const baseModel = request.baseModel.startsWith('models/') ? request.baseModel : `models/${request.baseModel}`;
+        const job = await withRetry(() => getClient().tunings.tune({
+            baseModel,
+            trainingDataset: { examples: request.examples },
+            config: {
+                tunedModelDisplayName: request.displayName,
+                epochCount: DEFAULT_TUNING_EPOCHS,
+                batchSize: DEFAULT_TUNING_BATCH_SIZE,
+            },
+        }), retryConfig);
+        if (!job.name) {
+            throw new Error("The tuning job was accepted, but no model name was returned.");
+        }
+        return job.name;
+    } catch (error) {
+        console.error("Error starting tuning job:", error);
+        throw toApiError(error);
+    }
+}
+
+// The SDK's tunings.get() drops the training snapshots, so the tuned model resource is read directly to get step and loss.
+export async function getTuningJobStatus(tunedModelName: string, exampleCount: number, signal?: AbortSignal): Promise<TuningJobStatus> {
+    try {
+        if (!apiKey) {
+            throw new Error("No Gemini API key configured. Add one in Settings > Account & API.");
+        }
+        const key = apiKey;
+        const resource = await withRetry(async () => {
+            const response = await fetch(`${GEMINI_API_BASE_URL}/${tunedModelName}`, { headers: { 'x-goog-api-key': key }, signal });
+            if (!response.ok) {
+                throw apiErrorFromStatus(response.status, await response.text());
+            }
+            return await response.json() as TunedModelResource;
+        }, retryConfig, signal);
+
+        const snapshots = resource.tuningTask?.snapshots ?? [];
+        const latest = snapshots[snapshots.length - 1];
+        const epochCount = resource.tuningTask?.hyperparameters?.epochCount ?? DEFAULT_TUNING_EPOCHS;
+        const batchSize = resource.tuningTask?.hyperparameters?.batchSize ?? DEFAULT_TUNING_BATCH_SIZE;
+        const totalSteps = Math.max(1, Math.ceil(exampleCount / batchSize) * epochCount);
+        const step = latest?.step ?? 0;
+
+        if (resource.state === 'ACTIVE') {
+            return { status: TuningStatus.COMPLETED, progress: { completedPercent: 100, step: totalSteps, totalSteps, epoch: epochCount, loss: latest?.meanLoss } };
+        }
+        const progress = { completedPercent: Math.min(99, Math.round((step / totalSteps) * 100)), step, totalSteps, epoch: latest?.epoch, loss: latest?.meanLoss };
+        if (resource.state === 'FAILED') {
+            return { status: TuningStatus.FAILED, progress, error: "The tuning job failed. Check that the base model supports tuning and that the training data is valid." };
+        }
+        return { status: TuningStatus.TRAINING, progress };
+    } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+            console.log('Tuning status request aborted.');
+            throw error;
         }
-        throw error;
+        console.error("Error getting tuning job status:", error);
+        throw toApiError(error);
     }
 }
 
@@ -249,7 +484,7 @@ export async function transcribeAudio(audioBase64: string, mimeType: string): Pr
             text: "Transcribe this audio recording precisely. Provide only the text from the audio, without any additional comments or summaries.",
         };
         
-        const response = await ai.models.generateContent({
+        const response = await getClient().models.generateContent({
             model: Model.GEMINI_2_5_FLASH,
             contents: { parts: [audioPart, textPart] },
         });
@@ -267,7 +502,7 @@ export async function generateChatResponse(
   messages: ChatMessage[], 
   modelName: Model, 
   options: GenerateOptions, 
-  onChunk: (chunk: GenerateContentResponse) => void,
+  onChunk: (chunk: ResponseChunk) => void,
   signal: AbortSignal
 ): Promise<void> {
   try {
@@ -310,13 +545,15 @@ export async function generateChatResponse(
         if (signal.aborted) {
             throw new DOMException('Aborted by user', 'AbortError');
         }
-        const response = await ai.models.generateContent(params);
-        onChunk(response);
+        const response = await withRetry(() => getClient().models.generateContent(params), options.retryConfig ?? retryConfig, signal);
+        assertNotBlocked(response);
+        onChunk(toResponseChunk(response));
         return;
     }
 
-    // Default to streaming for all other models
-    const response = await ai.models.generateContentStream(params);
+    // Default to streaming for all other models. Only opening the stream is retried;
+    // a failure mid-stream would otherwise duplicate text that was already shown.
+    const response = await withRetry(() => getClient().models.generateContentStream(params), options.retryConfig ?? retryConfig, signal);
     const iterator = response[Symbol.asyncIterator]();
 
     while (true) {
@@ -333,7 +570,8 @@ export async function generateChatResponse(
             break;
         }
         
-        onChunk(value);
+        onChunk(toResponseChunk(value));
+        assertNotBlocked(value);
     }
 
   } catch (error) {
@@ -342,6 +580,6 @@ export async function generateChatResponse(
       throw error; // Propagate the abort error
     }
     console.error("Error streaming chat response:", error);
-    throw new Error("Failed to get streaming response from Gemini API.");
+    throw toApiError(error);
   }
 }
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { Attachment, ChatMessage, ChatSession, Role } from '../types';
+import { createAttachmentId } from './storageService';
+import { linkMessages } from '../lib/messageTree';
+
+export type HistoryImportMode = 'merge' | 'replace' | 'skip-duplicates';
+
+export interface HistoryImportPreview {
+  sessions: ChatSession[];
+  messageCount: number;
+  attachmentCount: number;
+  // Human-readable notes about entries that were dropped or repaired while validating.
+  issues: string[];
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseAttachment = (value: unknown): Attachment | string => {
+  if (!isRecord(value)) return 'not an object';
+  const { id, name, mimeType, dataUrl } = value;
+  if (typeof name !== 'string') return 'missing name';
+  if (typeof mimeType !== 'string') return `"${name}" has no mimeType`;
+  if (typeof dataUrl !== 'string' || !dataUrl.startsWith('data:')) return `"${name}" has no data URL`;
+  // Exports made before attachments had ids are still accepted.
+  return { id: typeof id === 'string' && id ? id : createAttachmentId(), name, mimeType, dataUrl };
+};
+
+const parseMessage = (value: unknown, issues: string[], label: string): ChatMessage | string => {
+  if (!isRecord(value)) return 'not an object';
+  const { id, role, content } = value;
+  if (typeof id !== 'string' || !id) return 'missing id';
+  if (role !== Role.USER && role !== Role.MODEL) return `unknown role "${String(role)}"`;
+  if (typeof content !== 'string') return 'missing content';
+  if (value.parentId !== undefined && value.parentId !== null && typeof value.parentId !== 'string') return 'invalid parentId';
+
+  const message = { ...value } as unknown as ChatMessage;
+  if (value.attachments !== undefined) {
+    if (!Array.isArray(value.attachments)) return 'attachments is not a list';
+    message.attachments = value.attachments.flatMap((raw, index) => {
+      const attachment = parseAttachment(raw);
+      if (typeof attachment === 'string') {
+        issues.push(`${label}: attachment ${index + 1} was dropped (${attachment}).`);
+        return [];
+      }
+      return [attachment];
+    });
+  }
+  // Transient streaming flags must not survive into a restored chat.
+  delete message.isThinking;
+  delete message.isParsingReasoning;
+  return message;
+};
+
+const parseSession = (value: unknown, index: number, issues: string[]): ChatSession | string => {
+  if (!isRecord(value)) return 'not an object';
+  const { id, title, messages } = value;
+  if (typeof id !== 'string' || !id) return 'missing id';
+  if (!Array.isArray(messages)) return 'missing messages';
+  const label = `"${typeof title === 'string' ? title : id}"`;
+
+  const parsedMessages: ChatMessage[] = [];
+  for (const [messageIndex, raw] of messages.entries()) {
+    const message = parseMessage(raw, issues, label);
+    // A dropped message would orphan every reply below it, so the whole session is rejected instead.
+    if (typeof message === 'string') return `message ${messageIndex + 1} is invalid (${message})`;
+    parsedMessages.push(message);
+  }
+
+  const session: ChatSession = {
+    id,
+    title: typeof title === 'string' && title.trim() ? title : 'Untitled Chat',
+    messages: linkMessages(parsedMessages),
+  };
+  if (isRecord(value.selectedChildIds)) {
+    session.selectedChildIds = value.selectedChildIds as Record<string, string>;
+  }
+  if (isRecord(value.runSettings)) {
+    session.runSettings = value.runSettings as unknown as ChatSession['runSettings'];
+  }
+  if (isRecord(value.contextSummary) && typeof value.contextSummary.text === 'string' && typeof value.contextSummary.throughMessageId === 'string') {
+    session.contextSummary = value.contextSummary as unknown as ChatSession['contextSummary'];
+  }
+  if (value.project !== undefined) {
+    if (isRecord(value.project) && typeof value.project.id === 'string' && isRecord(value.project.files)) {
+      session.project = value.project as unknown as ChatSession['project'];
+    } else {
+      issues.push(`Session ${index + 1} (${label}): its code project was dropped because it is malformed.`);
+    }
+  }
+  if (session.project && isRecord(value.projectReview) && Array.isArray(value.projectReview.changes)) {
+    session.projectReview = value.projectReview as unknown as ChatSession['projectReview'];
+  }
+  return session;
+};
+
+/**
+ * Validates the contents of a file written by "Export Chat History".
+ * Throws only when the file as a whole is unusable; bad entries are skipped and listed in `issues`.
+ */
+export function parseHistoryExport(text: string): HistoryImportPreview {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!Array.isArray(data)) {
+    throw new Error("The file does not contain a list of chat sessions.");
+  }
+
+  const issues: string[] = [];
+  const sessions: ChatSession[] = [];
+  const seenIds = new Set<string>();
+  data.forEach((raw, index) => {
+    const session = parseSession(raw, index, issues);
+    if (typeof session === 'string') {
+      issues.push(`Session ${index + 1} was skipped: ${session}.`);
+    } else if (seenIds.has(session.id)) {
+      issues.push(`Session ${index + 1} ("${session.title}") was skipped: its id appears earlier in the file.`);
+    } else {
+      seenIds.add(session.id);
+      sessions.push(session);
+    }
+  });
+
+  return {
+    sessions,
+    messageCount: sessions.reduce((sum, s) => sum + s.messages.length, 0),
+    attachmentCount: sessions.reduce((sum, s) => sum + s.messages.reduce((n, m) => n + (m.attachments?.length ?? 0), 0), 0),
+    issues,
+  };
+}
+
+/**
+ * merge: imported sessions overwrite existing ones with the same id, the rest are added.
+ * skip-duplicates: only sessions with new ids are added.
+ * replace: the imported sessions become the entire history.
+ */
+export function applyHistoryImport(existing: ChatSession[], imported: ChatSession[], mode: HistoryImportMode): ChatSession[] {
+  if (mode === 'replace') return imported;
+
+  const importedById = new Map(imported.map(session => [session.id, session]));
+  const existingIds = new Set(existing.map(session => session.id));
+  const added = imported.filter(session => !existingIds.has(session.id));
+  const kept = mode === 'merge'
+    ? existing.map(session => importedById.get(session.id) ?? session)
+    : existing;
+  return [...added, ...kept];
+}
@@ -0,0 +1,166 @@
+import { ChatMessage, OpenAICompatibleConfig, ResponseChunk, Role, TokenUsage } from '../types';
+import type { GenerateOptions } from './chatProviders';
+import { apiErrorFromStatus, toApiError } from './apiErrors';
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | OpenAIContentPart[];
+}
+
+// The `usage` object of a chat completion. Compatible servers often leave out the detail fields.
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+const normalizeBaseUrl = (baseUrl: string): string => baseUrl.trim().replace(/\/+$/, '');
+
+const buildHeaders = (config: OpenAICompatibleConfig): HeadersInit => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey.trim()) {
+        headers['Authorization'] = `Bearer ${config.apiKey.trim()}`;
+    }
+    return headers;
+};
+
+const decodeTextDataUrl = (dataUrl: string): string => {
+    const base64 = dataUrl.substring(dataUrl.indexOf(',') + 1);
+    const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+};
+
+const buildMessages = (messages: ChatMessage[], systemInstruction: string): OpenAIMessage[] => {
+    const result: OpenAIMessage[] = [];
+    if (systemInstruction.trim()) {
+        result.push({ role: 'system', content: systemInstruction });
+    }
+
+    messages.forEach(msg => {
+        const role = msg.role === Role.MODEL ? 'assistant' : 'user';
+        const attachments = msg.attachments || [];
+        if (attachments.length === 0) {
+            result.push({ role, content: msg.content });
+            return;
+        }
+
+        const parts: OpenAIContentPart[] = [];
+        if (msg.content.trim()) {
+            parts.push({ type: 'text', text: msg.content });
+        }
+        attachments.forEach(file => {
+            if (file.mimeType.startsWith('image/')) {
+                parts.push({ type: 'image_url', image_url: { url: file.dataUrl } });
+            } else if (file.mimeType.startsWith('text/') || file.mimeType === 'application/json') {
+                parts.push({ type: 'text', text: `File: ${file.name}\n\n${decodeTextDataUrl(file.dataUrl)}` });
+            }
+            // Other binary formats (PDF, audio, video) have no chat-completions equivalent and are skipped.
+        });
+        result.push({ role, content: parts });
+    });
+
+    return result;
+};
+
+// completion_tokens includes the reasoning tokens, which TokenUsage counts separately like Gemini does.
+const toTokenUsage = (usage: OpenAIUsage): TokenUsage => ({
+    promptTokens: usage.prompt_tokens ?? 0,
+    candidatesTokens: (usage.completion_tokens ?? 0) - (usage.completion_tokens_details?.reasoning_tokens ?? 0),
+    thinkingTokens: usage.completion_tokens_details?.reasoning_tokens ?? 0,
+    cachedTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+    totalTokens: usage.total_tokens ?? 0,
+});
+
+export async function listModels(config: OpenAICompatibleConfig): Promise<string[]> {
+    const response = await fetch(`${normalizeBaseUrl(config.baseUrl)}/models`, { headers: buildHeaders(config) });
+    if (!response.ok) {
+        throw new Error(`Failed to list models: ${response.status} ${response.statusText}`);
+    }
+    const body = await response.json();
+    return (body.data || []).map((model: { id: string }) => model.id);
+}
+
+export async function generateChatResponse(
+  config: OpenAICompatibleConfig,
+  messages: ChatMessage[],
+  modelName: string,
+  options: GenerateOptions,
+  onChunk: (chunk: ResponseChunk) => void,
+  signal: AbortSignal
+): Promise<void> {
+  try {
+    const { temperature, topP, maxOutputTokens, stopSequences, responseMimeType } = options.config;
+    const body: Record<string, unknown> = {
+        model: modelName,
+        messages: buildMessages(messages, options.systemInstruction),
+        stream: true,
+        // Asks for a final chunk carrying token usage; servers that don't support it ignore the option.
+        stream_options: { include_usage: true },
+        temperature,
+        top_p: topP,
+        max_tokens: maxOutputTokens,
+        stop: stopSequences,
+    };
+    if (responseMimeType === 'application/json') {
+        body.response_format = { type: 'json_object' };
+    }
+
+    const response = await fetch(`${normalizeBaseUrl(config.baseUrl)}/chat/completions`, {
+        method: 'POST',
+        headers: buildHeaders(config),
+        body: JSON.stringify(body),
+        signal,
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        throw apiErrorFromStatus(response.status, errorText || `Chat completion request failed: ${response.status} ${response.statusText}`);
+    }
+    if (!response.body) {
+        throw new Error("Chat completion response has no body.");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || ''; // Keep the last partial line
+
+        for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+            const data = trimmed.slice('data:'.length).trim();
+            if (data === '[DONE]') return;
+
+            const payload = JSON.parse(data);
+            const delta = payload.choices?.[0]?.delta?.content;
+            if (delta) {
+                onChunk({ text: delta, parts: [{ text: delta }] });
+            }
+            if (payload.usage) {
+                onChunk({ text: '', parts: [], usage: toTokenUsage(payload.usage) });
+            }
+        }
+    }
+
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      console.log('Stream generation aborted.');
+      throw error; // Propagate the abort error
+    }
+    console.error("Error streaming chat response:", error);
+    throw toApiError(error);
+  }
+}
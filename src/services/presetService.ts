@@ -0,0 +1,117 @@
+import { PresetSettings, RunPreset } from '../types';
+import { downloadBlob } from '../lib/download';
+
+const EXPORT_FORMAT = 'rexpro-run-presets';
+const EXPORT_VERSION = 1;
+
+export interface PresetImportResult {
+  presets: RunPreset[];
+  // Human-readable notes about entries that were skipped while validating.
+  issues: string[];
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const createPresetId = (): string => `preset_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+
+// Accepts full run settings too; only the preset fields are copied.
+export const toPresetSettings = (settings: PresetSettings): PresetSettings => ({
+  model: settings.model,
+  systemInstruction: settings.systemInstruction,
+  temperature: settings.temperature,
+  topP: settings.topP,
+  maxOutputTokens: settings.maxOutputTokens,
+  stopSequence: settings.stopSequence,
+  useStructuredOutput: settings.useStructuredOutput,
+  structuredOutputSchema: settings.structuredOutputSchema,
+  useFunctionCalling: settings.useFunctionCalling,
+  functionDeclarations: settings.functionDeclarations,
+});
+
+export const isSamePresetSettings = (a: PresetSettings, b: PresetSettings): boolean =>
+  JSON.stringify(toPresetSettings(a)) === JSON.stringify(toPresetSettings(b));
+
+const parseSettings = (value: unknown): PresetSettings | string => {
+  if (!isRecord(value)) return 'missing settings';
+  const { model, systemInstruction, temperature, topP, maxOutputTokens, stopSequence, useStructuredOutput, structuredOutputSchema, useFunctionCalling, functionDeclarations } = value;
+  if (typeof model !== 'string' || !model) return 'missing model';
+  if (typeof temperature !== 'number' || temperature < 0 || temperature > 2) return 'temperature must be a number between 0 and 2';
+  if (typeof topP !== 'number' || topP < 0 || topP > 1) return 'topP must be a number between 0 and 1';
+  if (typeof maxOutputTokens !== 'number' || !Number.isInteger(maxOutputTokens) || maxOutputTokens < 1) return 'maxOutputTokens must be a positive integer';
+  // Free-text fields and flags are optional so hand-written presets can stay short.
+  return {
+    model,
+    systemInstruction: typeof systemInstruction === 'string' ? systemInstruction : '',
+    temperature,
+    topP,
+    maxOutputTokens,
+    stopSequence: typeof stopSequence === 'string' ? stopSequence : '',
+    useStructuredOutput: useStructuredOutput === true,
+    structuredOutputSchema: typeof structuredOutputSchema === 'string' ? structuredOutputSchema : '',
+    useFunctionCalling: useFunctionCalling === true,
+    functionDeclarations: typeof functionDeclarations === 'string' ? functionDeclarations : '',
+  };
+};
+
+/**
+ * Validates a file written by `exportPresets`. A bare list of presets is accepted as well.
+ * Throws only when the file as a whole is unusable; bad entries are skipped and listed in `issues`.
+ */
+export function parsePresetsFile(text: string): PresetImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const entries = isRecord(data) ? data.presets : data;
+  if (!Array.isArray(entries)) {
+    throw new Error("The file does not contain a list of presets.");
+  }
+
+  const issues: string[] = [];
+  const presets: RunPreset[] = [];
+  const seenNames = new Set<string>();
+  entries.forEach((raw, index) => {
+    const name = isRecord(raw) && typeof raw.name === 'string' ? raw.name.trim() : '';
+    if (!name) {
+      issues.push(`Preset ${index + 1} was skipped: missing name.`);
+      return;
+    }
+    const settings = parseSettings(isRecord(raw) ? raw.settings : undefined);
+    if (typeof settings === 'string') {
+      issues.push(`Preset ${index + 1} ("${name}") was skipped: ${settings}.`);
+    } else if (seenNames.has(name.toLowerCase())) {
+      issues.push(`Preset ${index + 1} ("${name}") was skipped: its name appears earlier in the file.`);
+    } else {
+      seenNames.add(name.toLowerCase());
+      presets.push({ id: createPresetId(), name, settings, updatedAt: Date.now() });
+    }
+  });
+  return { presets, issues };
+}
+
+/**
+ * Imported presets replace existing ones with the same name (ignoring case); the rest are added.
+ */
+export function applyPresetImport(existing: RunPreset[], imported: RunPreset[]): RunPreset[] {
+  const importedByName = new Map(imported.map(preset => [preset.name.toLowerCase(), preset]));
+  const kept = existing.map(preset => {
+    const replacement = importedByName.get(preset.name.toLowerCase());
+    if (!replacement) return preset;
+    importedByName.delete(preset.name.toLowerCase());
+    return { ...replacement, id: preset.id };
+  });
+  return [...kept, ...importedByName.values()];
+}
+
+export function exportPresets(presets: RunPreset[]) {
+  const data = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    presets: presets.map(({ name, settings }) => ({ name, settings })),
+  };
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), `run-presets-${new Date().toISOString().slice(0, 10)}.json`);
+}
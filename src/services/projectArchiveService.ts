@@ -0,0 +1,112 @@
+import type JSZip from 'jszip';
+import { FileSystemNode, Project } from '../types';
+import { FileTree, decodeFileData, validateName } from '../lib/fileTree';
+import { downloadBlob, toFileSlug } from '../lib/download';
+
+// Metadata that archivers add and that isn't part of the project.
+const IGNORED_ENTRY_PATTERN = /(^|\/)(__MACOSX|\.DS_Store|Thumbs\.db)(\/|$)/;
+
+const addToZip = (folder: JSZip, nodes: FileTree) => {
+  Object.entries(nodes).forEach(([key, node]) => {
+    if (node.children) addToZip(folder.folder(key)!, node.children);
+    else folder.file(key, node.content ?? '', { base64: node.encoding === 'base64' });
+  });
+};
+
+// JSZip is only needed for archives, so it is loaded on demand instead of with the app.
+const loadJSZip = async () => (await import('jszip')).default;
+
+export async function downloadProjectZip(project: Project): Promise<void> {
+  const Zip = await loadJSZip();
+  const zip = new Zip();
+  addToZip(zip, project.files);
+  downloadBlob(await zip.generateAsync({ type: 'blob' }), `${toFileSlug(project.name, 'project')}.zip`);
+}
+
+// Larger projects don't fit in the prompt anyway, and the limit keeps a zip bomb from freezing the tab.
+const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+const MAX_ARCHIVE_FILES = 5000;
+
+type StreamableEntry = JSZip.JSZipObject & { internalStream(type: 'uint8array'): JSZip.JSZipStreamHelper<Uint8Array> };
+
+// Entries are decompressed chunk by chunk, so an oversized one is stopped before it is held in memory.
+const readEntry = (entry: JSZip.JSZipObject, maxBytes: number): Promise<Uint8Array> => new Promise((resolve, reject) => {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const stream = (entry as StreamableEntry).internalStream('uint8array');
+  stream
+    .on('data', chunk => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        stream.pause();
+        reject(new Error(`The archive unpacks to more than ${MAX_ARCHIVE_BYTES / 1024 / 1024} MB.`));
+        return;
+      }
+      chunks.push(chunk);
+    })
+    .on('error', reject)
+    .on('end', () => {
+      const data = new Uint8Array(size);
+      let offset = 0;
+      chunks.forEach(chunk => {
+        data.set(chunk, offset);
+        offset += chunk.length;
+      });
+      resolve(data);
+    })
+    .resume();
+});
+
+// Empty and "." segments are dropped. ".." would reach outside the project, so the archive is rejected.
+const entryPath = (name: string): string[] => {
+  const parts = name.replace(/\\/g, '/').split('/').filter(part => part && part !== '.');
+  const invalid = parts.find(part => validateName(part));
+  if (invalid !== undefined) throw new Error(`"${name}" isn't a valid path inside a project.`);
+  return parts;
+};
+
+const folderAt = (root: FileTree, parts: string[]): FileTree =>
+  parts.reduce((level, part, index) => {
+    if (level[part] && !level[part].children) throw new Error(`"${parts.slice(0, index + 1).join('/')}" is both a file and a folder in the archive.`);
+    if (!level[part]) level[part] = { name: part, children: {} };
+    return level[part].children!;
+  }, root);
+
+/**
+ * Reads an uploaded archive into a file tree. When every entry sits in one top-level folder, as in most
+ * downloaded repositories, that folder becomes the project name instead of a level of the tree.
+ */
+export async function readProjectZip(file: File): Promise<{ name: string; files: FileTree }> {
+  const Zip = await loadJSZip();
+  const zip = await Zip.loadAsync(file);
+  const entries = Object.values(zip.files)
+    .filter(entry => !IGNORED_ENTRY_PATTERN.test(entry.name))
+    .map(entry => ({ entry, parts: entryPath(entry.name) }))
+    .filter(({ parts }) => parts.length > 0);
+  const fileEntries = entries.filter(({ entry }) => !entry.dir);
+  if (fileEntries.length === 0) throw new Error("The archive doesn't contain any files.");
+  if (fileEntries.length > MAX_ARCHIVE_FILES) throw new Error(`The archive has more than ${MAX_ARCHIVE_FILES} files.`);
+
+  const topLevel = entries[0].parts[0];
+  const hasSingleRoot = entries.every(({ parts }) => parts[0] === topLevel) && fileEntries.every(({ parts }) => parts.length > 1);
+  const strip = (parts: string[]) => hasSingleRoot ? parts.slice(1) : parts;
+
+  const files: FileTree = {};
+  let totalBytes = 0;
+  for (const { entry, parts: entryParts } of entries) {
+    const parts = strip(entryParts);
+    if (parts.length === 0) continue;
+    if (entry.dir) {
+      folderAt(files, parts);
+      continue;
+    }
+    const name = parts[parts.length - 1];
+    const folder = folderAt(files, parts.slice(0, -1));
+    if (folder[name]) throw new Error(`"${parts.join('/')}" appears more than once in the archive.`);
+    const data = await readEntry(entry, MAX_ARCHIVE_BYTES - totalBytes);
+    totalBytes += data.length;
+    const node: FileSystemNode = { name, ...decodeFileData(data) };
+    folder[name] = node;
+  }
+  return { name: hasSingleRoot ? topLevel : file.name.replace(/\.zip$/i, ''), files };
+}
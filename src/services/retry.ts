@@ -0,0 +1,53 @@
+import { RetryConfig } from '../types';
+import { toApiError } from './apiErrors';
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted by user', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted by user', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// "Full jitter": a random delay up to the exponential cap, so concurrent clients don't retry in lockstep.
+export const backoffDelay = (attempt: number, config: RetryConfig): number => {
+  const cap = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * cap);
+};
+
+/**
+ * Runs `operation`, retrying rate-limited (429, but not an exhausted quota) and unavailable (5xx) failures.
+ * Other failures are rethrown immediately as typed ApiRequestErrors.
+ */
+export async function withRetry<T>(operation: () => Promise<T>, config: RetryConfig, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') throw error;
+
+      const apiError = toApiError(error);
+      if (!apiError.retryable || attempt >= config.maxRetries) throw apiError;
+
+      const delay = Math.min(config.maxDelayMs, apiError.retryAfterMs ?? backoffDelay(attempt, config));
+      console.warn(`${apiError.name} (status ${apiError.status}), retrying in ${delay}ms (attempt ${attempt + 1} of ${config.maxRetries}).`);
+      await sleep(delay, signal);
+    }
+  }
+}
@@ -0,0 +1,290 @@
+import { Attachment, ChatMessage, ChatSession, PromptEntry } from '../types';
+import { linkMessages } from '../lib/messageTree';
+
+const DB_NAME = 'rexpro-ai';
+const DB_VERSION = 3;
+const SESSIONS_STORE = 'sessions';
+const ATTACHMENTS_STORE = 'attachments';
+const PROMPTS_STORE = 'prompts';
+const LEGACY_HISTORY_KEY = 'chatHistory';
+
+type AttachmentRef = Omit<Attachment, 'dataUrl'>;
+
+type StoredMessage = Omit<ChatMessage, 'attachments'> & { attachments?: AttachmentRef[] };
+
+interface StoredSession extends Omit<ChatSession, 'messages'> {
+  messages: StoredMessage[];
+  createdAt: number;
+}
+
+// Keyed by session and attachment id. Imported and branched chats reuse attachment ids, so each session keeps
+// its own copy of the blob and deleting one session never removes a blob another still shows.
+interface StoredAttachment extends AttachmentRef {
+  sessionId: string;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let isUpgradedElsewhere = false;
+// Writes are chained so that rapid updates to the same session (e.g. while streaming) land in order.
+let writeQueue: Promise<void> = Promise.resolve();
+const persistedAttachmentIds = new Map<string, Set<string>>();
+const sessionCreatedAt = new Map<string, number>();
+
+const createAttachmentStore = (db: IDBDatabase): IDBObjectStore => {
+  const attachmentStore = db.createObjectStore(ATTACHMENTS_STORE, { keyPath: ['sessionId', 'id'] });
+  attachmentStore.createIndex('sessionId', 'sessionId');
+  return attachmentStore;
+};
+
+// Before version 3 blobs were keyed by attachment id alone and owned by whichever session saved them first.
+// Every session that references a blob gets its own record.
+const migrateAttachmentKeys = (tx: IDBTransaction): void => {
+  const db = tx.db;
+  const attachmentsRequest = tx.objectStore(ATTACHMENTS_STORE).getAll() as IDBRequest<StoredAttachment[]>;
+  attachmentsRequest.onsuccess = () => {
+    const blobs = new Map(attachmentsRequest.result.map(record => [record.id, record.blob]));
+    const sessionsRequest = tx.objectStore(SESSIONS_STORE).getAll() as IDBRequest<StoredSession[]>;
+    sessionsRequest.onsuccess = () => {
+      db.deleteObjectStore(ATTACHMENTS_STORE);
+      const attachmentStore = createAttachmentStore(db);
+      sessionsRequest.result.forEach(session => session.messages.forEach(msg => msg.attachments?.forEach(ref => {
+        const blob = blobs.get(ref.id);
+        if (blob) attachmentStore.put({ id: ref.id, name: ref.name, mimeType: ref.mimeType, sessionId: session.id, blob });
+      })));
+    };
+  };
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (isUpgradedElsewhere) {
+    return Promise.reject(new Error("REXPro AI was updated in another tab. Reload this tab to keep saving chats."));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(ATTACHMENTS_STORE)) {
+          createAttachmentStore(db);
+        } else if (event.oldVersion < 3) {
+          migrateAttachmentKeys(request.transaction!);
+        }
+        if (!db.objectStoreNames.contains(PROMPTS_STORE)) {
+          db.createObjectStore(PROMPTS_STORE, { keyPath: 'id' });
+        }
+      };
+      // Another tab still has the database open at the old version, so the upgrade can't start yet.
+      let isBlocked = false;
+      request.onblocked = () => {
+        isBlocked = true;
+        dbPromise = null;
+        reject(new Error("The chat database can't be upgraded while REXPro AI is open in another tab. Close the other tabs and reload this one."));
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // The other tabs closed after all; this attempt was already reported as failed.
+        if (isBlocked) {
+          db.close();
+          return;
+        }
+        // Let a newer version of the app in another tab upgrade the database instead of blocking it.
+        db.onversionchange = () => {
+          db.close();
+          isUpgradedElsewhere = true;
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const enqueueWrite = (write: () => Promise<void>): Promise<void> => {
+  const next = writeQueue.then(write);
+  writeQueue = next.catch(() => undefined);
+  return next;
+};
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const createAttachmentId = (): string => `att_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+
+export const createPromptId = (): string => `prompt_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+
+const toStoredSession = (session: ChatSession): StoredSession => {
+  let createdAt = sessionCreatedAt.get(session.id);
+  if (createdAt === undefined) {
+    createdAt = Date.now();
+    sessionCreatedAt.set(session.id, createdAt);
+  }
+  return {
+    ...session,
+    createdAt,
+    messages: session.messages.map(msg => ({
+      ...msg,
+      attachments: msg.attachments?.map(({ dataUrl, ...ref }) => ref),
+    })),
+  };
+};
+
+const writeSession = async (session: ChatSession): Promise<void> => {
+  const knownIds = persistedAttachmentIds.get(session.id) ?? new Set<string>();
+  const currentAttachments = new Map<string, Attachment>();
+  session.messages.forEach(msg => msg.attachments?.forEach(att => currentAttachments.set(att.id, att)));
+
+  // Blobs must be prepared before the transaction opens; IndexedDB transactions commit as soon as we await something else.
+  const newRecords: StoredAttachment[] = await Promise.all(
+    [...currentAttachments.values()]
+      .filter(att => !knownIds.has(att.id))
+      .map(async att => ({ id: att.id, name: att.name, mimeType: att.mimeType, sessionId: session.id, blob: await dataUrlToBlob(att.dataUrl) }))
+  );
+  const removedIds = [...knownIds].filter(id => !currentAttachments.has(id));
+
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, ATTACHMENTS_STORE], 'readwrite');
+  const attachmentStore = tx.objectStore(ATTACHMENTS_STORE);
+  newRecords.forEach(record => attachmentStore.put(record));
+  removedIds.forEach(id => attachmentStore.delete([session.id, id]));
+  tx.objectStore(SESSIONS_STORE).put(toStoredSession(session));
+  await transactionDone(tx);
+
+  persistedAttachmentIds.set(session.id, new Set(currentAttachments.keys()));
+};
+
+export function saveSession(session: ChatSession): Promise<void> {
+  return enqueueWrite(() => writeSession(session));
+}
+
+export function deleteSession(sessionId: string): Promise<void> {
+  return enqueueWrite(async () => {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, ATTACHMENTS_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).delete(sessionId);
+    const attachmentStore = tx.objectStore(ATTACHMENTS_STORE);
+    const attachmentKeys = await requestToPromise(attachmentStore.index('sessionId').getAllKeys(sessionId));
+    attachmentKeys.forEach(key => attachmentStore.delete(key));
+    await transactionDone(tx);
+
+    persistedAttachmentIds.delete(sessionId);
+    sessionCreatedAt.delete(sessionId);
+  });
+}
+
+const migrateLegacyHistory = async (): Promise<void> => {
+  const savedHistory = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!savedHistory) return;
+
+  let legacySessions: ChatSession[];
+  try {
+    legacySessions = JSON.parse(savedHistory);
+  } catch (error) {
+    console.error("Failed to parse legacy chat history from localStorage", error);
+    return;
+  }
+
+  const now = Date.now();
+  for (const [index, session] of legacySessions.entries()) {
+    const messages = session.messages.map(msg => ({
+      ...msg,
+      attachments: msg.attachments?.map(att => ({ ...att, id: att.id || createAttachmentId() })),
+    }));
+    // Legacy history was stored newest-first; keep that order.
+    sessionCreatedAt.set(session.id, now - index);
+    await saveSession({ ...session, messages });
+  }
+
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
+
+export async function loadChatHistory(): Promise<ChatSession[]> {
+  await migrateLegacyHistory();
+
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, ATTACHMENTS_STORE], 'readonly');
+  const [storedSessions, storedAttachments] = await Promise.all([
+    requestToPromise(tx.objectStore(SESSIONS_STORE).getAll() as IDBRequest<StoredSession[]>),
+    requestToPromise(tx.objectStore(ATTACHMENTS_STORE).getAll() as IDBRequest<StoredAttachment[]>),
+  ]);
+
+  const dataUrls = new Map<string, string>();
+  const dataUrlKey = (sessionId: string, attachmentId: string) => `${sessionId}/${attachmentId}`;
+  await Promise.all(storedAttachments.map(async record => {
+    dataUrls.set(dataUrlKey(record.sessionId, record.id), await blobToDataUrl(record.blob));
+  }));
+
+  return storedSessions
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(({ createdAt, ...stored }) => {
+      sessionCreatedAt.set(stored.id, createdAt);
+      const attachmentIds = new Set<string>();
+      const messages: ChatMessage[] = stored.messages.map(msg => ({
+        ...msg,
+        attachments: msg.attachments
+          ?.filter(ref => dataUrls.has(dataUrlKey(stored.id, ref.id)))
+          .map(ref => {
+            attachmentIds.add(ref.id);
+            return { ...ref, dataUrl: dataUrls.get(dataUrlKey(stored.id, ref.id))! };
+          }),
+      }));
+      persistedAttachmentIds.set(stored.id, attachmentIds);
+      return { ...stored, messages: linkMessages(messages) };
+    });
+}
+
+export async function loadPrompts(): Promise<PromptEntry[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(PROMPTS_STORE, 'readonly');
+  const prompts = await requestToPromise(tx.objectStore(PROMPTS_STORE).getAll() as IDBRequest<PromptEntry[]>);
+  return prompts.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function savePrompt(prompt: PromptEntry): Promise<void> {
+  return enqueueWrite(async () => {
+    const db = await openDatabase();
+    const tx = db.transaction(PROMPTS_STORE, 'readwrite');
+    tx.objectStore(PROMPTS_STORE).put(prompt);
+    await transactionDone(tx);
+  });
+}
+
+export function deletePrompt(promptId: string): Promise<void> {
+  return enqueueWrite(async () => {
+    const db = await openDatabase();
+    const tx = db.transaction(PROMPTS_STORE, 'readwrite');
+    tx.objectStore(PROMPTS_STORE).delete(promptId);
+    await transactionDone(tx);
+  });
+}
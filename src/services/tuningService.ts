@@ -0,0 +1,100 @@
+import { TuningProgress, TuningStatus } from '../types';
+import type { TuningExample } from '../lib/tuningData';
+import * as gemini from './geminiService';
+import { sleep } from './retry';
+
+export interface TuningJobRequest {
+  displayName: string;
+  baseModel: string;
+  examples: TuningExample[];
+}
+
+export interface TuningJobStatus {
+  status: TuningStatus;
+  progress: TuningProgress;
+  error?: string;
+}
+
+export interface TuningService {
+  // Resolves to the tuned model's resource name, which identifies the job from then on.
+  startJob: (request: TuningJobRequest) => Promise<string>;
+  getJobStatus: (tunedModelName: string, exampleCount: number, signal?: AbortSignal) => Promise<TuningJobStatus>;
+  pollIntervalMs: number;
+  // Simulated jobs produce no real model, so chats fall back to the base model and system instruction.
+  canGenerate: boolean;
+}
+
+export const geminiTuningService: TuningService = {
+  startJob: request => gemini.startTuningJob(request),
+  getJobStatus: (tunedModelName, exampleCount, signal) => gemini.getTuningJobStatus(tunedModelName, exampleCount, signal),
+  pollIntervalMs: 30000,
+  canGenerate: true,
+};
+
+interface MockTuningOptions {
+  stepsPerPoll?: number;
+  pollIntervalMs?: number;
+  // Makes the job fail once it reaches this percentage, to exercise the error path.
+  failAtPercent?: number;
+}
+
+/**
+ * Simulates tuning jobs in memory so the Tuning tab can be used without an API key or network.
+ * Loss decays towards a floor as the steps advance.
+ */
+export const createMockTuningService = ({ stepsPerPoll = 5, pollIntervalMs = 2000, failAtPercent }: MockTuningOptions = {}): TuningService => {
+  const completedSteps = new Map<string, number>();
+
+  return {
+    startJob: async request => {
+      if (request.examples.length === 0) throw new Error("A tuning job needs at least one training example.");
+      const slug = request.displayName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'model';
+      const tunedModelName = `tunedModels/mock-${slug}-${Date.now()}`;
+      completedSteps.set(tunedModelName, 0);
+      return tunedModelName;
+    },
+    getJobStatus: async (tunedModelName, exampleCount, signal) => {
+      if (signal?.aborted) throw new DOMException('Aborted by user', 'AbortError');
+      const epochCount = 5;
+      const totalSteps = Math.max(1, Math.ceil(exampleCount / 4) * epochCount);
+      // Jobs restored after a reload restart from the beginning.
+      const step = Math.min(totalSteps, (completedSteps.get(tunedModelName) ?? 0) + stepsPerPoll);
+      completedSteps.set(tunedModelName, step);
+
+      const completedPercent = Math.round((step / totalSteps) * 100);
+      const progress: TuningProgress = {
+        completedPercent,
+        step,
+        totalSteps,
+        epoch: Math.ceil((step / totalSteps) * epochCount),
+        loss: Number((0.15 + 2.5 * Math.exp(-4 * step / totalSteps)).toFixed(4)),
+      };
+      if (failAtPercent !== undefined && completedPercent >= failAtPercent) {
+        return { status: TuningStatus.FAILED, progress, error: "The simulated tuning job failed." };
+      }
+      return { status: step >= totalSteps ? TuningStatus.COMPLETED : TuningStatus.TRAINING, progress };
+    },
+    pollIntervalMs,
+    canGenerate: false,
+  };
+};
+
+export const tuningService: TuningService = import.meta.env.VITE_MOCK_TUNING === 'true' ? createMockTuningService() : geminiTuningService;
+
+/**
+ * Reports every status until the job leaves the TRAINING state, then resolves to the final status.
+ */
+export async function pollTuningJob(
+  service: TuningService,
+  tunedModelName: string,
+  exampleCount: number,
+  onUpdate: (status: TuningJobStatus) => void,
+  signal: AbortSignal
+): Promise<TuningJobStatus> {
+  while (true) {
+    const status = await service.getJobStatus(tunedModelName, exampleCount, signal);
+    onUpdate(status);
+    if (status.status !== TuningStatus.TRAINING) return status;
+    await sleep(service.pollIntervalMs, signal);
+  }
+}
@@ -27,13 +27,27 @@ export enum Role {
 }
 
 export interface Attachment {
+  id: string;
   name: string;
   mimeType: string;
   dataUrl: string;
+  // Set once a large attachment has been uploaded through the Gemini Files API.
+  uploadedFile?: UploadedFile;
+}
+
+export interface UploadedFile {
+  // Files API resource name, e.g. "files/abc123".
+  name: string;
+  uri: string;
+  expiresAt: number;
+  // Hash of the API key that uploaded it; files are only visible to that key's project.
+  keyFingerprint: string;
 }
 
 export interface ChatMessage {
   id: string;
+  // Previous message in the conversation tree; null for a first message. Siblings share a parent.
+  parentId?: string | null;
   role: Role;
   content: string;
   attachments?: Attachment[];
@@ -43,13 +57,264 @@ export interface ChatMessage {
   projectFilesUpdate?: boolean;
   project?: Project;
   groundingChunks?: any[];
+  error?: MessageError;
+  // Set on model replies: what the reply was requested with.
+  generation?: GenerationDetails;
+  // Function-calling rounds that came before `content`, in order.
+  toolTurns?: ToolTurn[];
+  // Set when a reply mixes text with code execution or images; `content` still holds the text alone.
+  parts?: MessagePart[];
+  // Token usage reported by the provider, summed over every function-calling round of the reply.
+  usage?: TokenUsage;
+  // Prompt plus output of the reply's last round, which is roughly what the next request resends.
+  contextTokens?: number;
+  // Set on each reply of a compare-mode prompt; the replies are siblings under the same user message.
+  comparison?: ComparisonResult;
+}
+
+export interface ComparisonResult {
+  // The model option the reply was requested from, which for a tuned model differs from generation.model.
+  model: string;
+  // Milliseconds from sending to the first streamed text and to the end of the reply.
+  firstTokenMs?: number;
+  latencyMs?: number;
+  isPreferred?: boolean;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  candidatesTokens: number;
+  thinkingTokens: number;
+  // The part of promptTokens served from the context cache.
+  cachedTokens: number;
+  totalTokens: number;
+}
+
+// USD per million tokens. Thinking tokens are billed as output.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  cachedInputPerMillion: number;
+}
+
+export type MessagePart =
+  | { type: 'text'; text: string }
+  | { type: 'executableCode'; language: string; code: string }
+  | { type: 'codeExecutionResult'; outcome: string; output: string }
+  // Images are kept in `attachments` so they are stored like any other file.
+  | { type: 'image'; attachmentId: string };
+
+export enum ToolCallStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: ToolCallStatus;
+  // What was sent back to the model as the functionResponse.
+  response?: Record<string, unknown>;
+  error?: string;
+}
+
+// One function-calling round: the text the model produced before calling, and the calls it made.
+export interface ToolTurn {
+  text: string;
+  calls: ToolCall[];
+  // The round's ordered parts, kept when it produced code execution or images.
+  parts?: MessagePart[];
+}
+
+export interface GenerationDetails {
+  // The model name sent to the provider; a tuned model appears as its resource name.
+  model: string;
+  provider: ChatProviderId;
+  // The request config exactly as sent: the generation config, or the image settings for image models.
+  config: Record<string, unknown>;
+  systemInstruction?: string;
+  createdAt: number;
+}
+
+export enum ApiErrorKind {
+  RATE_LIMITED = 'rate_limited',
+  QUOTA_EXHAUSTED = 'quota_exhausted',
+  SAFETY_BLOCKED = 'safety_blocked',
+  INVALID_ARGUMENT = 'invalid_argument',
+  CONTEXT_TOO_LONG = 'context_too_long',
+  UNAUTHENTICATED = 'unauthenticated',
+  UNAVAILABLE = 'unavailable',
+  NETWORK = 'network',
+  UNKNOWN = 'unknown',
+}
+
+// Serializable form of an API error, stored on the model message that failed.
+export interface MessageError {
+  kind: ApiErrorKind;
+  message: string;
+}
+
+export interface RetryConfig {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export enum BatchRowStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  DONE = 'done',
+  FAILED = 'failed',
+}
+
+// One input row of a batch run and its result.
+export interface BatchRow {
+  index: number;
+  values: Record<string, string>;
+  status: BatchRowStatus;
+  output?: string;
+  error?: MessageError;
+  // Requests sent for this row, including ones that were rate limited and requeued.
+  attempts: number;
+  usage?: TokenUsage;
+  latencyMs?: number;
+}
+
+export enum ChatProviderId {
+  GEMINI = 'gemini',
+  OPENAI_COMPATIBLE = 'openai-compatible',
+}
+
+export interface ModelOption {
+  value: Model | string;
+  label: string;
+  provider?: ChatProviderId;
+}
+
+export interface ApiKeyEntry {
+  id: string;
+  name: string;
+  key: string;
+  addedAt: number;
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey: string;
+}
+
+// Provider-neutral shape of a (possibly partial) model response.
+export type ResponsePart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { functionCall: { id?: string; name: string; args: Record<string, unknown> } }
+  | { executableCode: { language: string; code: string } }
+  | { codeExecutionResult: { outcome: string; output: string } };
+
+export interface ResponseChunk {
+  text: string;
+  parts: ResponsePart[];
+  groundingChunks?: any[];
+  // Usually only on the final chunk of a stream.
+  usage?: TokenUsage;
 }
 
 export interface ChatSession {
   id: string;
   title: string;
+  // Every message of every branch, in creation order. Use getActivePath() for the visible conversation.
   messages: ChatMessage[];
+  // Which child is shown at each branch point, keyed by parent message id (or ROOT_BRANCH_KEY).
+  selectedChildIds?: Record<string, string>;
   project?: Project;
+  // Model and Sidebar settings last used in this chat, restored when it is selected.
+  runSettings?: RunSettings;
+  // Rolling summary of the turns that fell out of the context window, when summarizing older turns.
+  contextSummary?: ContextSummary;
+  // Code Interpreter changes waiting to be accepted or rejected before they reach `project`.
+  projectReview?: ProjectReview;
+}
+
+export interface ProjectReview {
+  // The reply that proposed the changes; it gets a snapshot of the project once the review is done.
+  messageId: string;
+  changes: FileChange[];
+}
+
+export interface FileChange {
+  path: string;
+  // Hunks accepted so far are copied into `original` and rejected ones into `proposed`.
+  original: string;
+  proposed: string;
+  isNew?: boolean;
+  isDeleted?: boolean;
+}
+
+export interface ContextSummary {
+  text: string;
+  // The last message the summary covers; a summary that doesn't end on the current branch is rebuilt.
+  throughMessageId: string;
+  createdAt: number;
+}
+
+export interface RunSettings {
+  model: Model | string;
+  systemInstruction: string;
+  temperature: number;
+  topP: number;
+  maxOutputTokens: number;
+  stopSequence: string;
+  mediaResolution: MediaResolution;
+  useThinking: boolean;
+  useThinkingBudget: boolean;
+  thinkingBudget: number;
+  useGoogleSearch: boolean;
+  useUrlContext: boolean;
+  urlContext: string;
+  useStructuredOutput: boolean;
+  structuredOutputSchema: string;
+  useCodeExecution: boolean;
+  useFunctionCalling: boolean;
+  functionDeclarations: string;
+  numberOfImages: number;
+  negativePrompt: string;
+  seed?: number;
+  aspectRatio: string;
+  personGeneration: string;
+  contextStrategy: ContextStrategy;
+  // Number of most recent user turns, with their replies, kept in full when the strategy isn't FULL.
+  contextTurns: number;
+}
+
+// The part of the run settings a named preset carries.
+export type PresetSettings = Pick<RunSettings,
+  'model' | 'systemInstruction' | 'temperature' | 'topP' | 'maxOutputTokens' | 'stopSequence'
+  | 'useStructuredOutput' | 'structuredOutputSchema' | 'useFunctionCalling' | 'functionDeclarations'>;
+
+export interface RunPreset {
+  id: string;
+  name: string;
+  settings: PresetSettings;
+  updatedAt: number;
+}
+
+export enum PromptKind {
+  SYSTEM_INSTRUCTION = 'system_instruction',
+  TEMPLATE = 'template',
+}
+
+export interface PromptEntry {
+  id: string;
+  kind: PromptKind;
+  name: string;
+  // Templates may contain {{variable}} placeholders that are filled in before sending.
+  content: string;
+  tags: string[];
+  isFavorite: boolean;
+  updatedAt: number;
 }
 
 export enum MediaResolution {
@@ -59,6 +324,12 @@ export enum MediaResolution {
     HIGH = 'high',
 }
 
+export enum ContextStrategy {
+    FULL = 'full',
+    SLIDING_WINDOW = 'sliding_window',
+    SUMMARIZE = 'summarize',
+}
+
 export enum TuningStatus {
   TRAINING = 'TRAINING',
   COMPLETED = 'COMPLETED',
@@ -86,6 +357,20 @@ export interface TunedModel {
   trainingFiles: TrainingFile[];
   sourceUrls?: string[];
   status: TuningStatus;
+  // Resource name of the tuning job's model (e.g. `tunedModels/...`); set once the job has been accepted.
+  tunedModelName?: string;
+  exampleCount?: number;
+  progress?: TuningProgress;
+  error?: string;
+}
+
+export interface TuningProgress {
+  completedPercent: number;
+  step?: number;
+  totalSteps?: number;
+  epoch?: number;
+  // Mean loss of the latest training snapshot.
+  loss?: number;
 }
 
 
@@ -93,6 +378,8 @@ export interface TunedModel {
 export type FileSystemNode = {
   name: string;
   content?: string;
+  // Binary files keep their bytes base64-encoded in `content`.
+  encoding?: 'base64';
   children?: { [key: string]: FileSystemNode };
 };
 
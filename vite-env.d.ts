@@ -1,7 +1,8 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-	readonly VITE_API_KEY: string;
+	readonly VITE_API_KEY?: string;
+	readonly VITE_MOCK_TUNING?: string;
 }
 
 interface ImportMeta {